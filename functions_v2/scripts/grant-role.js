@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * Grant or revoke a role (a boolean custom claim) with the Admin SDK against
+ * the Auth emulator:
+ *
+ *   npm run grant-role -- <uid|email> <role> [--revoke]
+ *
+ * Roles match USER_ROLES in src/middleware/auth.ts. The user picks the change
+ * up on their next ID token refresh (sign out and back in).
+ */
+const admin = require('firebase-admin')
+
+const ROLES = ['admin', 'dev']
+
+process.env.FIREBASE_AUTH_EMULATOR_HOST ??= '127.0.0.1:9099'
+const projectId = process.env.GCLOUD_PROJECT ?? 'nfl-parlay-builder-dev'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const revoke = args.includes('--revoke')
+  const [userRef, role] = args.filter(arg => !arg.startsWith('--'))
+  if (!userRef || !ROLES.includes(role)) {
+    console.error(
+      `Usage: npm run grant-role -- <uid|email> <${ROLES.join('|')}> [--revoke]`
+    )
+    process.exit(1)
+  }
+
+  admin.initializeApp({ projectId })
+  const user = userRef.includes('@')
+    ? await admin.auth().getUserByEmail(userRef)
+    : await admin.auth().getUser(userRef)
+  const claims = { ...user.customClaims }
+  if (revoke) {
+    delete claims[role]
+  } else {
+    claims[role] = true
+  }
+  await admin.auth().setCustomUserClaims(user.uid, claims)
+  console.log(
+    `${revoke ? 'Revoked' : 'Granted'} ${role} for ${user.email ?? user.uid}`,
+    { emulator: process.env.FIREBASE_AUTH_EMULATOR_HOST, claims }
+  )
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
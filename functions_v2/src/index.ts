@@ -1,17 +1,13 @@
+import './init'
 import cors from 'cors'
 import express from 'express'
-import * as admin from 'firebase-admin'
 import { defineSecret } from 'firebase-functions/params'
 import { onRequest } from 'firebase-functions/v2/https'
+import { onSchedule } from 'firebase-functions/v2/scheduler'
 import type { AuthedRequest } from './middleware/auth'
-import { protectedRouter, publicRouter } from './routes'
-
-// Initialize Firebase Admin once
-try {
-  admin.app()
-} catch {
-  admin.initializeApp()
-}
+import { adminRouter, protectedRouter, publicRouter } from './routes'
+import { settleFinalGames } from './service/settlement'
+import { getCacheStats, purgeExpiredCache } from './utils/cache'
 
 // Config
 const REGION = 'us-central1'
@@ -52,6 +48,13 @@ const corsMiddleware = cors({
     return callback(new Error('Not allowed by CORS'))
   },
   credentials: true,
+  // Let the browser read rate limit state on cross-origin responses
+  exposedHeaders: [
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'Retry-After',
+  ],
 })
 
 // Express app
@@ -73,15 +76,34 @@ app.use(corsMiddleware)
 app.options('*', corsMiddleware)
 app.use(express.json({ limit: '1mb' }))
 
-// Health
+// Health, with this instance's cache hit/miss counters
 app.get('/v2/health', (_req: express.Request, res: express.Response) => {
-  res.json({ ok: true })
+  res.json({ ok: true, cache: getCacheStats() })
 })
 
 // Mount routers
 app.use('/v2', publicRouter)
 app.use('/v2', protectedRouter)
+app.use('/v2/admin', adminRouter)
 
 const OPENAI_API_KEY = defineSecret('OPENAI_API_KEY')
 
 export const api = onRequest({ region: REGION, secrets: [OPENAI_API_KEY] }, app)
+
+// Grade saved parlays once their games go final
+export const settleParlays = onSchedule(
+  { schedule: 'every 30 minutes', region: REGION },
+  async () => {
+    const result = await settleFinalGames()
+    console.info('Parlay settlement run complete', result)
+  }
+)
+
+// Delete cache documents past their expiry
+export const purgeCache = onSchedule(
+  { schedule: 'every 6 hours', region: REGION },
+  async () => {
+    const deleted = await purgeExpiredCache()
+    console.info('Cache cleanup run complete', { deleted })
+  }
+)
@@ -0,0 +1,10 @@
+import * as admin from 'firebase-admin'
+
+// Initialize Firebase Admin once. Modules such as storage and the cache call
+// admin.firestore() as they load, so index.ts imports this before anything
+// else.
+try {
+  admin.app()
+} catch {
+  admin.initializeApp()
+}
@@ -1,5 +1,6 @@
 import express from 'express'
 import * as admin from 'firebase-admin'
+import { getUserAccountFields } from '../storage/users'
 import { errorResponse } from '../utils/errors'
 
 export type AuthedRequest = express.Request & {
@@ -96,3 +97,86 @@ export async function verifyAuth(
     )
   }
 }
+
+export const USER_ROLES = ['admin', 'dev'] as const
+export type UserRole = (typeof USER_ROLES)[number]
+
+/**
+ * Roles are boolean custom claims (`{ admin: true }`), granted with
+ * `npm run grant-role` in functions_v2
+ */
+export function hasRole(
+  user: { [claim: string]: unknown } | undefined,
+  role: UserRole
+): boolean {
+  return user?.[role] === true
+}
+
+/**
+ * Dev/test users get the provider_override flag unless `config/flags` says
+ * otherwise. Everyone counts as one in the emulator; deployed, it takes the
+ * `dev` role.
+ */
+export function isDevUser(user: { [claim: string]: unknown } | undefined) {
+  return process.env.FUNCTIONS_EMULATOR === 'true' || hasRole(user, 'dev')
+}
+
+/**
+ * Reject users an admin has blocked from generating parlays. Mount after
+ * verifyAuth.
+ */
+export async function requireGenerationEnabled(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  const { correlationId, user } = req as AuthedRequest
+  if (!user) {
+    return next()
+  }
+  try {
+    const account = await getUserAccountFields(user.uid)
+    if (account.generationDisabled) {
+      return errorResponse(
+        res,
+        403,
+        'generation_disabled',
+        account.generationDisabledReason
+          ? `Parlay generation is disabled for this account: ${account.generationDisabledReason}`
+          : 'Parlay generation is disabled for this account',
+        correlationId
+      )
+    }
+  } catch (error) {
+    // Fail open: a profile read error should not block every generation
+    console.error('Generation access check failed', {
+      correlationId,
+      uid: user.uid,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+  return next()
+}
+
+/**
+ * Reject callers without the role with a 403. Mount after verifyAuth.
+ */
+export function requireRole(role: UserRole) {
+  return (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    const { correlationId, user } = req as AuthedRequest
+    if (!hasRole(user, role)) {
+      return errorResponse(
+        res,
+        403,
+        'forbidden',
+        `Requires the ${role} role`,
+        correlationId
+      )
+    }
+    return next()
+  }
+}
@@ -0,0 +1,45 @@
+import express from 'express'
+import type { AuthedRequest } from './auth'
+import {
+  FEATURE_FLAGS,
+  isFeatureEnabled,
+  type FeatureFlag,
+} from '../service/featureFlags'
+import { errorResponse } from '../utils/errors'
+
+/**
+ * Reject callers the flag is off for. Mount after verifyAuth.
+ */
+export function requireFeature(flag: FeatureFlag) {
+  return async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    const { correlationId, user } = req as AuthedRequest
+    let enabled = false
+    if (user) {
+      try {
+        enabled = await isFeatureEnabled(flag, user)
+      } catch (error) {
+        // Fall back to the flag's default rather than fail every request
+        console.error('Feature flag check failed, using default', {
+          correlationId,
+          flag,
+          error: error instanceof Error ? error.message : String(error),
+        })
+        enabled = FEATURE_FLAGS[flag].defaultValue(user)
+      }
+    }
+    if (!enabled) {
+      return errorResponse(
+        res,
+        403,
+        'feature_disabled',
+        'This feature is not enabled for this account',
+        correlationId
+      )
+    }
+    next()
+  }
+}
@@ -0,0 +1,251 @@
+import express from 'express'
+import type { AuthedRequest } from './auth'
+import {
+  checkAndIncrementRateLimit,
+  peekRateLimit,
+  rateLimitKey,
+  setRateLimitHeaders,
+  toRateLimitInfo,
+  type RateLimitInfo,
+  type RateLimitOptions,
+  type RateLimitState,
+} from './rateLimit'
+import { getRateLimitStore } from './rateLimitStore'
+import {
+  getTierQuotas,
+  resolveUserTier,
+  type UserClaims,
+  type UserTier,
+} from '../service/tiers'
+import { errorResponse } from '../utils/errors'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Body shape for a user's tier and both of its quotas */
+export type QuotaInfo = {
+  tier: UserTier
+  window: RateLimitInfo
+  // Null for tiers without a daily cap
+  daily: RateLimitInfo | null
+}
+
+type QuotaState = {
+  tier: UserTier
+  window: RateLimitState
+  daily: RateLimitState | null
+}
+
+function nextUtcMidnight(now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS + DAY_MS
+}
+
+// Daily counts live under a key per UTC day, so they reset at midnight
+function dailyKey(uid: string, bucket: string, now: number): string {
+  const day = new Date(now).toISOString().slice(0, 10)
+  return rateLimitKey(
+    `user:${uid}`,
+    `${bucket}:day:${day}`,
+    DAY_MS,
+    'fixed-window'
+  )
+}
+
+// The window length is part of the key, so retuning a tier's window starts
+// its users on fresh counts
+function windowKey(
+  uid: string,
+  bucket: string,
+  windowMs: number,
+  options: RateLimitOptions
+): string {
+  return rateLimitKey(`user:${uid}`, bucket, windowMs, options.algorithm)
+}
+
+function withDayReset(state: RateLimitState, now: number): RateLimitState {
+  return { ...state, resetAt: nextUtcMidnight(now) }
+}
+
+// Whichever quota runs out first is the one clients see as their rate limit
+function bindingState({ window, daily }: QuotaState): RateLimitState {
+  if (!daily) {
+    return window
+  }
+  if (!daily.allowed || !window.allowed) {
+    return daily.allowed ? window : daily
+  }
+  return daily.remaining < window.remaining ? daily : window
+}
+
+export function toQuotaInfo(state: QuotaState): QuotaInfo {
+  return {
+    tier: state.tier,
+    window: toRateLimitInfo(state.window),
+    daily: state.daily && toRateLimitInfo(state.daily),
+  }
+}
+
+/**
+ * Read the quota recorded by the quota middleware for this request
+ */
+export function getQuotaInfo(res: express.Response): QuotaInfo | undefined {
+  const state = res.locals.quota as QuotaState | undefined
+  return state && toQuotaInfo(state)
+}
+
+/**
+ * A user's tier and quotas without counting a request
+ */
+export async function getUserQuotaState(
+  user: UserClaims,
+  bucket: string,
+  options: RateLimitOptions = {}
+): Promise<QuotaState & { binding: RateLimitState }> {
+  const [tier, quotas] = await Promise.all([
+    resolveUserTier(user),
+    getTierQuotas(),
+  ])
+  const quota = quotas[tier]
+  const now = Date.now()
+  const [window, daily] = await Promise.all([
+    peekRateLimit(
+      windowKey(user.uid, bucket, quota.window.windowMs, options),
+      quota.window.limit,
+      quota.window.windowMs,
+      options
+    ),
+    quota.daily === null
+      ? null
+      : peekRateLimit(dailyKey(user.uid, bucket, now), quota.daily, DAY_MS, {
+          algorithm: 'fixed-window',
+          store: options.store,
+        }).then(state => withDayReset(state, now)),
+  ])
+  const state = { tier, window, daily }
+  return { ...state, binding: bindingState(state) }
+}
+
+/**
+ * Clear a user's counts for a bucket: every tier's window and today's daily
+ * count, so a tier change in between cannot leave a count behind
+ */
+export async function resetUserQuota(
+  uid: string,
+  bucket: string,
+  options: RateLimitOptions = {}
+): Promise<void> {
+  const store = options.store ?? getRateLimitStore()
+  const quotas = await getTierQuotas()
+  const keys = new Set([
+    ...Object.values(quotas).map(quota =>
+      windowKey(uid, bucket, quota.window.windowMs, options)
+    ),
+    dailyKey(uid, bucket, Date.now()),
+  ])
+  await Promise.all([...keys].map(key => store.delete(key)))
+}
+
+function quotaExceededResponse(
+  res: express.Response,
+  state: QuotaState,
+  message: string,
+  correlationId: string
+) {
+  const binding = bindingState(state)
+  setRateLimitHeaders(res, binding)
+  return errorResponse(res, 429, 'rate_limited', message, correlationId, {
+    rateLimitInfo: toRateLimitInfo(binding),
+    quotaInfo: toQuotaInfo(state),
+  })
+}
+
+/**
+ * Limit a bucket by the caller's tier: a rolling window and, for tiers that
+ * have one, a daily cap. The daily count is checked before and counted after
+ * the window, so a request refused by the window is not counted by the day.
+ */
+export function quotaByTier(bucket: string, options: RateLimitOptions = {}) {
+  return async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    const correlationId =
+      (req as AuthedRequest).correlationId ||
+      `req_${Math.random().toString(36).slice(2)}`
+    const user = (req as AuthedRequest).user
+    if (!user) {
+      return errorResponse(
+        res,
+        401,
+        'unauthorized',
+        'Missing user context for rate limit',
+        correlationId
+      )
+    }
+    let state: QuotaState
+    try {
+      const current = await getUserQuotaState(user, bucket, options)
+      const { tier } = current
+      const quota = (await getTierQuotas())[tier]
+      if (current.daily && !current.daily.allowed) {
+        return quotaExceededResponse(
+          res,
+          current,
+          'Daily generation quota exceeded',
+          correlationId
+        )
+      }
+
+      const window = await checkAndIncrementRateLimit(
+        windowKey(user.uid, bucket, quota.window.windowMs, options),
+        quota.window.limit,
+        quota.window.windowMs,
+        options
+      )
+      if (!window.allowed) {
+        return quotaExceededResponse(
+          res,
+          { ...current, window },
+          'Rate limit exceeded',
+          correlationId
+        )
+      }
+
+      const now = Date.now()
+      const daily =
+        quota.daily === null
+          ? null
+          : withDayReset(
+              await checkAndIncrementRateLimit(
+                dailyKey(user.uid, bucket, now),
+                quota.daily,
+                DAY_MS,
+                { algorithm: 'fixed-window', store: options.store }
+              ),
+              now
+            )
+      // Concurrent requests can pass the daily check above together; the
+      // increment is what decides who gets the last slot
+      if (daily && !daily.allowed) {
+        return quotaExceededResponse(
+          res,
+          { tier, window, daily },
+          'Daily generation quota exceeded',
+          correlationId
+        )
+      }
+      state = { tier, window, daily }
+    } catch {
+      return errorResponse(
+        res,
+        500,
+        'internal_error',
+        'Failed to check generation quota',
+        correlationId
+      )
+    }
+    setRateLimitHeaders(res, bindingState(state))
+    res.locals.quota = state
+    next()
+  }
+}
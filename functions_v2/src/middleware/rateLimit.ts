@@ -1,59 +1,160 @@
-import { createHash } from 'crypto'
 import express from 'express'
-import * as admin from 'firebase-admin'
 import type { AuthedRequest } from './auth'
+import {
+  getRateLimitAlgorithm,
+  toRateLimitState,
+  type RateLimitAlgorithmName,
+  type RateLimitRecord,
+  type RateLimitState,
+} from './rateLimitAlgorithms'
+import { getRateLimitStore, type RateLimitStore } from './rateLimitStore'
+import type { RateLimitRule } from '../service/runtimeConfig'
 import { errorResponse } from '../utils/errors'
 
-// Ensure Firebase Admin is initialized before using Firestore.
-try {
-  admin.app()
-} catch {
-  admin.initializeApp()
+export type { RateLimitAlgorithmName, RateLimitState }
+
+// Smooths fixed window boundary bursts for two small counters per key
+const DEFAULT_ALGORITHM: RateLimitAlgorithmName = 'sliding-window'
+
+/** Body shape returned to clients alongside rate-limited responses */
+export type RateLimitInfo = {
+  remaining: number
+  total: number
+  resetTime: string
+  currentCount: number
 }
 
-const db = admin.firestore()
+/** Per-route choices for the middleware factories */
+export type RateLimitOptions = {
+  algorithm?: RateLimitAlgorithmName
+  // Defaults to the RATE_LIMIT_STORE store; tests pass a memory store
+  store?: RateLimitStore
+}
 
-export type RateLimitRecord = { count: number; windowStart: number }
+/**
+ * A fixed limit, or one read per request so it follows runtime config
+ */
+export type RateLimitRuleSource = RateLimitRule | (() => Promise<RateLimitRule>)
 
-function rateLimitDocRef(key: string) {
-  const id = createHash('sha256').update(key).digest('hex')
-  return db
-    .collection('v2_rate_limits')
-    .doc(id)
-    .withConverter<RateLimitRecord>({
-      toFirestore: (data: RateLimitRecord) => data,
-      fromFirestore: (snap: FirebaseFirestore.QueryDocumentSnapshot) =>
-        snap.data() as RateLimitRecord,
-    })
+function resolveRule(source: RateLimitRuleSource): Promise<RateLimitRule> {
+  return typeof source === 'function' ? source() : Promise.resolve(source)
 }
 
-async function checkAndIncrementRateLimit(
+/**
+ * Count a request against a key when it fits under the limit
+ */
+export async function checkAndIncrementRateLimit(
   key: string,
   limit: number,
-  windowMs: number
-): Promise<boolean> {
+  windowMs: number,
+  { algorithm: name = DEFAULT_ALGORITHM, store }: RateLimitOptions
+): Promise<RateLimitState> {
+  const algorithm = getRateLimitAlgorithm(name)
   const now = Date.now()
-  return await db.runTransaction(async (tx: FirebaseFirestore.Transaction) => {
-    const ref = rateLimitDocRef(key)
-    const snap = await tx.get(ref)
-    if (!snap.exists) {
-      tx.set(ref, { count: 1, windowStart: now })
-      return true
-    }
-    const record = snap.data() as RateLimitRecord
-    if (now - record.windowStart >= windowMs) {
-      tx.set(ref, { count: 1, windowStart: now })
-      return true
+  return (store ?? getRateLimitStore()).update<RateLimitRecord, RateLimitState>(
+    key,
+    stored => {
+      const record = algorithm.current(stored, limit, windowMs, now)
+      const before = toRateLimitState(algorithm, record, limit, windowMs, now)
+      if (!before.allowed) {
+        return { result: before }
+      }
+      const updated = algorithm.add(record, limit, windowMs, now)
+      const after = toRateLimitState(algorithm, updated, limit, windowMs, now)
+      return { record: updated, result: { ...after, allowed: true } }
     }
-    if (record.count >= limit) {
-      return false
-    }
-    tx.update(ref, { count: record.count + 1 })
-    return true
-  })
+  )
+}
+
+/**
+ * Read a key's state without counting a request
+ */
+export async function peekRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number,
+  { algorithm: name = DEFAULT_ALGORITHM, store }: RateLimitOptions = {}
+): Promise<RateLimitState> {
+  const algorithm = getRateLimitAlgorithm(name)
+  const now = Date.now()
+  const stored = await (store ?? getRateLimitStore()).get<RateLimitRecord>(key)
+  const record = algorithm.current(stored, limit, windowMs, now)
+  return toRateLimitState(algorithm, record, limit, windowMs, now)
+}
+
+// Each algorithm keeps its own record shape, so it is part of the key
+export function rateLimitKey(
+  subject: string,
+  route: string,
+  windowMs: number,
+  algorithm: RateLimitAlgorithmName = DEFAULT_ALGORITHM
+) {
+  return `${subject}:route:${route}:win:${windowMs}:alg:${algorithm}`
+}
+
+export function toRateLimitInfo(state: RateLimitState): RateLimitInfo {
+  return {
+    remaining: state.remaining,
+    total: state.limit,
+    resetTime: new Date(state.resetAt).toISOString(),
+    currentCount: state.count,
+  }
 }
 
-export function rateLimitByIp(limit: number, windowMs: number) {
+/**
+ * Read the state recorded by the rate limit middleware for this request
+ */
+export function getRateLimitInfo(
+  res: express.Response
+): RateLimitInfo | undefined {
+  const state = res.locals.rateLimit as RateLimitState | undefined
+  return state && toRateLimitInfo(state)
+}
+
+/**
+ * Emit IETF draft `RateLimit-*` headers; reset is seconds until the window ends
+ */
+export function setRateLimitHeaders(
+  res: express.Response,
+  state: RateLimitState
+) {
+  const resetSeconds = Math.max(
+    0,
+    Math.ceil((state.resetAt - Date.now()) / 1000)
+  )
+  res.setHeader('RateLimit-Limit', String(state.limit))
+  res.setHeader('RateLimit-Remaining', String(state.remaining))
+  res.setHeader('RateLimit-Reset', String(resetSeconds))
+  if (!state.allowed) {
+    res.setHeader('Retry-After', String(resetSeconds))
+  }
+  res.locals.rateLimit = state
+}
+
+function rateLimitedResponse(
+  res: express.Response,
+  state: RateLimitState,
+  correlationId: string
+) {
+  return errorResponse(
+    res,
+    429,
+    'rate_limited',
+    'Rate limit exceeded',
+    correlationId,
+    { rateLimitInfo: toRateLimitInfo(state) }
+  )
+}
+
+/**
+ * Limit per client IP. Routes passing the same bucket share one counter;
+ * otherwise each route path is counted separately, so routes with path
+ * parameters should pass one.
+ */
+export function rateLimitByIp(
+  rule: RateLimitRuleSource,
+  options: RateLimitOptions & { bucket?: string } = {}
+) {
   return async (
     req: express.Request,
     res: express.Response,
@@ -63,23 +164,32 @@ export function rateLimitByIp(limit: number, windowMs: number) {
       (req as AuthedRequest).correlationId ||
       `req_${Math.random().toString(36).slice(2)}`
     const ip = req.ip || 'unknown'
-    const route = req.path || 'unknown'
-    const key = `ip:${ip}:route:${route}:win:${windowMs}`
-    const allowed = await checkAndIncrementRateLimit(key, limit, windowMs)
-    if (!allowed) {
-      return errorResponse(
-        res,
-        429,
-        'rate_limited',
-        'Rate limit exceeded',
-        correlationId
-      )
+    const route = options.bucket ?? (req.path || 'unknown')
+    const { limit, windowMs } = await resolveRule(rule)
+    const key = rateLimitKey(`ip:${ip}`, route, windowMs, options.algorithm)
+    const state = await checkAndIncrementRateLimit(
+      key,
+      limit,
+      windowMs,
+      options
+    )
+    setRateLimitHeaders(res, state)
+    if (!state.allowed) {
+      return rateLimitedResponse(res, state, correlationId)
     }
     next()
   }
 }
 
-export function rateLimitByUser(limit: number, windowMs: number) {
+/**
+ * Limit per user. Routes passing the same bucket share one counter;
+ * otherwise each route path is counted separately. Routes choose their
+ * algorithm; sliding window counters by default.
+ */
+export function rateLimitByUser(
+  rule: RateLimitRuleSource,
+  options: RateLimitOptions & { bucket?: string } = {}
+) {
   return async (
     req: express.Request,
     res: express.Response,
@@ -98,18 +208,22 @@ export function rateLimitByUser(limit: number, windowMs: number) {
         correlationId
       )
     }
-    const uid = user.uid
-    const route = req.path || 'unknown'
-    const key = `user:${uid}:route:${route}:win:${windowMs}`
-    const allowed = await checkAndIncrementRateLimit(key, limit, windowMs)
-    if (!allowed) {
-      return errorResponse(
-        res,
-        429,
-        'rate_limited',
-        'Rate limit exceeded',
-        correlationId
-      )
+    const { limit, windowMs } = await resolveRule(rule)
+    const key = rateLimitKey(
+      `user:${user.uid}`,
+      options.bucket ?? (req.path || 'unknown'),
+      windowMs,
+      options.algorithm
+    )
+    const state = await checkAndIncrementRateLimit(
+      key,
+      limit,
+      windowMs,
+      options
+    )
+    setRateLimitHeaders(res, state)
+    if (!state.allowed) {
+      return rateLimitedResponse(res, state, correlationId)
     }
     next()
   }
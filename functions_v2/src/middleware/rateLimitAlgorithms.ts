@@ -0,0 +1,200 @@
+export const RATE_LIMIT_ALGORITHMS = [
+  'fixed-window',
+  'sliding-log',
+  'sliding-window',
+  'token-bucket',
+] as const
+export type RateLimitAlgorithmName = (typeof RATE_LIMIT_ALGORITHMS)[number]
+
+export type RateLimitState = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Requests counted against the limit right now
+  count: number
+  // Epoch ms when the next request frees up: the window end for the window
+  // algorithms, the oldest request aging out of a sliding log, the next token
+  resetAt: number
+}
+
+/**
+ * How one algorithm keeps its stored record. Records are plain objects so
+ * any store can hold them; `used` may be fractional (weighted or refilled).
+ */
+export interface RateLimitAlgorithm<R> {
+  readonly name: RateLimitAlgorithmName
+  /** The record as of `now`: expired requests dropped, tokens refilled */
+  current(
+    record: R | undefined,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): R
+  usage(
+    record: R,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): { used: number; resetAt: number }
+  /** Count one request */
+  add(record: R, limit: number, windowMs: number, now: number): R
+}
+
+type FixedWindowRecord = { count: number; windowStart: number }
+
+/**
+ * Counts reset when the window ends, so up to twice the limit can land
+ * around a window boundary
+ */
+const fixedWindow: RateLimitAlgorithm<FixedWindowRecord> = {
+  name: 'fixed-window',
+  current(record, _limit, windowMs, now) {
+    return record && now - record.windowStart < windowMs
+      ? record
+      : { count: 0, windowStart: now }
+  },
+  usage(record, _limit, windowMs) {
+    return { used: record.count, resetAt: record.windowStart + windowMs }
+  },
+  add(record) {
+    return { ...record, count: record.count + 1 }
+  },
+}
+
+type SlidingLogRecord = { timestamps: number[] }
+
+/**
+ * Keeps every request time inside the window. Exact, but the record grows
+ * with the limit, so it suits small limits.
+ */
+const slidingLog: RateLimitAlgorithm<SlidingLogRecord> = {
+  name: 'sliding-log',
+  current(record, _limit, windowMs, now) {
+    return {
+      timestamps: (record?.timestamps ?? []).filter(t => now - t < windowMs),
+    }
+  },
+  usage(record, _limit, windowMs, now) {
+    const [oldest] = record.timestamps
+    return {
+      used: record.timestamps.length,
+      resetAt: oldest !== undefined ? oldest + windowMs : now + windowMs,
+    }
+  },
+  add(record, _limit, _windowMs, now) {
+    return { timestamps: [...record.timestamps, now] }
+  },
+}
+
+type SlidingWindowRecord = {
+  windowStart: number
+  count: number
+  previousCount: number
+}
+
+/**
+ * Fixed windows, with the previous window's count weighted by how much of it
+ * still overlaps the sliding window. Two counters approximate a sliding log.
+ */
+const slidingWindow: RateLimitAlgorithm<SlidingWindowRecord> = {
+  name: 'sliding-window',
+  current(record, _limit, windowMs, now) {
+    if (!record) {
+      return { windowStart: now, count: 0, previousCount: 0 }
+    }
+    const elapsed = Math.floor((now - record.windowStart) / windowMs)
+    if (elapsed <= 0) {
+      return record
+    }
+    return {
+      windowStart: record.windowStart + elapsed * windowMs,
+      count: 0,
+      previousCount: elapsed === 1 ? record.count : 0,
+    }
+  },
+  usage(record, _limit, windowMs, now) {
+    const overlap = 1 - (now - record.windowStart) / windowMs
+    return {
+      used: record.previousCount * overlap + record.count,
+      resetAt: record.windowStart + windowMs,
+    }
+  },
+  add(record) {
+    return { ...record, count: record.count + 1 }
+  },
+}
+
+type TokenBucketRecord = { tokens: number; updatedAt: number }
+
+/**
+ * A bucket of `limit` tokens refilling evenly over `windowMs`. Allows bursts
+ * up to the limit, then a steady rate.
+ */
+const tokenBucket: RateLimitAlgorithm<TokenBucketRecord> = {
+  name: 'token-bucket',
+  current(record, limit, windowMs, now) {
+    if (!record) {
+      return { tokens: limit, updatedAt: now }
+    }
+    const refilled = ((now - record.updatedAt) * limit) / windowMs
+    return { tokens: Math.min(limit, record.tokens + refilled), updatedAt: now }
+  },
+  usage(record, limit, windowMs, now) {
+    const missing = Math.floor(record.tokens) + 1 - record.tokens
+    return {
+      used: limit - record.tokens,
+      resetAt:
+        record.tokens >= limit ? now : now + (missing * windowMs) / limit,
+    }
+  },
+  add(record) {
+    return { ...record, tokens: record.tokens - 1 }
+  },
+}
+
+type RateLimitRecords = {
+  'fixed-window': FixedWindowRecord
+  'sliding-log': SlidingLogRecord
+  'sliding-window': SlidingWindowRecord
+  'token-bucket': TokenBucketRecord
+}
+
+/** The record kept by any of the algorithms */
+export type RateLimitRecord = RateLimitRecords[RateLimitAlgorithmName]
+
+const ALGORITHMS: {
+  [N in RateLimitAlgorithmName]: RateLimitAlgorithm<RateLimitRecords[N]>
+} = {
+  'fixed-window': fixedWindow,
+  'sliding-log': slidingLog,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+}
+
+export function getRateLimitAlgorithm<N extends RateLimitAlgorithmName>(
+  name: N
+): RateLimitAlgorithm<RateLimitRecords[N]> {
+  return ALGORITHMS[name]
+}
+
+/**
+ * Turn a record into the state reported to clients. A request is allowed
+ * while one more whole request fits under the limit.
+ */
+export function toRateLimitState<R>(
+  algorithm: RateLimitAlgorithm<R>,
+  record: R,
+  limit: number,
+  windowMs: number,
+  now: number
+): RateLimitState {
+  const { used, resetAt } = algorithm.usage(record, limit, windowMs, now)
+  const remaining = Math.max(0, Math.floor(limit - used + 1e-9))
+  return {
+    allowed: remaining > 0,
+    limit,
+    remaining,
+    count: limit - remaining,
+    resetAt,
+  }
+}
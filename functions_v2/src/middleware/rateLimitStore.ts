@@ -0,0 +1,125 @@
+import { createHash } from 'crypto'
+import * as admin from 'firebase-admin'
+
+/** Records are plain objects so any store can hold them */
+export type StoredRecord = Record<string, unknown>
+
+/**
+ * Where rate limit records live. `update` must be atomic per key: it reads the
+ * record, and writes back whatever `apply` returns as `record` (nothing when
+ * that is undefined).
+ */
+export interface RateLimitStore {
+  readonly name: string
+  get<R extends StoredRecord>(key: string): Promise<R | undefined>
+  delete(key: string): Promise<void>
+  update<R extends StoredRecord, T>(
+    key: string,
+    apply: (record: R | undefined) => { record?: R; result: T }
+  ): Promise<T>
+}
+
+/**
+ * Records in the `v2_rate_limits` collection, one transaction per update
+ */
+export function createFirestoreRateLimitStore(): RateLimitStore {
+  // Ensure Firebase Admin is initialized before using Firestore.
+  try {
+    admin.app()
+  } catch {
+    admin.initializeApp()
+  }
+  const db = admin.firestore()
+  const docRef = (key: string) =>
+    db
+      .collection('v2_rate_limits')
+      .doc(createHash('sha256').update(key).digest('hex'))
+
+  return {
+    name: 'firestore',
+    async get<R extends StoredRecord>(key: string) {
+      const snap = await docRef(key).get()
+      return snap.exists ? (snap.data() as R) : undefined
+    },
+    async delete(key) {
+      await docRef(key).delete()
+    },
+    update<R extends StoredRecord, T>(
+      key: string,
+      apply: (record: R | undefined) => { record?: R; result: T }
+    ) {
+      return db.runTransaction(async (tx: FirebaseFirestore.Transaction) => {
+        const ref = docRef(key)
+        const snap = await tx.get(ref)
+        const { record, result } = apply(
+          snap.exists ? (snap.data() as R) : undefined
+        )
+        if (record !== undefined) {
+          tx.set(ref, record)
+        }
+        return result
+      })
+    },
+  }
+}
+
+const MEMORY_MAX_KEYS = 10_000
+
+/**
+ * Records in this process only: for tests and the emulator, where counts
+ * need not be shared between instances. The oldest keys are dropped past
+ * MEMORY_MAX_KEYS.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const records = new Map<string, StoredRecord>()
+  return {
+    name: 'memory',
+    async get<R extends StoredRecord>(key: string) {
+      return records.get(key) as R | undefined
+    },
+    async delete(key) {
+      records.delete(key)
+    },
+    async update<R extends StoredRecord, T>(
+      key: string,
+      apply: (record: R | undefined) => { record?: R; result: T }
+    ) {
+      const { record, result } = apply(records.get(key) as R | undefined)
+      if (record !== undefined) {
+        records.delete(key)
+        records.set(key, record)
+        if (records.size > MEMORY_MAX_KEYS) {
+          const oldest = records.keys().next().value
+          if (oldest !== undefined) {
+            records.delete(oldest)
+          }
+        }
+      }
+      return result
+    },
+  }
+}
+
+let store: RateLimitStore | null = null
+
+/**
+ * The store from RATE_LIMIT_STORE ('firestore' | 'memory'), created once per
+ * instance. The emulator defaults to memory; deployed functions to Firestore.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const configured =
+      process.env.RATE_LIMIT_STORE ??
+      (process.env.FUNCTIONS_EMULATOR === 'true' ? 'memory' : 'firestore')
+    if (configured !== 'memory' && configured !== 'firestore') {
+      console.error('Unknown RATE_LIMIT_STORE, using Firestore', {
+        configured,
+      })
+    }
+    store =
+      configured === 'memory'
+        ? createMemoryRateLimitStore()
+        : createFirestoreRateLimitStore()
+  }
+  return store
+}
@@ -1,3 +1,6 @@
+import type { GameOdds, OddsMarket } from './odds'
+import type { VenueRoof } from './venues'
+
 export type ESPNTeamRef = {
   id: string
   name: string
@@ -24,28 +27,116 @@ export type ESPNCompetition = {
     }>
   }>
 }
-export type ESPNEventStatus = { type?: { name?: string } }
+export type ESPNEventStatus = {
+  // state is 'pre', 'in' or 'post'; completed is only set for games played out
+  type?: { name?: string; state?: string; completed?: boolean }
+}
 export type ESPNEvent = {
   id: string
   date: string
   competitions?: ESPNCompetition[]
   status?: ESPNEventStatus
   week?: { number?: number }
-  season?: { year?: number }
+  season?: { year?: number; type?: number }
 }
 export type ESPNScoreboardResponse = {
   events?: ESPNEvent[]
   week?: { number?: number }
-  season?: { year?: number }
+  season?: { year?: number; type?: number }
+}
+
+export type RosterPlayer = {
+  playerId: string
+  name: string
+  position?: string
+  jersey?: string
+  // ESPN roster status, e.g. "Active" or "Injured Reserve"
+  status?: string
+  // 1 for the starter at the player's depth chart position, 2 for the backup...
+  depth?: number
+}
+
+export const SEASON_TYPES = ['preseason', 'regular', 'postseason'] as const
+export type SeasonType = (typeof SEASON_TYPES)[number]
+
+// ESPN's `seasontype` ids
+const ESPN_SEASON_TYPE_IDS: Record<SeasonType, number> = {
+  preseason: 1,
+  regular: 2,
+  postseason: 3,
+}
+const OFFSEASON_TYPE_ID = 4
+
+/**
+ * Weeks per season type as ESPN numbers them. Postseason week 4 is the Pro
+ * Bowl and week 5 the Super Bowl.
+ */
+export const SEASON_WEEKS: Record<SeasonType, number> = {
+  preseason: 4,
+  regular: 18,
+  postseason: 5,
+}
+
+export type WeekRef = { week: number; seasonType: SeasonType }
+export type CurrentWeek = WeekRef & { season: number }
+
+// Earliest season the scoreboard serves week by week
+export const FIRST_SEASON = 2002
+
+/**
+ * Season year for a date when ESPN cannot tell us. Seasons are named for the
+ * year they kick off, so January and February belong to the previous one.
+ */
+export function seasonYearForDate(date = new Date()): number {
+  const year = date.getUTCFullYear()
+  return date.getUTCMonth() < 2 ? year - 1 : year
 }
 
-export type RosterPlayer = { playerId: string; name: string }
+const POSTSEASON_ROUNDS = [
+  'Wild Card',
+  'Divisional Round',
+  'Conference Championship',
+  'Pro Bowl',
+  'Super Bowl',
+]
+
+/**
+ * Human label for a week: "Week 5", "Preseason Week 2", "Wild Card"
+ */
+export function describeWeek(ref: WeekRef): string {
+  if (ref.seasonType === 'postseason') {
+    return POSTSEASON_ROUNDS[ref.week - 1] ?? `Postseason Week ${ref.week}`
+  }
+  return ref.seasonType === 'preseason'
+    ? `Preseason Week ${ref.week}`
+    : `Week ${ref.week}`
+}
+
+function toSeasonType(id: number | undefined): SeasonType {
+  if (id === ESPN_SEASON_TYPE_IDS.preseason) {
+    return 'preseason'
+  }
+  if (id === ESPN_SEASON_TYPE_IDS.postseason) {
+    return 'postseason'
+  }
+  return 'regular'
+}
+
+export type GameWeather = {
+  condition: string
+  temperatureF: number
+  windMph: number
+  // Percent chance of precipitation in the kickoff hour
+  precipitationChance?: number
+}
 
 export type GameItem = {
   gameId: string
   week: number
+  seasonType: SeasonType
+  season: number
   startTime: string
-  status: 'scheduled' | 'in_progress' | 'final' | 'postponed'
+  status: 'scheduled' | 'in_progress' | 'final' | 'postponed' | 'canceled'
   home: {
     teamId: string
     name: string
@@ -54,6 +145,10 @@ export type GameItem = {
     overallRecord: string
     homeRecord: string
     roadRecord: string
+    // ESPN branding: logo URL and hex colors without the leading '#'
+    logo?: string
+    color?: string
+    alternateColor?: string
   }
   away: {
     teamId: string
@@ -63,9 +158,20 @@ export type GameItem = {
     overallRecord: string
     homeRecord: string
     roadRecord: string
+    // ESPN branding: logo URL and hex colors without the leading '#'
+    logo?: string
+    color?: string
+    alternateColor?: string
+  }
+  venue: {
+    name: string
+    city: string
+    state: string
+    // From the static venue table; absent for venues it does not list
+    roof?: VenueRoof
   }
-  venue: { name: string; city: string; state: string }
-  weather?: { condition: string; temperatureF: number; windMph: number }
+  // Forecast at kickoff; absent for domes and when no forecast is available
+  weather?: GameWeather
   leaders?: {
     passing?: { name: string; stats: string; value: number }
     rushing?: { name: string; stats: string; value: number }
@@ -73,37 +179,52 @@ export type GameItem = {
   }
 }
 
-function mapStatus(
-  name: string | undefined
-): 'scheduled' | 'in_progress' | 'final' | 'postponed' {
-  if (!name) {
-    return 'scheduled'
+function extractBranding(
+  team: ESPNTeamRef
+): Pick<GameItem['home'], 'logo' | 'color' | 'alternateColor'> {
+  return {
+    ...(team.logo && { logo: team.logo }),
+    ...(team.color && { color: team.color }),
+    ...(team.alternateColor && { alternateColor: team.alternateColor }),
   }
-  const n = name.toLowerCase()
-  if (n.includes('pre') || n.includes('scheduled')) {
-    return 'scheduled'
+}
+
+/**
+ * Postponed and canceled games also reach ESPN's 'post' state, so a game is
+ * only final once ESPN marks it completed
+ */
+function mapStatus(status: ESPNEventStatus | undefined): GameItem['status'] {
+  const type = status?.type
+  const name = type?.name?.toUpperCase() ?? ''
+  if (name === 'STATUS_POSTPONED') {
+    return 'postponed'
   }
-  if (n.includes('in') || n.includes('live')) {
-    return 'in_progress'
+  if (name === 'STATUS_CANCELED' || name === 'STATUS_CANCELLED') {
+    return 'canceled'
   }
-  if (n.includes('final') || n.includes('post')) {
+  if (type?.completed === true || name === 'STATUS_FINAL') {
     return 'final'
   }
-  if (n.includes('postponed') || n.includes('delayed')) {
-    return 'postponed'
+  if (type?.state === 'in') {
+    return 'in_progress'
   }
   return 'scheduled'
 }
 
+// Scoreboard records are keyed by name ("overall", "Home", "Road"); event
+// summaries key the same records by type ("total", "home", "road")
 function extractTeamRecords(records: any[]): {
   overall: string
   home: string
   road: string
 } {
-  const overall = records.find(r => r.name === 'overall')?.summary || '0-0'
-  const home = records.find(r => r.name === 'Home')?.summary || '0-0'
-  const road = records.find(r => r.name === 'Road')?.summary || '0-0'
-  return { overall, home, road }
+  const find = (name: string, type: string) =>
+    records.find(r => r.name === name || r.type === type)?.summary || '0-0'
+  return {
+    overall: find('overall', 'total'),
+    home: find('Home', 'home'),
+    road: find('Road', 'road'),
+  }
 }
 
 function extractLeaders(leaders: any[]): GameItem['leaders'] {
@@ -138,7 +259,12 @@ function extractLeaders(leaders: any[]): GameItem['leaders'] {
 
 const ESPN_BASE = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl'
 
-export async function fetchCurrentWeek(): Promise<number> {
+/**
+ * The week ESPN's scoreboard currently points at. During the offseason this is
+ * the upcoming preseason's first week. Null when the scoreboard cannot be
+ * read.
+ */
+export async function fetchCurrentWeek(): Promise<CurrentWeek | null> {
   const resp = await fetch(`${ESPN_BASE}/scoreboard`, {
     headers: {
       'User-Agent':
@@ -147,15 +273,69 @@ export async function fetchCurrentWeek(): Promise<number> {
   })
   if (!resp.ok) {
     console.error('ESPN fetchCurrentWeek failed', { status: resp.status })
-    return 1
+    return null
   }
   const data = (await resp.json()) as ESPNScoreboardResponse
-  return data.week?.number ?? 1
+  const season = data.season?.year ?? seasonYearForDate()
+  if (data.season?.type === OFFSEASON_TYPE_ID) {
+    return { week: 1, seasonType: 'preseason', season }
+  }
+  return {
+    week: data.week?.number ?? 1,
+    seasonType: toSeasonType(data.season?.type),
+    season,
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+/**
+ * When regular season week 1 starts: the Tuesday before the kickoff game on
+ * the Thursday after Labor Day (the first Monday in September)
+ */
+function regularSeasonStart(season: number): number {
+  const september1 = Date.UTC(season, 8, 1)
+  const laborDay =
+    september1 + ((8 - new Date(september1).getUTCDay()) % 7) * DAY_MS
+  return laborDay + DAY_MS
 }
 
-export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
-  const year = new Date().getFullYear()
-  const url = `${ESPN_BASE}/scoreboard?seasontype=2&week=${encodeURIComponent(week)}&year=${encodeURIComponent(year)}`
+/**
+ * A best guess at the current week from the date, for when ESPN's scoreboard
+ * cannot be read. Weeks are counted from the regular season start: preseason
+ * weeks run back from it and postseason weeks follow regular season week 18.
+ * Like the scoreboard, the offseason maps to the upcoming preseason's first
+ * week.
+ */
+export function estimateCurrentWeek(date = new Date()): CurrentWeek {
+  const season = seasonYearForDate(date)
+  const start = regularSeasonStart(season)
+  const weeksIn = Math.floor((date.getTime() - start) / WEEK_MS)
+  if (weeksIn < 0) {
+    const week = Math.max(1, SEASON_WEEKS.preseason + 1 + weeksIn)
+    return { week, seasonType: 'preseason', season }
+  }
+  if (weeksIn < SEASON_WEEKS.regular) {
+    return { week: weeksIn + 1, seasonType: 'regular', season }
+  }
+  const postseasonWeek = weeksIn - SEASON_WEEKS.regular + 1
+  if (postseasonWeek <= SEASON_WEEKS.postseason) {
+    return { week: postseasonWeek, seasonType: 'postseason', season }
+  }
+  return { week: 1, seasonType: 'preseason', season: season + 1 }
+}
+
+/**
+ * Fetch one week of a season. `season` is the year the season kicked off,
+ * which ESPN takes as `dates`.
+ */
+export async function fetchGamesForWeek(
+  week: number,
+  seasonType: SeasonType,
+  season: number
+): Promise<GameItem[]> {
+  const url = `${ESPN_BASE}/scoreboard?seasontype=${ESPN_SEASON_TYPE_IDS[seasonType]}&week=${encodeURIComponent(week)}&dates=${encodeURIComponent(season)}`
   const resp = await fetch(url, {
     headers: {
       'User-Agent':
@@ -165,6 +345,8 @@ export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
   if (!resp.ok) {
     console.error('ESPN fetchGamesForWeek failed', {
       week,
+      seasonType,
+      season,
       status: resp.status,
     })
     return []
@@ -191,8 +373,10 @@ export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
       return {
         gameId: event.id,
         week: event.week?.number ?? data.week?.number ?? week,
+        seasonType,
+        season: event.season?.year ?? data.season?.year ?? season,
         startTime: event.date,
-        status: mapStatus(event.status?.type?.name),
+        status: mapStatus(event.status),
         home: {
           teamId: 'unknown',
           name: 'Unknown',
@@ -218,8 +402,10 @@ export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
     return {
       gameId: event.id,
       week: event.week?.number ?? data.week?.number ?? week,
+      seasonType,
+      season: event.season?.year ?? data.season?.year ?? season,
       startTime: event.date,
-      status: mapStatus(event.status?.type?.name),
+      status: mapStatus(event.status),
       home: {
         teamId: home.team.id,
         name: home.team.displayName || home.team.name,
@@ -228,6 +414,7 @@ export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
         overallRecord: homeRecords.overall,
         homeRecord: homeRecords.home,
         roadRecord: homeRecords.road,
+        ...extractBranding(home.team),
       },
       away: {
         teamId: away.team.id,
@@ -237,6 +424,7 @@ export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
         overallRecord: awayRecords.overall,
         homeRecord: awayRecords.home,
         roadRecord: awayRecords.road,
+        ...extractBranding(away.team),
       },
       venue: { name: venueName, city: venueCity, state: venueState },
       leaders,
@@ -245,10 +433,187 @@ export async function fetchGamesForWeek(week: number): Promise<GameItem[]> {
 }
 
 /**
- * Fetch a team's roster (lightweight shape for AI context)
+ * Fetch one game from ESPN's event summary, with the same shape as a
+ * scoreboard game. Null when ESPN has no such event.
  */
-export async function fetchTeamRoster(teamId: string): Promise<RosterPlayer[]> {
-  const url = `${ESPN_BASE}/teams/${encodeURIComponent(teamId)}/roster`
+export async function fetchGameSummary(
+  gameId: string
+): Promise<GameItem | null> {
+  const url = `${ESPN_BASE}/summary?event=${encodeURIComponent(gameId)}`
+  try {
+    const resp = await fetch(url, {
+      headers: {
+        'User-Agent':
+          'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
+      },
+    })
+    if (!resp.ok) {
+      console.error('ESPN fetchGameSummary failed', {
+        gameId,
+        status: resp.status,
+      })
+      return null
+    }
+    const data = (await resp.json()) as any
+    const header = data.header
+    const comp = header?.competitions?.[0]
+    const competitors: any[] = Array.isArray(comp?.competitors)
+      ? comp.competitors
+      : []
+    const toTeam = (homeAway: 'home' | 'away'): GameItem['home'] | null => {
+      const c = competitors.find(x => x.homeAway === homeAway)
+      if (!c?.team?.id) {
+        return null
+      }
+      const records = extractTeamRecords(
+        Array.isArray(c.record) ? c.record : []
+      )
+      return {
+        teamId: String(c.team.id),
+        name: c.team.displayName || c.team.name || '',
+        abbrev: c.team.abbreviation || '',
+        record: records.overall,
+        overallRecord: records.overall,
+        homeRecord: records.home,
+        roadRecord: records.road,
+        ...extractBranding({
+          ...c.team,
+          logo: c.team.logo ?? c.team.logos?.[0]?.href,
+        }),
+      }
+    }
+    const home = toTeam('home')
+    const away = toTeam('away')
+    if (!header?.id || !home || !away) {
+      return null
+    }
+
+    // Summary leaders are grouped per team; merge them into one list per stat
+    // so the best performer of the game comes first, as on the scoreboard
+    const teamLeaders: any[] = Array.isArray(data.leaders) ? data.leaders : []
+    const leaderCategories = new Map<string, any[]>()
+    for (const category of teamLeaders.flatMap(t =>
+      Array.isArray(t?.leaders) ? t.leaders : []
+    )) {
+      leaderCategories.set(category.name, [
+        ...(leaderCategories.get(category.name) ?? []),
+        ...(Array.isArray(category.leaders) ? category.leaders : []),
+      ])
+    }
+    const leaders = extractLeaders(
+      [...leaderCategories].map(([name, entries]) => ({
+        name,
+        leaders: entries
+          .map(entry => ({
+            ...entry,
+            value: toNumber(entry.value ?? entry.mainStat?.value),
+          }))
+          .sort((a, b) => b.value - a.value),
+      }))
+    )
+
+    const venue = data.gameInfo?.venue
+    const weather = data.gameInfo?.weather
+    return {
+      gameId: String(header.id),
+      week: toNumber(header.week) || 1,
+      seasonType: toSeasonType(header.season?.type),
+      season: header.season?.year ?? seasonYearForDate(new Date(comp.date)),
+      startTime: comp.date,
+      status: mapStatus(comp.status),
+      home,
+      away,
+      venue: {
+        name: venue?.fullName ?? '',
+        city: venue?.address?.city ?? '',
+        state: venue?.address?.state ?? '',
+      },
+      ...(weather?.temperature != null && {
+        weather: {
+          condition: weather.displayValue ?? '',
+          temperatureF: toNumber(weather.temperature),
+          windMph: toNumber(weather.windSpeed ?? weather.gust),
+        },
+      }),
+      leaders,
+    }
+  } catch {
+    return null
+  }
+}
+
+// American odds are never 0; ESPN leaves prices it does not have empty
+function toPrice(value: unknown): number | null {
+  const n = toNumber(value)
+  return n !== 0 ? n : null
+}
+
+/**
+ * Moneyline, spread and total from the first book in an event summary's
+ * pickcenter. ESPN quotes the spread from the home side.
+ */
+function extractPickcenterMarkets(
+  line: any,
+  game: Pick<GameItem, 'gameId' | 'home' | 'away'>
+): OddsMarket[] {
+  const markets: OddsMarket[] = []
+  const teamSubject = (side: 'home' | 'away') => ({
+    type: 'team' as const,
+    id: game[side].teamId,
+    name: game[side].name,
+  })
+  const homeSpread = toNumber(line?.spread)
+  for (const side of ['home', 'away'] as const) {
+    const teamOdds = line?.[`${side}TeamOdds`]
+    const moneyline = toPrice(teamOdds?.moneyLine)
+    if (moneyline != null) {
+      markets.push({
+        market: 'moneyline',
+        period: 'game',
+        subject: teamSubject(side),
+        price: moneyline,
+      })
+    }
+    const spreadPrice = toPrice(teamOdds?.spreadOdds)
+    if (line?.spread != null && spreadPrice != null) {
+      markets.push({
+        market: 'spread',
+        period: 'game',
+        subject: teamSubject(side),
+        line: side === 'home' ? homeSpread : -homeSpread,
+        price: spreadPrice,
+      })
+    }
+  }
+  const overUnder = toNumber(line?.overUnder)
+  for (const side of ['over', 'under'] as const) {
+    const price = toPrice(line?.[`${side}Odds`])
+    if (overUnder > 0 && price != null) {
+      markets.push({
+        market: 'total',
+        period: 'game',
+        subject: {
+          type: 'game',
+          id: game.gameId,
+          name: `${game.away.name} @ ${game.home.name}`,
+        },
+        side,
+        line: overUnder,
+        price,
+      })
+    }
+  }
+  return markets
+}
+
+/**
+ * Fetch a game's lines from ESPN's event summary. Null when ESPN lists no
+ * book for the game.
+ */
+export async function fetchGameOdds(
+  game: Pick<GameItem, 'gameId' | 'home' | 'away'>
+): Promise<GameOdds | null> {
+  const url = `${ESPN_BASE}/summary?event=${encodeURIComponent(game.gameId)}`
   try {
     const resp = await fetch(url, {
       headers: {
@@ -256,6 +621,107 @@ export async function fetchTeamRoster(teamId: string): Promise<RosterPlayer[]> {
           'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
       },
     })
+    if (!resp.ok) {
+      console.error('ESPN fetchGameOdds failed', {
+        gameId: game.gameId,
+        status: resp.status,
+      })
+      return null
+    }
+    const data = (await resp.json()) as any
+    const lines: any[] = Array.isArray(data.pickcenter)
+      ? data.pickcenter
+      : Array.isArray(data.odds)
+        ? data.odds
+        : []
+    const line = lines[0]
+    const markets = line ? extractPickcenterMarkets(line, game) : []
+    if (markets.length === 0) {
+      return null
+    }
+    return {
+      gameId: game.gameId,
+      bookmaker: line.provider?.name || 'ESPN',
+      updatedAt: new Date().toISOString(),
+      markets,
+    }
+  } catch {
+    return null
+  }
+}
+
+const ESPN_CORE_BASE =
+  'https://sports.core.api.espn.com/v2/sports/football/leagues/nfl'
+
+/**
+ * Fetch a team's depth chart as each player's best rank across the chart's
+ * formations. Empty when ESPN has not published one.
+ */
+export async function fetchTeamDepthChart(
+  teamId: string,
+  season: number
+): Promise<Record<string, number>> {
+  const url = `${ESPN_CORE_BASE}/seasons/${encodeURIComponent(season)}/teams/${encodeURIComponent(teamId)}/depthcharts`
+  try {
+    const resp = await fetch(url, {
+      headers: {
+        'User-Agent':
+          'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
+      },
+    })
+    if (!resp.ok) {
+      console.error('ESPN fetchTeamDepthChart failed', {
+        teamId,
+        season,
+        status: resp.status,
+      })
+      return {}
+    }
+    const data = (await resp.json()) as any
+    const charts: any[] = Array.isArray(data.items) ? data.items : []
+    const ranks: Record<string, number> = {}
+    for (const chart of charts) {
+      for (const position of Object.values<any>(chart?.positions ?? {})) {
+        const athletes: any[] = Array.isArray(position?.athletes)
+          ? position.athletes
+          : []
+        for (const entry of athletes) {
+          // Athletes are $ref links: .../athletes/{id}?lang=en
+          const playerId = String(entry?.athlete?.$ref ?? '').match(
+            /athletes\/(\d+)/
+          )?.[1]
+          const rank = Number(entry?.rank ?? entry?.slot)
+          if (playerId && rank > 0) {
+            ranks[playerId] = Math.min(ranks[playerId] ?? rank, rank)
+          }
+        }
+      }
+    }
+    return ranks
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Fetch a team's roster with positions, jerseys and roster status, plus
+ * depth chart ranks when ESPN has a chart for the season
+ */
+export async function fetchTeamRoster(
+  teamId: string,
+  season: number
+): Promise<RosterPlayer[]> {
+  const url = `${ESPN_BASE}/teams/${encodeURIComponent(teamId)}/roster`
+  try {
+    const [resp, depthRanks] = await Promise.all([
+      fetch(url, {
+        headers: {
+          'User-Agent':
+            'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
+        },
+      }),
+      fetchTeamDepthChart(teamId, season),
+    ])
     if (!resp.ok) {
       console.error('ESPN fetchTeamRoster failed', {
         teamId,
@@ -284,7 +750,18 @@ export async function fetchTeamRoster(teamId: string): Promise<RosterPlayer[]> {
         if (!playerId || !name) {
           return null
         }
-        return { playerId, name }
+        const position: string | undefined = athlete?.position?.abbreviation
+        const jersey: string | undefined = athlete?.jersey
+        const status: string | undefined = athlete?.status?.name
+        const depth: number | undefined = depthRanks[playerId]
+        return {
+          playerId,
+          name,
+          ...(position && { position }),
+          ...(jersey && { jersey }),
+          ...(status && { status }),
+          ...(depth && { depth }),
+        }
       })
       .filter(Boolean) as RosterPlayer[]
     return players
@@ -292,3 +769,345 @@ export async function fetchTeamRoster(teamId: string): Promise<RosterPlayer[]> {
     return []
   }
 }
+
+export type PlayerGameLogEntry = {
+  gameId: string
+  date: string
+  opponent: string
+  // Keyed by ESPN stat name, e.g. passingYards, receptions
+  stats: Record<string, number>
+}
+
+const ESPN_ATHLETES_BASE =
+  'https://site.web.api.espn.com/apis/common/v3/sports/football/nfl/athletes'
+
+/**
+ * Fetch a player's game-by-game stats for one season (regular season and
+ * postseason), most recent game first
+ */
+export async function fetchPlayerGameLog(
+  playerId: string,
+  season: number
+): Promise<PlayerGameLogEntry[]> {
+  const url = `${ESPN_ATHLETES_BASE}/${encodeURIComponent(playerId)}/gamelog?season=${encodeURIComponent(season)}`
+  try {
+    const resp = await fetch(url, {
+      headers: {
+        'User-Agent':
+          'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
+      },
+    })
+    if (!resp.ok) {
+      console.error('ESPN fetchPlayerGameLog failed', {
+        playerId,
+        season,
+        status: resp.status,
+      })
+      return []
+    }
+    const data = (await resp.json()) as any
+    const names: string[] = Array.isArray(data.names) ? data.names : []
+    const events: Record<string, any> = data.events ?? {}
+    const seasonTypes: any[] = Array.isArray(data.seasonTypes)
+      ? data.seasonTypes
+      : []
+    const entries: PlayerGameLogEntry[] = seasonTypes
+      .flatMap(seasonType =>
+        Array.isArray(seasonType?.categories) ? seasonType.categories : []
+      )
+      .flatMap(category =>
+        Array.isArray(category?.events) ? category.events : []
+      )
+      .filter(entry => entry?.eventId && Array.isArray(entry.stats))
+      .map(entry => {
+        const event = events[entry.eventId] ?? {}
+        const stats: Record<string, number> = {}
+        names.forEach((name, i) => {
+          stats[name] = toNumber(String(entry.stats[i] ?? '').replace(/,/g, ''))
+        })
+        return {
+          gameId: String(entry.eventId),
+          date: event.gameDate ?? '',
+          opponent: event.opponent?.abbreviation ?? '',
+          stats,
+        }
+      })
+    return entries.sort((a, b) => b.date.localeCompare(a.date))
+  } catch {
+    return []
+  }
+}
+
+// Statuses that matter for betting; anything lighter is ignored
+export type InjuryStatus = 'out' | 'doubtful' | 'questionable'
+
+export type PlayerInjury = {
+  playerId: string
+  name: string
+  position?: string
+  status: InjuryStatus
+  // ESPN's status label, e.g. "Injured Reserve" for an `out` player
+  statusLabel: string
+  injury?: string
+  returnDate?: string
+}
+
+function toInjuryStatus(label: string): InjuryStatus | null {
+  const n = label.toLowerCase()
+  if (n.includes('doubtful')) {
+    return 'doubtful'
+  }
+  if (n.includes('questionable')) {
+    return 'questionable'
+  }
+  if (
+    n.includes('out') ||
+    n.includes('injured reserve') ||
+    n.includes('physically unable') ||
+    n.includes('suspension')
+  ) {
+    return 'out'
+  }
+  return null
+}
+
+/**
+ * Fetch a team's injury report (Out, Doubtful and Questionable players) from
+ * ESPN's league-wide injuries feed
+ */
+export async function fetchTeamInjuries(
+  teamId: string
+): Promise<PlayerInjury[]> {
+  const url = `${ESPN_BASE}/injuries`
+  try {
+    const resp = await fetch(url, {
+      headers: {
+        'User-Agent':
+          'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
+      },
+    })
+    if (!resp.ok) {
+      console.error('ESPN fetchTeamInjuries failed', {
+        teamId,
+        status: resp.status,
+      })
+      return []
+    }
+    const data = (await resp.json()) as any
+    const teams: any[] = Array.isArray(data.injuries) ? data.injuries : []
+    const team = teams.find(t => String(t?.id ?? t?.team?.id) === teamId)
+    const entries: any[] = Array.isArray(team?.injuries) ? team.injuries : []
+    return entries
+      .map(entry => {
+        const athlete = entry?.athlete ?? {}
+        const statusLabel = String(
+          entry?.status ?? entry?.type?.description ?? ''
+        )
+        const status = toInjuryStatus(statusLabel)
+        const playerId = String(athlete.id ?? '')
+        const name = athlete.displayName || athlete.fullName || ''
+        if (!status || !playerId || !name) {
+          return null
+        }
+        // Optional fields are omitted rather than undefined (Firestore cache)
+        const injury: PlayerInjury = {
+          playerId,
+          name,
+          ...(athlete.position?.abbreviation && {
+            position: athlete.position.abbreviation,
+          }),
+          status,
+          statusLabel,
+          ...(entry?.details?.type && { injury: entry.details.type }),
+          ...(entry?.details?.returnDate && {
+            returnDate: entry.details.returnDate,
+          }),
+        }
+        return injury
+      })
+      .filter(Boolean) as PlayerInjury[]
+  } catch {
+    return []
+  }
+}
+
+export type BoxScoreTeam = {
+  teamId: string
+  name: string
+  abbrev: string
+  score: number
+  periodScores: number[]
+  stats: Record<string, number>
+}
+
+export type BoxScorePlayer = {
+  playerId: string
+  name: string
+  teamId: string
+  // Keyed by ESPN stat category, then stat key (e.g. stats.passing.passingYards)
+  stats: Record<string, Record<string, number>>
+}
+
+export type BoxScoreScoringPlay = {
+  teamId: string
+  type: string
+  text: string
+  period: number
+}
+
+export type GameBoxScore = {
+  gameId: string
+  status: GameItem['status']
+  home: BoxScoreTeam
+  away: BoxScoreTeam
+  players: BoxScorePlayer[]
+  scoringPlays: BoxScoreScoringPlay[]
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''))
+  return Number.isFinite(n) ? n : 0
+}
+
+/**
+ * ESPN packs compound stats into one column ("completions/passingAttempts" →
+ * "23/34"); split them so every key maps to a single number
+ */
+function extractStatColumns(
+  keys: string[],
+  values: string[]
+): Record<string, number> {
+  const stats: Record<string, number> = {}
+  keys.forEach((key, i) => {
+    const value = String(values[i] ?? '')
+    // Only split on the separator the key uses; single stats can be negative
+    const separator = key.includes('/') ? '/' : key.includes('-') ? '-' : null
+    if (!separator) {
+      stats[key] = toNumber(value)
+      return
+    }
+    const subValues = value.split(separator)
+    key.split(separator).forEach((subKey, j) => {
+      stats[subKey] = toNumber(subValues[j])
+    })
+  })
+  return stats
+}
+
+function extractBoxScorePlayers(groups: any[]): BoxScorePlayer[] {
+  const byId = new Map<string, BoxScorePlayer>()
+  for (const group of groups) {
+    const teamId = String(group?.team?.id ?? '')
+    const categories: any[] = Array.isArray(group?.statistics)
+      ? group.statistics
+      : []
+    for (const category of categories) {
+      const keys: string[] = Array.isArray(category?.keys) ? category.keys : []
+      const athletes: any[] = Array.isArray(category?.athletes)
+        ? category.athletes
+        : []
+      for (const entry of athletes) {
+        const playerId = String(entry?.athlete?.id ?? '')
+        if (!playerId) {
+          continue
+        }
+        const player: BoxScorePlayer = byId.get(playerId) ?? {
+          playerId,
+          name: entry.athlete.displayName || '',
+          teamId,
+          stats: {},
+        }
+        player.stats[category.name] = extractStatColumns(
+          keys,
+          Array.isArray(entry.stats) ? entry.stats : []
+        )
+        byId.set(playerId, player)
+      }
+    }
+  }
+  return Array.from(byId.values())
+}
+
+/**
+ * Fetch a game's final box score (scores by period, player and team stats,
+ * scoring plays) from the ESPN summary endpoint
+ */
+export async function fetchGameBoxScore(
+  gameId: string
+): Promise<GameBoxScore | null> {
+  const url = `${ESPN_BASE}/summary?event=${encodeURIComponent(gameId)}`
+  try {
+    const resp = await fetch(url, {
+      headers: {
+        'User-Agent':
+          'nfl-parlay-builder/1.0 (+https://nfl-parlay-builder.web.app)',
+      },
+    })
+    if (!resp.ok) {
+      console.error('ESPN fetchGameBoxScore failed', {
+        gameId,
+        status: resp.status,
+      })
+      return null
+    }
+    const data = (await resp.json()) as any
+    const comp = data.header?.competitions?.[0]
+    const competitors: any[] = Array.isArray(comp?.competitors)
+      ? comp.competitors
+      : []
+    const teamStatGroups: any[] = Array.isArray(data.boxscore?.teams)
+      ? data.boxscore.teams
+      : []
+
+    const toTeam = (homeAway: 'home' | 'away'): BoxScoreTeam | null => {
+      const c = competitors.find(x => x.homeAway === homeAway)
+      if (!c?.team?.id) {
+        return null
+      }
+      const teamId = String(c.team.id)
+      const statGroup = teamStatGroups.find(t => String(t?.team?.id) === teamId)
+      const stats: Record<string, number> = {}
+      for (const stat of statGroup?.statistics ?? []) {
+        stats[stat.name] = toNumber(stat.value ?? stat.displayValue)
+      }
+      return {
+        teamId,
+        name: c.team.displayName || c.team.name || '',
+        abbrev: c.team.abbreviation || '',
+        score: toNumber(c.score),
+        periodScores: (Array.isArray(c.linescores) ? c.linescores : []).map(
+          (l: any) => toNumber(l.displayValue ?? l.value)
+        ),
+        stats,
+      }
+    }
+
+    const home = toTeam('home')
+    const away = toTeam('away')
+    if (!home || !away) {
+      return null
+    }
+
+    const scoringPlays: BoxScoreScoringPlay[] = (
+      Array.isArray(data.scoringPlays) ? data.scoringPlays : []
+    ).map((play: any) => ({
+      teamId: String(play?.team?.id ?? ''),
+      type: play?.type?.text || '',
+      text: play?.text || '',
+      period: toNumber(play?.period?.number),
+    }))
+
+    return {
+      gameId,
+      status: mapStatus(comp?.status),
+      home,
+      away,
+      players: extractBoxScorePlayers(
+        Array.isArray(data.boxscore?.players) ? data.boxscore.players : []
+      ),
+      scoringPlays,
+    }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,62 @@
+import { readFile } from 'fs/promises'
+import * as path from 'path'
+import { fetchTeamInjuries, type PlayerInjury } from './espn'
+
+export interface InjuryProvider {
+  readonly name: string
+  getTeamInjuries(teamId: string): Promise<PlayerInjury[]>
+}
+
+export const espnInjuryProvider: InjuryProvider = {
+  name: 'espn',
+  getTeamInjuries: fetchTeamInjuries,
+}
+
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/injuries')
+
+/**
+ * Offline provider that reads `<teamId>.json` files (arrays of PlayerInjury)
+ * from a fixtures directory. Teams without a file have no injuries.
+ */
+export function createFixtureInjuryProvider(
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): InjuryProvider {
+  return {
+    name: 'fixture',
+    async getTeamInjuries(teamId: string): Promise<PlayerInjury[]> {
+      const file = path.join(fixturesDir, `${path.basename(teamId)}.json`)
+      try {
+        return JSON.parse(await readFile(file, 'utf8')) as PlayerInjury[]
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error('Injury fixture could not be read', {
+            file,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+        return []
+      }
+    },
+  }
+}
+
+/**
+ * Select the injury provider from INJURY_PROVIDER ('espn' | 'fixture' |
+ * 'none'). Defaults to ESPN everywhere, emulator included.
+ */
+export function getInjuryProvider(): InjuryProvider | null {
+  const configured = process.env.INJURY_PROVIDER ?? 'espn'
+  switch (configured) {
+    case 'espn':
+      return espnInjuryProvider
+    case 'fixture':
+      return createFixtureInjuryProvider(process.env.INJURY_FIXTURES_DIR)
+    case 'none':
+      return null
+    default:
+      console.error('Unknown INJURY_PROVIDER, injury reports disabled', {
+        configured,
+      })
+      return null
+  }
+}
@@ -0,0 +1,91 @@
+import { readFile } from 'fs/promises'
+import * as path from 'path'
+import { fetchGameOdds, type GameItem } from './espn'
+
+/**
+ * One priced market from a sportsbook, described with the same structured
+ * fields as a parlay leg (market/period/subject/side/line)
+ */
+export type OddsMarket = {
+  market: string
+  period: 'game' | 'first_half' | 'second_half' | 'first_quarter'
+  subject?: { type: 'team' | 'player' | 'game'; id?: string; name: string }
+  side?: 'over' | 'under' | 'yes'
+  line?: number
+  price: number // American odds
+}
+
+export type GameOdds = {
+  gameId: string
+  bookmaker: string
+  updatedAt: string
+  markets: OddsMarket[]
+}
+
+export interface OddsProvider {
+  readonly name: string
+  /** Resolves to null when the provider has no lines for the game */
+  getGameOdds(game: GameItem): Promise<GameOdds | null>
+}
+
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/odds')
+
+/**
+ * Offline provider that reads `<gameId>.json` files (shaped like GameOdds)
+ * from a fixtures directory. Used for local development and the emulator.
+ */
+export function createFixtureOddsProvider(
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): OddsProvider {
+  return {
+    name: 'fixture',
+    async getGameOdds(game: GameItem): Promise<GameOdds | null> {
+      const file = path.join(fixturesDir, `${path.basename(game.gameId)}.json`)
+      try {
+        const data = JSON.parse(await readFile(file, 'utf8')) as GameOdds
+        return { ...data, gameId: game.gameId }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error('Odds fixture could not be read', {
+            file,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+        return null
+      }
+    },
+  }
+}
+
+/**
+ * Lines from ESPN's event summary: moneyline, spread and total only
+ */
+export function createESPNOddsProvider(): OddsProvider {
+  return {
+    name: 'espn',
+    getGameOdds: fetchGameOdds,
+  }
+}
+
+/**
+ * Select the odds provider from ODDS_PROVIDER ('fixture' | 'espn' | 'none').
+ * The emulator defaults to fixtures; deployed functions default to ESPN.
+ */
+export function getOddsProvider(): OddsProvider | null {
+  const configured =
+    process.env.ODDS_PROVIDER ??
+    (process.env.FUNCTIONS_EMULATOR === 'true' ? 'fixture' : 'espn')
+  switch (configured) {
+    case 'fixture':
+      return createFixtureOddsProvider(process.env.ODDS_FIXTURES_DIR)
+    case 'espn':
+      return createESPNOddsProvider()
+    case 'none':
+      return null
+    default:
+      console.error('Unknown ODDS_PROVIDER, odds validation disabled', {
+        configured,
+      })
+      return null
+  }
+}
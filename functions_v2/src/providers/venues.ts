@@ -0,0 +1,113 @@
+export type VenueRoof = 'open' | 'dome' | 'retractable'
+
+export type VenueInfo = {
+  roof: VenueRoof
+  latitude: number
+  longitude: number
+}
+
+// NFL stadiums keyed by ESPN's venue name. Former names stay listed so older
+// seasons still resolve.
+const VENUES: Record<string, VenueInfo> = {
+  'Acrisure Stadium': { roof: 'open', latitude: 40.4468, longitude: -80.0158 },
+  'Allegiant Stadium': {
+    roof: 'dome',
+    latitude: 36.0909,
+    longitude: -115.1833,
+  },
+  'AT&T Stadium': {
+    roof: 'retractable',
+    latitude: 32.7473,
+    longitude: -97.0945,
+  },
+  'Bank of America Stadium': {
+    roof: 'open',
+    latitude: 35.2258,
+    longitude: -80.8528,
+  },
+  'Caesars Superdome': { roof: 'dome', latitude: 29.9511, longitude: -90.0812 },
+  'Cleveland Browns Stadium': {
+    roof: 'open',
+    latitude: 41.5061,
+    longitude: -81.6995,
+  },
+  'Empower Field at Mile High': {
+    roof: 'open',
+    latitude: 39.7439,
+    longitude: -105.0201,
+  },
+  'EverBank Stadium': { roof: 'open', latitude: 30.3239, longitude: -81.6373 },
+  FedExField: { roof: 'open', latitude: 38.9078, longitude: -76.8645 },
+  'Ford Field': { roof: 'dome', latitude: 42.34, longitude: -83.0456 },
+  'GEHA Field at Arrowhead Stadium': {
+    roof: 'open',
+    latitude: 39.0489,
+    longitude: -94.4839,
+  },
+  'Gillette Stadium': { roof: 'open', latitude: 42.0909, longitude: -71.2643 },
+  'Hard Rock Stadium': { roof: 'open', latitude: 25.958, longitude: -80.2389 },
+  'Highmark Stadium': { roof: 'open', latitude: 42.7738, longitude: -78.787 },
+  'Huntington Bank Field': {
+    roof: 'open',
+    latitude: 41.5061,
+    longitude: -81.6995,
+  },
+  'Lambeau Field': { roof: 'open', latitude: 44.5013, longitude: -88.0622 },
+  "Levi's Stadium": { roof: 'open', latitude: 37.403, longitude: -121.97 },
+  'Lincoln Financial Field': {
+    roof: 'open',
+    latitude: 39.9008,
+    longitude: -75.1675,
+  },
+  'Lucas Oil Stadium': {
+    roof: 'retractable',
+    latitude: 39.7601,
+    longitude: -86.1639,
+  },
+  'Lumen Field': { roof: 'open', latitude: 47.5952, longitude: -122.3316 },
+  'M&T Bank Stadium': { roof: 'open', latitude: 39.278, longitude: -76.6227 },
+  'Mercedes-Benz Stadium': {
+    roof: 'retractable',
+    latitude: 33.7554,
+    longitude: -84.4008,
+  },
+  'MetLife Stadium': { roof: 'open', latitude: 40.8135, longitude: -74.0745 },
+  'Nissan Stadium': { roof: 'open', latitude: 36.1665, longitude: -86.7713 },
+  'Northwest Stadium': {
+    roof: 'open',
+    latitude: 38.9078,
+    longitude: -76.8645,
+  },
+  'NRG Stadium': {
+    roof: 'retractable',
+    latitude: 29.6847,
+    longitude: -95.4107,
+  },
+  'Paycor Stadium': { roof: 'open', latitude: 39.0955, longitude: -84.5161 },
+  'Raymond James Stadium': {
+    roof: 'open',
+    latitude: 27.9759,
+    longitude: -82.5033,
+  },
+  'SoFi Stadium': { roof: 'dome', latitude: 33.9535, longitude: -118.3392 },
+  'Soldier Field': { roof: 'open', latitude: 41.8623, longitude: -87.6167 },
+  'State Farm Stadium': {
+    roof: 'retractable',
+    latitude: 33.5276,
+    longitude: -112.2626,
+  },
+  'TIAA Bank Field': { roof: 'open', latitude: 30.3239, longitude: -81.6373 },
+  'U.S. Bank Stadium': {
+    roof: 'dome',
+    latitude: 44.9736,
+    longitude: -93.2575,
+  },
+}
+
+/**
+ * Roof type and coordinates for a venue; null for venues not in the table
+ * (international and neutral-site games)
+ */
+export function getVenueInfo(venueName: string): VenueInfo | null {
+  return VENUES[venueName] ?? null
+}
@@ -0,0 +1,146 @@
+import { readFile } from 'fs/promises'
+import * as path from 'path'
+import type { GameWeather } from './espn'
+import type { VenueInfo } from './venues'
+
+export type WeatherVenue = VenueInfo & { name: string }
+
+export interface WeatherProvider {
+  readonly name: string
+  /** Resolves to null when there is no forecast for the kickoff hour */
+  getForecast(venue: WeatherVenue, kickoff: string): Promise<GameWeather | null>
+}
+
+const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast'
+
+// WMO weather interpretation codes by upper bound, grouped the way a bettor
+// cares about them; anything above 86 is a thunderstorm
+const WEATHER_CODE_GROUPS: Array<[number, string]> = [
+  [0, 'Clear'],
+  [3, 'Partly Cloudy'],
+  [48, 'Fog'],
+  [57, 'Drizzle'],
+  [67, 'Rain'],
+  [77, 'Snow'],
+  [82, 'Rain Showers'],
+  [86, 'Snow Showers'],
+]
+
+function describeWeatherCode(code: number): string {
+  return (
+    WEATHER_CODE_GROUPS.find(([maxCode]) => code <= maxCode)?.[1] ??
+    'Thunderstorms'
+  )
+}
+
+/**
+ * Hourly forecasts from Open-Meteo (no API key). Covers roughly the next 16
+ * days; later kickoffs have no forecast yet.
+ */
+export const openMeteoWeatherProvider: WeatherProvider = {
+  name: 'open-meteo',
+  async getForecast(venue, kickoff) {
+    const kickoffDate = new Date(kickoff)
+    const day = kickoffDate.toISOString().slice(0, 10)
+    const params = new URLSearchParams({
+      latitude: String(venue.latitude),
+      longitude: String(venue.longitude),
+      hourly:
+        'temperature_2m,wind_speed_10m,precipitation_probability,weather_code',
+      temperature_unit: 'fahrenheit',
+      wind_speed_unit: 'mph',
+      timezone: 'UTC',
+      start_date: day,
+      end_date: day,
+    })
+    const resp = await fetch(`${OPEN_METEO_URL}?${params}`)
+    if (!resp.ok) {
+      // Dates outside the forecast window are rejected with a 400
+      if (resp.status !== 400) {
+        console.error('Open-Meteo forecast failed', {
+          venue: venue.name,
+          kickoff,
+          status: resp.status,
+        })
+      }
+      return null
+    }
+    const data = (await resp.json()) as any
+    const hourly = data.hourly ?? {}
+    const times: string[] = Array.isArray(hourly.time) ? hourly.time : []
+    // Hourly times come back as "YYYY-MM-DDTHH:00" in UTC
+    const hour = kickoffDate.toISOString().slice(0, 13)
+    const i = times.findIndex(t => t.startsWith(hour))
+    if (i === -1 || hourly.temperature_2m?.[i] == null) {
+      return null
+    }
+    const precipitation = hourly.precipitation_probability?.[i]
+    return {
+      condition: describeWeatherCode(Number(hourly.weather_code?.[i] ?? 0)),
+      temperatureF: Math.round(Number(hourly.temperature_2m[i])),
+      windMph: Math.round(Number(hourly.wind_speed_10m?.[i] ?? 0)),
+      ...(precipitation != null && {
+        precipitationChance: Number(precipitation),
+      }),
+    }
+  },
+}
+
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/weather')
+
+function venueSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+/**
+ * Offline provider with canned forecasts: `<venue-slug>.json` files (shaped
+ * like GameWeather) in a fixtures directory, used for any kickoff time
+ */
+export function createFixtureWeatherProvider(
+  fixturesDir: string = DEFAULT_FIXTURES_DIR
+): WeatherProvider {
+  return {
+    name: 'fixture',
+    async getForecast(venue) {
+      const file = path.join(fixturesDir, `${venueSlug(venue.name)}.json`)
+      try {
+        return JSON.parse(await readFile(file, 'utf8')) as GameWeather
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error('Weather fixture could not be read', {
+            file,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+        return null
+      }
+    },
+  }
+}
+
+/**
+ * Select the weather provider from WEATHER_PROVIDER ('open-meteo' | 'fixture'
+ * | 'none'). The emulator defaults to fixtures; deployed functions default to
+ * Open-Meteo.
+ */
+export function getWeatherProvider(): WeatherProvider | null {
+  const configured =
+    process.env.WEATHER_PROVIDER ??
+    (process.env.FUNCTIONS_EMULATOR === 'true' ? 'fixture' : 'open-meteo')
+  switch (configured) {
+    case 'open-meteo':
+      return openMeteoWeatherProvider
+    case 'fixture':
+      return createFixtureWeatherProvider(process.env.WEATHER_FIXTURES_DIR)
+    case 'none':
+      return null
+    default:
+      console.error('Unknown WEATHER_PROVIDER, forecasts disabled', {
+        configured,
+      })
+      return null
+  }
+}
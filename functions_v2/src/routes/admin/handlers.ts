@@ -0,0 +1,368 @@
+import express from 'express'
+import * as admin from 'firebase-admin'
+import { hasRole, USER_ROLES, type AuthedRequest } from '../../middleware/auth'
+import {
+  getUserQuotaState,
+  resetUserQuota,
+  toQuotaInfo,
+} from '../../middleware/quota'
+import type { CurrentWeek } from '../../providers/espn'
+import {
+  prewarmWeekCache,
+  purgeWeekCache,
+  type WeekCacheResult,
+} from '../../service/cacheAdmin'
+import { resolveSeason } from '../../service/games'
+import { backfillParlayFilterFields } from '../../service/parlayBackfill'
+import { getRuntimeConfig } from '../../service/runtimeConfig'
+import { listRecentGenerations } from '../../storage/parlays'
+import {
+  getUserAccountFields,
+  setGenerationDisabled,
+} from '../../storage/users'
+import { errorResponse } from '../../utils/errors'
+import {
+  PARLAY_GENERATION_BUCKET,
+  PARLAY_GENERATION_RATE_LIMIT,
+} from '../protected/handlers'
+import {
+  BackfillParlaysRequestSchema,
+  CacheWeekRequestSchema,
+  RecentGenerationsQuerySchema,
+  SetGenerationAccessRequestSchema,
+  type AdminUserResponse,
+  type BackfillParlaysResponse,
+  type CacheWeekResponse,
+  type RecentGenerationsResponse,
+  type RuntimeConfigResponse,
+} from './schema'
+
+function weekCacheHandler(
+  action: 'purge' | 'prewarm',
+  run: (ref: CurrentWeek) => Promise<WeekCacheResult>
+) {
+  return async (req: express.Request, res: express.Response) => {
+    const { correlationId, user } = req as AuthedRequest
+    const parsed = CacheWeekRequestSchema.safeParse(req.body ?? {})
+    if (!parsed.success) {
+      const details = { fields: parsed.error.flatten().fieldErrors }
+      return errorResponse(
+        res,
+        400,
+        'validation_error',
+        'Invalid request body',
+        correlationId,
+        details
+      )
+    }
+    try {
+      const { week, seasonType } = parsed.data
+      const season = await resolveSeason(parsed.data.season)
+      const { keys } = await run({ week, seasonType, season })
+      console.info(`Cache ${action} complete`, {
+        correlationId,
+        uid: user?.uid,
+        week,
+        seasonType,
+        season,
+        keyCount: keys.length,
+      })
+      const response: CacheWeekResponse = { week, seasonType, season, keys }
+      res.json(response)
+    } catch (error) {
+      console.error(`Cache ${action} failed`, {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return errorResponse(
+        res,
+        500,
+        'internal_error',
+        `Failed to ${action} cache`,
+        correlationId
+      )
+    }
+  }
+}
+
+export const purgeWeekCacheHandler = weekCacheHandler('purge', purgeWeekCache)
+
+export const prewarmWeekCacheHandler = weekCacheHandler(
+  'prewarm',
+  prewarmWeekCache
+)
+
+function isUserNotFound(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'auth/user-not-found'
+}
+
+function userNotFound(
+  res: express.Response,
+  userRef: string,
+  correlationId: string
+) {
+  return errorResponse(
+    res,
+    404,
+    'user_not_found',
+    `User ${userRef} not found`,
+    correlationId
+  )
+}
+
+async function toAdminUserResponse(
+  record: admin.auth.UserRecord
+): Promise<AdminUserResponse> {
+  const claims = { uid: record.uid, ...record.customClaims }
+  const [account, { binding: _binding, ...quota }] = await Promise.all([
+    getUserAccountFields(record.uid),
+    getUserQuotaState(
+      claims,
+      PARLAY_GENERATION_BUCKET,
+      PARLAY_GENERATION_RATE_LIMIT
+    ),
+  ])
+  return {
+    uid: record.uid,
+    ...(record.email && { email: record.email }),
+    ...(record.displayName && { displayName: record.displayName }),
+    disabled: record.disabled,
+    createdAt: new Date(record.metadata.creationTime).toISOString(),
+    ...(record.metadata.lastSignInTime && {
+      lastSignInAt: new Date(record.metadata.lastSignInTime).toISOString(),
+    }),
+    roles: USER_ROLES.filter(role => hasRole(claims, role)),
+    tier: quota.tier,
+    generationDisabled: account.generationDisabled === true,
+    ...(account.generationDisabledReason && {
+      generationDisabledReason: account.generationDisabledReason,
+    }),
+    quotaInfo: toQuotaInfo(quota),
+  }
+}
+
+/**
+ * Look a user up by uid, or by email when the path segment contains an @
+ */
+export const getUserHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const { correlationId } = req as AuthedRequest
+  const { userRef } = req.params
+  try {
+    const record = userRef.includes('@')
+      ? await admin.auth().getUserByEmail(userRef)
+      : await admin.auth().getUser(userRef)
+    res.json(await toAdminUserResponse(record))
+  } catch (error) {
+    if (isUserNotFound(error)) {
+      return userNotFound(res, userRef, correlationId)
+    }
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to look up user',
+      correlationId
+    )
+  }
+}
+
+/**
+ * Clear a user's parlay generation counts, window and daily
+ */
+export const resetUserQuotaHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const { correlationId, user } = req as AuthedRequest
+  const { uid } = req.params
+  try {
+    const record = await admin.auth().getUser(uid)
+    await resetUserQuota(
+      uid,
+      PARLAY_GENERATION_BUCKET,
+      PARLAY_GENERATION_RATE_LIMIT
+    )
+    console.info('Generation quota reset', {
+      correlationId,
+      uid,
+      by: user?.uid,
+    })
+    res.json(await toAdminUserResponse(record))
+  } catch (error) {
+    if (isUserNotFound(error)) {
+      return userNotFound(res, uid, correlationId)
+    }
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to reset quota',
+      correlationId
+    )
+  }
+}
+
+/**
+ * Block or allow parlay generation for a user
+ */
+export const setGenerationAccessHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const { correlationId, user } = req as AuthedRequest
+  const { uid } = req.params
+  const parsed = SetGenerationAccessRequestSchema.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    const details = { fields: parsed.error.flatten().fieldErrors }
+    return errorResponse(
+      res,
+      400,
+      'validation_error',
+      'Invalid request body',
+      correlationId,
+      details
+    )
+  }
+  try {
+    const record = await admin.auth().getUser(uid)
+    const { disabled, reason } = parsed.data
+    await setGenerationDisabled(uid, disabled, reason)
+    console.info('Generation access changed', {
+      correlationId,
+      uid,
+      disabled,
+      by: user?.uid,
+    })
+    res.json(await toAdminUserResponse(record))
+  } catch (error) {
+    if (isUserNotFound(error)) {
+      return userNotFound(res, uid, correlationId)
+    }
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to update generation access',
+      correlationId
+    )
+  }
+}
+
+/**
+ * Latest generated parlays across all users, or one user's with ?uid=
+ */
+export const listRecentGenerationsHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const { correlationId } = req as AuthedRequest
+  const parsed = RecentGenerationsQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    const details = { fields: parsed.error.flatten().fieldErrors }
+    return errorResponse(
+      res,
+      400,
+      'validation_error',
+      'Invalid query parameters',
+      correlationId,
+      details
+    )
+  }
+  try {
+    const records = await listRecentGenerations({
+      userId: parsed.data.uid,
+      limit: parsed.data.limit,
+    })
+    const response: RecentGenerationsResponse = {
+      generations: records.map(record => ({
+        parlayId: record.parlay.parlayId,
+        userId: record.userId,
+        createdAt: new Date(record.createdAt).toISOString(),
+        week: record.week,
+        seasonType: record.seasonType,
+        riskLevel: record.riskLevel,
+        gameIds: record.parlay.gameIds ?? [record.parlay.gameId],
+        legCount: record.parlay.legs.length,
+        combinedOdds: record.parlay.combinedOdds,
+      })),
+    }
+    res.json(response)
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to list generations',
+      correlationId
+    )
+  }
+}
+
+/**
+ * Write history filter fields onto parlays saved before the history API, one
+ * page per call
+ */
+export const backfillParlaysHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const { correlationId, user } = req as AuthedRequest
+  const parsed = BackfillParlaysRequestSchema.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    const details = { fields: parsed.error.flatten().fieldErrors }
+    return errorResponse(
+      res,
+      400,
+      'validation_error',
+      'Invalid request body',
+      correlationId,
+      details
+    )
+  }
+  try {
+    const response: BackfillParlaysResponse = await backfillParlayFilterFields(
+      parsed.data
+    )
+    console.info('Parlay backfill page complete', {
+      correlationId,
+      uid: user?.uid,
+      scanned: response.scanned,
+      updated: response.updated,
+      unresolved: response.unresolved.length,
+    })
+    res.json(response)
+  } catch (error) {
+    console.error('Parlay backfill failed', {
+      correlationId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to backfill parlays',
+      correlationId
+    )
+  }
+}
+
+/**
+ * The runtime config this instance is using, defaults filled in. Unreadable
+ * config documents fall back to defaults, so there is no error path.
+ */
+export const getRuntimeConfigHandler = async (
+  _req: express.Request,
+  res: express.Response
+) => {
+  const [ai, rateLimits, cache, flags] = await Promise.all([
+    getRuntimeConfig('ai'),
+    getRuntimeConfig('rateLimits'),
+    getRuntimeConfig('cache'),
+    getRuntimeConfig('flags'),
+  ])
+  const response: RuntimeConfigResponse = { ai, rateLimits, cache, flags }
+  res.json(response)
+}
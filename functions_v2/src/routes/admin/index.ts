@@ -0,0 +1,34 @@
+import express from 'express'
+import { requireRole, verifyAuth } from '../../middleware/auth'
+import {
+  backfillParlaysHandler,
+  getRuntimeConfigHandler,
+  getUserHandler,
+  listRecentGenerationsHandler,
+  prewarmWeekCacheHandler,
+  purgeWeekCacheHandler,
+  resetUserQuotaHandler,
+  setGenerationAccessHandler,
+} from './handlers'
+
+export const adminRouter = express.Router()
+
+adminRouter.use(verifyAuth, requireRole('admin'))
+
+adminRouter.post('/cache/purge', purgeWeekCacheHandler)
+
+adminRouter.post('/cache/prewarm', prewarmWeekCacheHandler)
+
+adminRouter.get('/config', getRuntimeConfigHandler)
+
+// Users, by uid (or email for lookups)
+adminRouter.get('/users/:userRef', getUserHandler)
+
+adminRouter.post('/users/:uid/quota/reset', resetUserQuotaHandler)
+
+adminRouter.post('/users/:uid/generation', setGenerationAccessHandler)
+
+adminRouter.get('/generations', listRecentGenerationsHandler)
+
+// Writes filter fields onto parlays saved before the history API
+adminRouter.post('/parlays/backfill', backfillParlaysHandler)
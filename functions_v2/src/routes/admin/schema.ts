@@ -0,0 +1,87 @@
+import { z } from 'zod'
+import type { UserRole } from '../../middleware/auth'
+import type { QuotaInfo } from '../../middleware/quota'
+import {
+  FIRST_SEASON,
+  SEASON_TYPES,
+  type SeasonType,
+} from '../../providers/espn'
+import type { RiskLevel } from '../../service/ai'
+import type { RuntimeConfig } from '../../service/runtimeConfig'
+import type { UserTier } from '../../service/tiers'
+
+export const CacheWeekRequestSchema = z.object({
+  week: z.number().int().min(1).max(18),
+  seasonType: z.enum(SEASON_TYPES).default('regular'),
+  // Defaults to ESPN's current season
+  season: z.number().int().min(FIRST_SEASON).optional(),
+})
+
+export interface CacheWeekResponse {
+  week: number
+  seasonType: SeasonType
+  season: number
+  // Cache documents the request deleted or warmed
+  keys: string[]
+}
+
+export interface AdminUserResponse {
+  uid: string
+  email?: string
+  displayName?: string
+  // Firebase Auth account disabled (cannot sign in at all)
+  disabled: boolean
+  createdAt: string
+  lastSignInAt?: string
+  roles: UserRole[]
+  tier: UserTier
+  generationDisabled: boolean
+  generationDisabledReason?: string
+  quotaInfo: QuotaInfo
+}
+
+export const SetGenerationAccessRequestSchema = z.object({
+  disabled: z.boolean(),
+  // Shown to the user when they try to generate
+  reason: z.string().trim().min(1).max(200).optional(),
+})
+
+export const RecentGenerationsQuerySchema = z.object({
+  uid: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+})
+
+export interface RecentGenerationsResponse {
+  generations: Array<{
+    parlayId: string
+    userId: string
+    createdAt: string
+    week: number
+    seasonType: SeasonType
+    riskLevel: RiskLevel
+    gameIds: string[]
+    legCount: number
+    combinedOdds: number
+  }>
+}
+
+export const BackfillParlaysRequestSchema = z.object({
+  // nextCursor from the previous call; omit to start from the beginning
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(500).default(200),
+})
+
+export interface BackfillParlaysResponse {
+  scanned: number
+  updated: number
+  // Parlays whose week could not be found; only gameIds were written
+  unresolved: string[]
+  nextCursor: string | null
+}
+
+export interface RuntimeConfigResponse {
+  ai: RuntimeConfig<'ai'>
+  rateLimits: RuntimeConfig<'rateLimits'>
+  cache: RuntimeConfig<'cache'>
+  flags: RuntimeConfig<'flags'>
+}
@@ -1,2 +1,3 @@
+export { adminRouter } from './admin'
 export { protectedRouter } from './protected'
 export { publicRouter } from './public'
@@ -1,22 +1,189 @@
+import { randomBytes } from 'crypto'
 import express from 'express'
+import type { AuthedRequest } from '../../middleware/auth'
 import {
-  fetchCurrentWeek,
-  fetchGamesForWeek,
-  fetchTeamRoster,
+  getQuotaInfo,
+  getUserQuotaState,
+  toQuotaInfo,
+} from '../../middleware/quota'
+import {
+  getRateLimitInfo,
+  toRateLimitInfo,
+  type RateLimitOptions,
+} from '../../middleware/rateLimit'
+import {
+  describeWeek,
   type GameItem,
+  type RosterPlayer,
 } from '../../providers/espn'
-import { generateParlayWithAI } from '../../service/ai'
+import {
+  generateMultiGameParlayWithAI,
+  generateParlayWithAI,
+  getAIProvider,
+  getDefaultAIProviderName,
+  getStarters,
+  type AIProvider,
+  type AIProviderName,
+  type GameContext,
+} from '../../service/ai'
+import {
+  findGameById,
+  getTeamInjuries,
+  getTeamRoster,
+  withGameWeather,
+} from '../../service/games'
+import {
+  evaluateFeatureFlags,
+  isFeatureEnabled,
+} from '../../service/featureFlags'
+import { structureLeg, type StructuredLeg } from '../../service/markets'
+import { getGameOdds, reconcileLegOdds } from '../../service/odds'
+import { getGamePlayerStats } from '../../service/playerStats'
 import {
   getIdempotentResponse,
   saveIdempotentResponse,
 } from '../../storage/idempotency'
-import { getCached, setCached } from '../../utils/cache'
+import {
+  deleteUserParlay,
+  getUserParlay,
+  listUserParlays,
+  recordGeneratedParlay,
+  saveGeneratedParlay,
+  updateUserParlayNotes,
+  type StoredParlay,
+} from '../../storage/parlays'
 import { errorResponse } from '../../utils/errors'
+import { calculateCombinedOdds } from '../../utils/odds'
 import {
+  GenerateMultiParlayRequestSchema,
   GenerateParlayRequestSchema,
+  type GenerateMultiParlayResponse,
+  ListParlaysQuerySchema,
+  SaveParlayRequestSchema,
+  UpdateParlayNotesRequestSchema,
+  type FeatureFlagsResponse,
   type GenerateParlayResponse,
+  type ListParlaysResponse,
+  type ParlayMatchup,
+  type ParlayMatchupTeam,
+  type RateLimitStatusResponse,
+  type SavedParlayResponse,
 } from './schema'
 
+const IDEMPOTENCY_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+// Named after the original single-game route. Limits come from the caller's
+// tier (service/tiers).
+export const PARLAY_GENERATION_BUCKET = '/parlays/generate'
+// Exact counts for small, expensive limits
+export const PARLAY_GENERATION_RATE_LIMIT: RateLimitOptions = {
+  algorithm: 'sliding-log',
+}
+
+/** Canonical parlay id; also the document id once the parlay is saved */
+function newParlayId(): string {
+  return `pl_${randomBytes(10).toString('hex')}`
+}
+
+function getIdempotencyKey(req: express.Request): string | null {
+  const idemKeyHeader = req.header('Idempotency-Key')
+  return typeof idemKeyHeader === 'string' && idemKeyHeader.trim().length > 0
+    ? idemKeyHeader
+    : null
+}
+
+/**
+ * Trim a roster to the starters the prompt showed, plus any player a leg
+ * references so every player subject id can be found in rosterDataUsed
+ */
+function buildRosterDataUsed(
+  roster: RosterPlayer[],
+  legs: StructuredLeg[]
+): RosterPlayer[] {
+  const starters = getStarters(roster)
+  const referenced = roster.filter(
+    player =>
+      !starters.includes(player) &&
+      legs.some(
+        leg =>
+          leg.subject?.type === 'player' && leg.subject.id === player.playerId
+      )
+  )
+  return [...starters, ...referenced]
+}
+
+/**
+ * Resolve the provider for a request. Only users with the provider_override
+ * flag (dev/test users by default) may override the default; returns null
+ * when anyone else asks for a different provider.
+ */
+async function selectProvider(
+  req: express.Request,
+  requested: AIProviderName | undefined
+): Promise<AIProvider | null> {
+  const defaultName = getDefaultAIProviderName()
+  if (!requested || requested === defaultName) {
+    return getAIProvider(defaultName)
+  }
+  const { user } = req as AuthedRequest
+  return user && (await isFeatureEnabled('provider_override', user))
+    ? getAIProvider(requested)
+    : null
+}
+
+function sendProviderError(
+  res: express.Response,
+  provider: AIProvider | null,
+  correlationId: string
+) {
+  if (!provider) {
+    return errorResponse(
+      res,
+      403,
+      'forbidden',
+      'AI provider selection is not enabled for this account',
+      correlationId
+    )
+  }
+  return errorResponse(
+    res,
+    503,
+    'ai_service_unavailable',
+    'AI service is currently unavailable. Please try again later.',
+    correlationId
+  )
+}
+
+function toMatchupTeam(team: GameItem['home']): ParlayMatchupTeam {
+  return {
+    teamId: team.teamId,
+    name: team.name,
+    abbrev: team.abbrev,
+    ...(team.logo && { logo: team.logo }),
+    ...(team.color && { color: team.color }),
+    ...(team.alternateColor && { alternateColor: team.alternateColor }),
+  }
+}
+
+function toMatchup(
+  game: GameItem,
+  injuries: GameContext['injuries'],
+  prediction?: ParlayMatchup['prediction']
+): ParlayMatchup {
+  return {
+    gameId: game.gameId,
+    week: game.week,
+    seasonType: game.seasonType,
+    startTime: game.startTime,
+    home: toMatchupTeam(game.home),
+    away: toMatchupTeam(game.away),
+    venue: game.venue,
+    ...(game.weather && { weather: game.weather }),
+    injuries,
+    prediction,
+  }
+}
+
 export const generateParlayHandler = async (
   req: express.Request,
   res: express.Response
@@ -24,20 +191,20 @@ export const generateParlayHandler = async (
   const correlationId = (req as any).correlationId as string
   try {
     const user = (req as any).user as { uid: string } | undefined
-    const idemKeyHeader = req.header('Idempotency-Key')
-    if (
-      user &&
-      typeof idemKeyHeader === 'string' &&
-      idemKeyHeader.trim().length > 0
-    ) {
+    const idemKey = getIdempotencyKey(req)
+    if (user && idemKey) {
       const existing = await getIdempotentResponse<GenerateParlayResponse>(
         user.uid,
-        idemKeyHeader,
-        24 * 60 * 60 * 1000
+        idemKey,
+        IDEMPOTENCY_MAX_AGE_MS
       )
       if (existing) {
         res.setHeader('Idempotent-Replay', 'true')
-        return res.json(existing)
+        return res.json({
+          ...existing,
+          rateLimitInfo: getRateLimitInfo(res),
+          quotaInfo: getQuotaInfo(res),
+        })
       }
     }
 
@@ -53,156 +220,325 @@ export const generateParlayHandler = async (
         details
       )
     }
-    const { gameId, numLegs, week } = parsed.data
-    if (numLegs !== 3) {
+    const { gameId, numLegs, week, seasonType, season } = parsed.data
+
+    const provider = await selectProvider(req, parsed.data.provider)
+    if (!provider?.isAvailable()) {
+      return sendProviderError(res, provider, correlationId)
+    }
+
+    // Fetch real game data from ESPN with caching: the provided week's
+    // scoreboard if given, otherwise the cached gameId index or event summary
+    const found = await findGameById(gameId, week, seasonType, season)
+
+    if (!found) {
       return errorResponse(
         res,
-        400,
-        'validation_error',
-        'numLegs must be exactly 3',
+        404,
+        'game_not_found',
+        `Game with ID ${gameId} not found`,
         correlationId
       )
     }
+    const game = await withGameWeather(found)
+
+    // Fetch rosters, injury reports and player stats (cached per team and
+    // player) and sportsbook lines
+    const [
+      homeRoster,
+      awayRoster,
+      homeInjuries,
+      awayInjuries,
+      playerStats,
+      gameOdds,
+    ] = await Promise.all([
+      getTeamRoster(game.home.teamId, game.season),
+      getTeamRoster(game.away.teamId, game.season),
+      getTeamInjuries(game.home.teamId),
+      getTeamInjuries(game.away.teamId),
+      getGamePlayerStats(game),
+      getGameOdds(game),
+    ])
+    const injuries = { home: homeInjuries, away: awayInjuries }
+
+    const startedAt = Date.now()
+    const result = await generateParlayWithAI({
+      provider,
+      numLegs,
+      riskLevel: parsed.data.riskLevel,
+      betTypes: parsed.data.betTypes,
+      gameData: game,
+      rosters: { home: homeRoster, away: awayRoster },
+      injuries,
+      playerStats,
+      seed: parsed.data.seed,
+    })
+    const latencyMs = Date.now() - startedAt
+
+    if (!result) {
+      return sendProviderError(res, provider, correlationId)
+    }
+    const ai = result.data
 
-    // Fetch real game data from ESPN with caching
-    // Use provided week if available; otherwise use current week
-    let targetWeek = week ?? (await fetchCurrentWeek())
+    // Swap AI-invented odds for book prices where the market is offered
+    const legs = reconcileLegOdds(
+      ai.legs.map(leg => ({
+        ...structureLeg(leg, {
+          gameId,
+          home: game.home,
+          away: game.away,
+          players: [...homeRoster, ...awayRoster],
+        }),
+        gameId,
+      })),
+      gameOdds
+    )
 
-    // Try to find the game in the current week first
-    const cacheKey = `games_week_${targetWeek}`
-    let games = await getCached<GameItem[]>(cacheKey, 10 * 60 * 1000) // 10 minute TTL
-    if (!games) {
-      games = await fetchGamesForWeek(targetWeek)
-      await setCached(cacheKey, games)
+    const response: GenerateParlayResponse = {
+      parlayId: newParlayId(),
+      gameId,
+      gameContext: `${game.away.name} @ ${game.home.name} - ${describeWeek(game)}`,
+      legs,
+      combinedOdds: calculateCombinedOdds(legs.map(leg => leg.odds)),
+      parlayConfidence: Math.min(...ai.legs.map(l => l.confidence)),
+      gameSummary: ai.analysisSummary,
+      rosterDataUsed: {
+        home: buildRosterDataUsed(homeRoster, legs),
+        away: buildRosterDataUsed(awayRoster, legs),
+      },
+      matchups: [toMatchup(game, injuries, ai.analysisSummary.gamePrediction)],
+      metadata: {
+        provider: provider.name,
+        model: provider.model,
+        latencyMs,
+        attemptCount: result.attemptCount,
+        fallbackUsed: result.fallbackUsed,
+        seed: parsed.data.seed,
+      },
+      rateLimitInfo: getRateLimitInfo(res),
+      quotaInfo: getQuotaInfo(res),
     }
 
-    // If game not found in current week, try other recent weeks
-    if (!games.find(g => g.gameId === gameId)) {
-      // Try neighbor weeks first, then scan remaining
-      const neighborWeeks = [targetWeek - 1, targetWeek + 1].filter(
-        w => w >= 1 && w <= 18
+    if (user) {
+      const {
+        metadata: _metadata,
+        rateLimitInfo: _info,
+        quotaInfo: _quota,
+        ...parlay
+      } = response
+      await recordGeneratedParlay(user.uid, parlay, {
+        week: game.week,
+        seasonType: game.seasonType,
+        riskLevel: parsed.data.riskLevel,
+      })
+    }
+    if (user && idemKey) {
+      await saveIdempotentResponse<GenerateParlayResponse>(
+        user.uid,
+        idemKey,
+        response
       )
-      const remainingWeeks = Array.from({ length: 18 }, (_, i) => i + 1).filter(
-        w => w !== targetWeek && !neighborWeeks.includes(w)
+    }
+    res.json(response)
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to generate parlay',
+      correlationId
+    )
+  }
+}
+
+export const generateMultiGameParlayHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as any).user as { uid: string } | undefined
+    const idemKey = getIdempotencyKey(req)
+    if (user && idemKey) {
+      const existing = await getIdempotentResponse<GenerateMultiParlayResponse>(
+        user.uid,
+        idemKey,
+        IDEMPOTENCY_MAX_AGE_MS
       )
-      const candidateWeeks = [...neighborWeeks, ...remainingWeeks]
-      for (const w of candidateWeeks) {
-        if (w === targetWeek) {
-          continue
-        }
-
-        const weekCacheKey = `games_week_${w}`
-        let weekGames = await getCached<GameItem[]>(
-          weekCacheKey,
-          10 * 60 * 1000
-        )
-        if (!weekGames) {
-          weekGames = await fetchGamesForWeek(w)
-          await setCached(weekCacheKey, weekGames)
-        }
-
-        if (weekGames.find(g => g.gameId === gameId)) {
-          games = weekGames
-          targetWeek = w
-          break
-        }
+      if (existing) {
+        res.setHeader('Idempotent-Replay', 'true')
+        return res.json({
+          ...existing,
+          rateLimitInfo: getRateLimitInfo(res),
+          quotaInfo: getQuotaInfo(res),
+        })
       }
     }
 
-    const game = games.find(g => g.gameId === gameId)
-
-    if (!game) {
-      console.error('Game not found:', {
-        requestedGameId: gameId,
-        availableGameIds: games.map(g => g.gameId),
-        targetWeek,
-        totalGames: games.length,
-      })
+    const parsed = GenerateMultiParlayRequestSchema.safeParse(req.body)
+    if (!parsed.success) {
+      const details = { fields: parsed.error.flatten().fieldErrors }
       return errorResponse(
         res,
-        404,
-        'game_not_found',
-        `Game with ID ${gameId} not found`,
-        correlationId
+        400,
+        'validation_error',
+        'Invalid request body',
+        correlationId,
+        details
       )
     }
+    const { numLegs, riskLevel, betTypes, seed } = parsed.data
 
-    // Generate parlay with AI using real game data
-    const ai = process.env.OPENAI_API_KEY
-      ? await generateParlayWithAI({
-          gameId,
-          riskLevel: parsed.data.riskLevel,
-          gameData: game,
-        })
-      : null
+    const provider = await selectProvider(req, parsed.data.provider)
+    if (!provider?.isAvailable()) {
+      return sendProviderError(res, provider, correlationId)
+    }
 
-    if (!ai) {
+    // Resolve every requested game (each may come from a different week)
+    const resolved = await Promise.all(
+      parsed.data.games.map(ref =>
+        findGameById(ref.gameId, ref.week, ref.seasonType, ref.season)
+      )
+    )
+    const missingIds = parsed.data.games
+      .filter((_, i) => !resolved[i])
+      .map(ref => ref.gameId)
+    if (missingIds.length > 0) {
       return errorResponse(
         res,
-        503,
-        'ai_service_unavailable',
-        'AI service is currently unavailable. Please try again later.',
+        404,
+        'game_not_found',
+        `Games not found: ${missingIds.join(', ')}`,
         correlationId
       )
     }
-
-    // Fetch rosters (cached per team for 10 minutes)
-    const homeRosterCacheKey = `roster_${game.home.teamId}`
-    const awayRosterCacheKey = `roster_${game.away.teamId}`
-    const rosterTtl = 10 * 60 * 1000
-    let homeRoster = await getCached<{ playerId: string; name: string }[]>(
-      homeRosterCacheKey,
-      rosterTtl
-    )
-    if (!homeRoster) {
-      homeRoster = await fetchTeamRoster(game.home.teamId)
-      await setCached(homeRosterCacheKey, homeRoster)
-    }
-    let awayRoster = await getCached<{ playerId: string; name: string }[]>(
-      awayRosterCacheKey,
-      rosterTtl
+    const games = await Promise.all(
+      (resolved as GameItem[]).map(withGameWeather)
     )
-    if (!awayRoster) {
-      awayRoster = await fetchTeamRoster(game.away.teamId)
-      await setCached(awayRosterCacheKey, awayRoster)
+
+    const [rosters, injuries, playerStats, oddsByGame] = await Promise.all([
+      Promise.all(
+        games.map(game =>
+          Promise.all([
+            getTeamRoster(game.home.teamId, game.season),
+            getTeamRoster(game.away.teamId, game.season),
+          ])
+        )
+      ),
+      Promise.all(
+        games.map(async game => ({
+          home: await getTeamInjuries(game.home.teamId),
+          away: await getTeamInjuries(game.away.teamId),
+        }))
+      ),
+      Promise.all(games.map(game => getGamePlayerStats(game))),
+      Promise.all(games.map(game => getGameOdds(game))),
+    ])
+
+    const startedAt = Date.now()
+    const result = await generateMultiGameParlayWithAI({
+      provider,
+      numLegs,
+      riskLevel,
+      betTypes,
+      games: games.map((gameData, i) => ({
+        gameData,
+        rosters: { home: rosters[i][0], away: rosters[i][1] },
+        injuries: injuries[i],
+        playerStats: playerStats[i],
+      })),
+      seed,
+    })
+    const latencyMs = Date.now() - startedAt
+
+    if (!result) {
+      return sendProviderError(res, provider, correlationId)
     }
+    const ai = result.data
 
-    const response: GenerateParlayResponse = {
-      parlayId: `pl_${Math.random().toString(36).slice(2, 10)}`,
-      gameId,
-      gameContext: `${game.away.name} @ ${game.home.name} - Week ${game.week}`,
-      legs: ai.legs,
-      combinedOdds: (() => {
-        // Convert American odds to decimal, multiply, then convert back to American
-        const decimalOdds = ai.legs.reduce((acc, leg) => {
-          const decimal =
-            leg.odds > 0 ? leg.odds / 100 + 1 : 100 / Math.abs(leg.odds) + 1
-          return acc * decimal
-        }, 1)
-
-        // Convert decimal odds back to American format
-        if (decimalOdds >= 2) {
-          return Math.round((decimalOdds - 1) * 100)
-        } else {
-          return Math.round(-100 / (decimalOdds - 1))
-        }
-      })(),
+    const legs = ai.legs.map(leg => {
+      const i = games.findIndex(g => g.gameId === leg.gameId)
+      const [homeRoster, awayRoster] = rosters[i]
+      const structured = structureLeg(leg, {
+        gameId: leg.gameId,
+        home: games[i].home,
+        away: games[i].away,
+        players: [...homeRoster, ...awayRoster],
+      })
+      return reconcileLegOdds([structured], oddsByGame[i])[0]
+    })
+
+    const predictions = ai.analysisSummary.gamePredictions
+    const matchups = games.map((game, i) => {
+      const prediction = predictions.find(p => p.gameId === game.gameId)
+      return toMatchup(
+        game,
+        injuries[i],
+        prediction
+          ? {
+              winner: prediction.winner,
+              projectedScore: prediction.projectedScore,
+              winProbability: prediction.winProbability,
+            }
+          : undefined
+      )
+    })
+    const gameIds = games.map(g => g.gameId)
+
+    const response: GenerateMultiParlayResponse = {
+      parlayId: newParlayId(),
+      // Primary game kept for consumers that expect a single gameId
+      gameId: gameIds[0],
+      gameIds,
+      gameContext: `Multi-game: ${games
+        .map(g => `${g.away.abbrev} @ ${g.home.abbrev} (${describeWeek(g)})`)
+        .join(', ')}`,
+      legs,
+      combinedOdds: calculateCombinedOdds(legs.map(leg => leg.odds)),
       parlayConfidence: Math.min(...ai.legs.map(l => l.confidence)),
-      gameSummary: ai.analysisSummary,
+      gameSummary: {
+        matchupSummary: ai.analysisSummary.matchupSummary,
+        keyFactors: ai.analysisSummary.keyFactors,
+        gamePrediction: matchups[0].prediction ?? {
+          winner: '',
+          projectedScore: { home: 0, away: 0 },
+          winProbability: 0,
+        },
+      },
       rosterDataUsed: {
-        home: homeRoster.slice(0, 30),
-        away: awayRoster.slice(0, 30),
+        home: rosters.flatMap(([home]) => buildRosterDataUsed(home, legs)),
+        away: rosters.flatMap(([, away]) => buildRosterDataUsed(away, legs)),
       },
+      matchups,
+      metadata: {
+        provider: provider.name,
+        model: provider.model,
+        latencyMs,
+        attemptCount: result.attemptCount,
+        fallbackUsed: result.fallbackUsed,
+        seed,
+      },
+      rateLimitInfo: getRateLimitInfo(res),
+      quotaInfo: getQuotaInfo(res),
     }
 
-    if (
-      user &&
-      typeof idemKeyHeader === 'string' &&
-      idemKeyHeader.trim().length > 0
-    ) {
-      await saveIdempotentResponse<GenerateParlayResponse>(
+    if (user) {
+      const {
+        metadata: _metadata,
+        rateLimitInfo: _info,
+        quotaInfo: _quota,
+        ...parlay
+      } = response
+      await recordGeneratedParlay(user.uid, parlay, {
+        week: games[0].week,
+        seasonType: games[0].seasonType,
+        riskLevel,
+      })
+    }
+    if (user && idemKey) {
+      await saveIdempotentResponse<GenerateMultiParlayResponse>(
         user.uid,
-        idemKeyHeader,
+        idemKey,
         response
       )
     }
@@ -217,3 +553,263 @@ export const generateParlayHandler = async (
     )
   }
 }
+
+/**
+ * Current parlay generation quota for the caller; does not count a request
+ */
+export const getRateLimitStatusHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as AuthedRequest).user
+    if (!user) {
+      return errorResponse(
+        res,
+        401,
+        'unauthorized',
+        'Missing user context for rate limit',
+        correlationId
+      )
+    }
+    const { binding, ...state } = await getUserQuotaState(
+      user,
+      PARLAY_GENERATION_BUCKET,
+      PARLAY_GENERATION_RATE_LIMIT
+    )
+    const response: RateLimitStatusResponse = {
+      rateLimitInfo: toRateLimitInfo(binding),
+      quotaInfo: toQuotaInfo(state),
+    }
+    res.json(response)
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to read rate limit status',
+      correlationId
+    )
+  }
+}
+
+/**
+ * Every feature flag, evaluated for the caller
+ */
+export const getFeatureFlagsHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const { correlationId, user } = req as AuthedRequest
+  if (!user) {
+    return errorResponse(
+      res,
+      401,
+      'unauthorized',
+      'Missing user context for feature flags',
+      correlationId
+    )
+  }
+  try {
+    const response: FeatureFlagsResponse = {
+      flags: await evaluateFeatureFlags(user),
+    }
+    res.json(response)
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to evaluate feature flags',
+      correlationId
+    )
+  }
+}
+
+function toSavedParlayResponse(parlay: StoredParlay): SavedParlayResponse {
+  const { userId: _userId, savedAt, ...rest } = parlay
+  return { ...rest, savedAt: savedAt?.toDate().toISOString() }
+}
+
+function parlayNotFound(
+  res: express.Response,
+  parlayId: string,
+  correlationId: string
+) {
+  return errorResponse(
+    res,
+    404,
+    'parlay_not_found',
+    `Parlay with ID ${parlayId} not found`,
+    correlationId
+  )
+}
+
+/**
+ * Save a parlay the caller generated to their history
+ */
+export const saveParlayHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as AuthedRequest).user as { uid: string }
+    const parsed = SaveParlayRequestSchema.safeParse(req.body ?? {})
+    if (!parsed.success) {
+      const details = { fields: parsed.error.flatten().fieldErrors }
+      return errorResponse(
+        res,
+        400,
+        'validation_error',
+        'Invalid request body',
+        correlationId,
+        details
+      )
+    }
+    const { parlayId } = req.params
+    const parlay = await saveGeneratedParlay(
+      user.uid,
+      parlayId,
+      parsed.data.notes
+    )
+    if (!parlay) {
+      return parlayNotFound(res, parlayId, correlationId)
+    }
+    res.status(201).json(toSavedParlayResponse(parlay))
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to save parlay',
+      correlationId
+    )
+  }
+}
+
+export const listParlaysHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as AuthedRequest).user as { uid: string }
+    const parsed = ListParlaysQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      const details = { fields: parsed.error.flatten().fieldErrors }
+      return errorResponse(
+        res,
+        400,
+        'validation_error',
+        'Invalid query parameters',
+        correlationId,
+        details
+      )
+    }
+    const { limit, cursor, ...filters } = parsed.data
+    const page = await listUserParlays(user.uid, filters, { limit, cursor })
+    const response: ListParlaysResponse = {
+      parlays: page.parlays.map(({ parlay }) => toSavedParlayResponse(parlay)),
+      nextCursor: page.nextCursor,
+    }
+    res.json(response)
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to list parlays',
+      correlationId
+    )
+  }
+}
+
+export const getParlayHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as AuthedRequest).user as { uid: string }
+    const { parlayId } = req.params
+    const parlay = await getUserParlay(user.uid, parlayId)
+    if (!parlay) {
+      return parlayNotFound(res, parlayId, correlationId)
+    }
+    res.json(toSavedParlayResponse(parlay))
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to load parlay',
+      correlationId
+    )
+  }
+}
+
+export const updateParlayNotesHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as AuthedRequest).user as { uid: string }
+    const parsed = UpdateParlayNotesRequestSchema.safeParse(req.body)
+    if (!parsed.success) {
+      const details = { fields: parsed.error.flatten().fieldErrors }
+      return errorResponse(
+        res,
+        400,
+        'validation_error',
+        'Invalid request body',
+        correlationId,
+        details
+      )
+    }
+    const { parlayId } = req.params
+    const parlay = await updateUserParlayNotes(
+      user.uid,
+      parlayId,
+      parsed.data.notes
+    )
+    if (!parlay) {
+      return parlayNotFound(res, parlayId, correlationId)
+    }
+    res.json(toSavedParlayResponse(parlay))
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to update parlay notes',
+      correlationId
+    )
+  }
+}
+
+export const deleteParlayHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  try {
+    const user = (req as AuthedRequest).user as { uid: string }
+    const { parlayId } = req.params
+    const deleted = await deleteUserParlay(user.uid, parlayId)
+    if (!deleted) {
+      return parlayNotFound(res, parlayId, correlationId)
+    }
+    res.status(204).end()
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to delete parlay',
+      correlationId
+    )
+  }
+}
@@ -1,13 +1,89 @@
 import express from 'express'
-import { verifyAuth } from '../../middleware/auth'
+import { requireGenerationEnabled, verifyAuth } from '../../middleware/auth'
+import { requireFeature } from '../../middleware/featureFlags'
+import { quotaByTier } from '../../middleware/quota'
 import { rateLimitByUser } from '../../middleware/rateLimit'
-import { generateParlayHandler } from './handlers'
+import { getRuntimeConfig } from '../../service/runtimeConfig'
+import {
+  deleteParlayHandler,
+  generateMultiGameParlayHandler,
+  generateParlayHandler,
+  getFeatureFlagsHandler,
+  getParlayHandler,
+  getRateLimitStatusHandler,
+  listParlaysHandler,
+  PARLAY_GENERATION_BUCKET,
+  PARLAY_GENERATION_RATE_LIMIT,
+  saveParlayHandler,
+  updateParlayNotesHandler,
+} from './handlers'
+
+// Both generate routes draw from one bucket, limited by the caller's tier
+const generationRateLimit = quotaByTier(
+  PARLAY_GENERATION_BUCKET,
+  PARLAY_GENERATION_RATE_LIMIT
+)
 
 export const protectedRouter = express.Router()
 
 protectedRouter.post(
   '/parlays/generate',
   verifyAuth,
-  rateLimitByUser(10, 30 * 60_000),
+  requireGenerationEnabled,
+  generationRateLimit,
   generateParlayHandler
 )
+
+protectedRouter.post(
+  '/parlays/generate-multi',
+  verifyAuth,
+  requireFeature('multi_game_parlays'),
+  requireGenerationEnabled,
+  generationRateLimit,
+  generateMultiGameParlayHandler
+)
+
+protectedRouter.get('/rate-limit/status', verifyAuth, getRateLimitStatusHandler)
+
+protectedRouter.get('/flags', verifyAuth, getFeatureFlagsHandler)
+
+// Parlay history; a token bucket lets the history page load in a burst
+const historyRateLimit = rateLimitByUser(
+  async () => (await getRuntimeConfig('rateLimits')).routes.history,
+  { bucket: '/parlays', algorithm: 'token-bucket' }
+)
+
+protectedRouter.get(
+  '/parlays',
+  verifyAuth,
+  historyRateLimit,
+  listParlaysHandler
+)
+
+protectedRouter.get(
+  '/parlays/:parlayId',
+  verifyAuth,
+  historyRateLimit,
+  getParlayHandler
+)
+
+protectedRouter.post(
+  '/parlays/:parlayId/save',
+  verifyAuth,
+  historyRateLimit,
+  saveParlayHandler
+)
+
+protectedRouter.patch(
+  '/parlays/:parlayId/notes',
+  verifyAuth,
+  historyRateLimit,
+  updateParlayNotesHandler
+)
+
+protectedRouter.delete(
+  '/parlays/:parlayId',
+  verifyAuth,
+  historyRateLimit,
+  deleteParlayHandler
+)
@@ -1,85 +1,106 @@
 import { z } from 'zod'
+import {
+  AI_PROVIDER_NAMES,
+  BetTypeEnum,
+  MAX_PARLAY_LEGS,
+  MIN_PARLAY_LEGS,
+  type AIProviderName,
+  type LegPeriod,
+  type LegSide,
+  type LegSubject,
+} from '../../service/ai'
+import type { QuotaInfo } from '../../middleware/quota'
+import type { RateLimitInfo } from '../../middleware/rateLimit'
+import {
+  FIRST_SEASON,
+  SEASON_TYPES,
+  type RosterPlayer,
+} from '../../providers/espn'
+import type { FeatureFlags } from '../../service/featureFlags'
+import type { LegOddsCheck } from '../../service/odds'
+import {
+  MAX_PARLAY_PAGE_SIZE,
+  PARLAY_PAGE_SIZE,
+  type ParlayMatchup,
+  type ParlayMatchupTeam,
+  type StoredParlay,
+} from '../../storage/parlays'
 
-export const GenerateParlayRequestSchema = z.object({
+export type { ParlayMatchup, ParlayMatchupTeam }
+
+export const MAX_PARLAY_GAMES = 6
+
+const RiskLevelEnum = z.enum(['conservative', 'moderate', 'aggressive'])
+const SeasonTypeEnum = z.enum(SEASON_TYPES)
+
+// Weeks are numbered within their season type, so 18 covers every type
+const WeekSchema = z.number().int().min(1).max(18)
+
+const GameRefSchema = z.object({
   gameId: z.string().min(1),
-  numLegs: z.literal(3),
-  week: z.number().int().min(1).max(18).optional(),
-  riskLevel: z
-    .enum(['conservative', 'moderate', 'aggressive'])
-    .default('conservative'),
+  week: WeekSchema.optional(),
+  seasonType: SeasonTypeEnum.default('regular'),
+  // Defaults to ESPN's current season
+  season: z.number().int().min(FIRST_SEASON).optional(),
+})
+
+const ParlayOptionsSchema = z.object({
+  numLegs: z.number().int().min(MIN_PARLAY_LEGS).max(MAX_PARLAY_LEGS),
+  riskLevel: RiskLevelEnum.default('conservative'),
   betTypes: z
-    .union([
-      z.literal('all'),
-      z.array(
-        z.enum([
-          'spread',
-          'moneyline',
-          'total',
-          'team_total_points',
-          'team_total_points_over',
-          'team_total_points_under',
-          'first_half_spread',
-          'first_half_total',
-          'second_half_spread',
-          'second_half_total',
-          'first_quarter_spread',
-          'first_quarter_total',
-          'player_passing_yards',
-          'player_passing_attempts',
-          'player_passing_completions',
-          'player_passing_tds',
-          'player_interceptions',
-          'player_longest_completion',
-          'player_rushing_yards',
-          'player_rushing_attempts',
-          'player_rushing_tds',
-          'player_longest_rush',
-          'player_receiving_yards',
-          'player_receptions',
-          'player_receiving_tds',
-          'player_longest_reception',
-          'player_rush_rec_yards',
-          'player_pass_rush_yards',
-          'player_pass_rec_yards',
-          'player_pass_rush_rec_yards',
-          'player_anytime_td',
-          'player_first_td',
-          'player_last_td',
-          'team_total_tds',
-          'field_goals_made',
-          'field_goals_attempted',
-          'longest_field_goal',
-          'kicking_points',
-          'extra_points_made',
-          'defensive_sacks',
-          'defensive_tackles',
-          'defensive_interceptions',
-          'defensive_forced_fumbles',
-          'defensive_touchdowns',
-          'special_teams_touchdowns',
-          'defensive_turnovers',
-          'alt_spread',
-          'alt_total',
-          'player_alt_rushing_yards',
-          'player_alt_receiving_yards',
-          'player_alt_passing_yards',
-        ])
-      ),
-    ])
+    .union([z.literal('all'), z.array(BetTypeEnum).min(1)])
     .optional()
     .default('all'),
+  // Provider override and PRNG seed, honored for dev/test users only
+  provider: z.enum(AI_PROVIDER_NAMES).optional(),
+  seed: z.number().int().optional(),
+})
+
+export const GenerateParlayRequestSchema =
+  ParlayOptionsSchema.merge(GameRefSchema)
+
+export const GenerateMultiParlayRequestSchema = ParlayOptionsSchema.extend({
+  games: z
+    .array(GameRefSchema)
+    .min(2)
+    .max(MAX_PARLAY_GAMES)
+    .refine(games => new Set(games.map(g => g.gameId)).size === games.length, {
+      message: 'games must not contain duplicates',
+    }),
+}).refine(data => data.numLegs >= data.games.length, {
+  message: 'numLegs must be at least the number of games',
+  path: ['numLegs'],
 })
 
+export type GenerationMetadata = {
+  provider: AIProviderName
+  model: string
+  latencyMs: number
+  // Model calls made, including schema repairs
+  attemptCount: number
+  // True when the output needed repairs or local coercion to validate
+  fallbackUsed: boolean
+  seed?: number
+}
+
 export type GenerateParlayResponse = {
   parlayId: string
   gameId: string
   gameContext: string
   legs: Array<{
+    gameId: string
     betType: string
     selection: string
     odds: number
     confidence: number
     reasoning: string
+    subject?: LegSubject
+    market: string
+    side?: LegSide
+    line?: number
+    period: LegPeriod
+    // Present when an odds provider is configured
+    oddsCheck?: LegOddsCheck
   }>
   combinedOdds: number
   parlayConfidence: number
@@ -93,7 +114,67 @@ export type GenerateParlayResponse = {
     }
   }
   rosterDataUsed: {
-    home: Array<{ playerId: string; name: string }>
-    away: Array<{ playerId: string; name: string }>
+    home: RosterPlayer[]
+    away: RosterPlayer[]
   }
+  matchups: ParlayMatchup[]
+  metadata: GenerationMetadata
+  // Generation quota after this request: whichever of the tier's quotas
+  // runs out first, then both in full
+  rateLimitInfo?: RateLimitInfo
+  quotaInfo?: QuotaInfo
+}
+
+export type GenerateMultiParlayResponse = GenerateParlayResponse & {
+  gameIds: string[]
+}
+
+export type RateLimitStatusResponse = {
+  rateLimitInfo: RateLimitInfo
+  quotaInfo: QuotaInfo
+}
+
+export type FeatureFlagsResponse = {
+  flags: FeatureFlags
+}
+
+const MAX_NOTES_LENGTH = 1000
+
+export const ListParlaysQuerySchema = z
+  .object({
+    week: z.coerce.number().pipe(WeekSchema).optional(),
+    seasonType: SeasonTypeEnum.optional(),
+    gameId: z.string().min(1).optional(),
+    riskLevel: RiskLevelEnum.optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_PARLAY_PAGE_SIZE)
+      .default(PARLAY_PAGE_SIZE),
+    cursor: z.string().min(1).optional(),
+  })
+  // A game already fixes the week, and firestore.indexes.json only pairs
+  // gameIds with riskLevel
+  .refine(query => !query.gameId || (query.week == null && !query.seasonType), {
+    message: 'gameId cannot be combined with week or seasonType',
+    path: ['gameId'],
+  })
+
+export const SaveParlayRequestSchema = z.object({
+  notes: z.string().max(MAX_NOTES_LENGTH).optional(),
+})
+
+export const UpdateParlayNotesRequestSchema = z.object({
+  notes: z.string().max(MAX_NOTES_LENGTH),
+})
+
+export type SavedParlayResponse = Omit<StoredParlay, 'userId' | 'savedAt'> & {
+  // ISO timestamp; missing only on very old documents
+  savedAt?: string
+}
+
+export type ListParlaysResponse = {
+  parlays: SavedParlayResponse[]
+  nextCursor: string | null
 }
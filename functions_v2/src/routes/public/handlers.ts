@@ -1,13 +1,24 @@
 import express from 'express'
 import {
-  fetchCurrentWeek as espnCurrentWeek,
-  fetchGamesForWeek,
+  FIRST_SEASON,
+  SEASON_TYPES,
+  SEASON_WEEKS,
+  seasonYearForDate,
+  type SeasonType,
 } from '../../providers/espn'
-import { getCached, setCached } from '../../utils/cache'
+import {
+  getCurrentWeek,
+  getGameById,
+  getGamesForWeek,
+  withGameWeather,
+} from '../../service/games'
+import { getGameOdds } from '../../service/odds'
 import { errorResponse } from '../../utils/errors'
-import { GamesResponse } from './schema'
-
-const CACHE_TTL_MS = 10 * 60 * 1000
+import {
+  CurrentWeekResponse,
+  GameDetailResponse,
+  GamesResponse,
+} from './schema'
 
 export const getCurrentWeekHandler = async (
   req: express.Request,
@@ -15,14 +26,8 @@ export const getCurrentWeekHandler = async (
 ) => {
   const correlationId = (req as any).correlationId as string
   try {
-    const cacheKey = 'espn:weeks:current'
-    const cached = await getCached<number>(cacheKey, CACHE_TTL_MS)
-    if (cached !== null) {
-      return res.json({ week: cached })
-    }
-    const week = await espnCurrentWeek()
-    await setCached(cacheKey, week)
-    res.json({ week })
+    const current: CurrentWeekResponse = await getCurrentWeek()
+    res.json(current)
   } catch {
     return errorResponse(
       res,
@@ -49,8 +54,18 @@ export const getGamesHandler = async (
       correlationId
     )
   }
+  const seasonType = (req.query.seasonType ?? 'regular') as SeasonType
+  if (!SEASON_TYPES.includes(seasonType)) {
+    return errorResponse(
+      res,
+      400,
+      'validation_error',
+      `Invalid seasonType; expected one of ${SEASON_TYPES.join(', ')}`,
+      correlationId
+    )
+  }
   const week = Number(weekStr)
-  if (!Number.isInteger(week) || week <= 0) {
+  if (!Number.isInteger(week) || week <= 0 || week > SEASON_WEEKS[seasonType]) {
     return errorResponse(
       res,
       400,
@@ -59,14 +74,29 @@ export const getGamesHandler = async (
       correlationId
     )
   }
+  const seasonStr = req.query.season as string | undefined
+  const season = seasonStr ? Number(seasonStr) : undefined
+  if (
+    season !== undefined &&
+    (!Number.isInteger(season) ||
+      season < FIRST_SEASON ||
+      season > seasonYearForDate() + 1)
+  ) {
+    return errorResponse(
+      res,
+      400,
+      'validation_error',
+      'Invalid season',
+      correlationId
+    )
+  }
   try {
-    const cacheKey = `espn:games:week:${week}`
-    const cached = await getCached<GamesResponse[]>(cacheKey, CACHE_TTL_MS)
-    if (cached) {
-      return res.json(cached)
-    }
-    const games = await fetchGamesForWeek(week)
-    await setCached(cacheKey, games)
+    // Without a season, ESPN's current season (not the calendar year)
+    const games: GamesResponse[] = await getGamesForWeek(
+      week,
+      seasonType,
+      season
+    )
     res.json(games)
   } catch {
     return errorResponse(
@@ -78,3 +108,46 @@ export const getGamesHandler = async (
     )
   }
 }
+
+export const getGameHandler = async (
+  req: express.Request,
+  res: express.Response
+) => {
+  const correlationId = (req as any).correlationId as string
+  const { gameId } = req.params
+  if (!/^\d+$/.test(gameId)) {
+    return errorResponse(
+      res,
+      400,
+      'validation_error',
+      'Invalid gameId',
+      correlationId
+    )
+  }
+  try {
+    const found = await getGameById(gameId)
+    if (!found) {
+      return errorResponse(
+        res,
+        404,
+        'game_not_found',
+        `Game with ID ${gameId} not found`,
+        correlationId
+      )
+    }
+    const game = await withGameWeather(found)
+    const detail: GameDetailResponse = {
+      ...game,
+      odds: await getGameOdds(game),
+    }
+    res.json(detail)
+  } catch {
+    return errorResponse(
+      res,
+      500,
+      'internal_error',
+      'Failed to fetch game',
+      correlationId
+    )
+  }
+}
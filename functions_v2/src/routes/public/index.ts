@@ -1,13 +1,24 @@
 import express from 'express'
 import { rateLimitByIp } from '../../middleware/rateLimit'
-import { getCurrentWeekHandler, getGamesHandler } from './handlers'
+import { getRuntimeConfig } from '../../service/runtimeConfig'
+import {
+  getCurrentWeekHandler,
+  getGameHandler,
+  getGamesHandler,
+} from './handlers'
 
 export const publicRouter = express.Router()
 
-publicRouter.get(
-  '/weeks/current',
-  rateLimitByIp(120, 60_000),
-  getCurrentWeekHandler
-)
+const publicRule = async () =>
+  (await getRuntimeConfig('rateLimits')).routes.public
 
-publicRouter.get('/games', rateLimitByIp(120, 60_000), getGamesHandler)
+const publicRateLimit = rateLimitByIp(publicRule)
+
+// One counter for every game id, so cycling ids cannot dodge the limit
+const gameRateLimit = rateLimitByIp(publicRule, { bucket: '/games/:gameId' })
+
+publicRouter.get('/weeks/current', publicRateLimit, getCurrentWeekHandler)
+
+publicRouter.get('/games', publicRateLimit, getGamesHandler)
+
+publicRouter.get('/games/:gameId', gameRateLimit, getGameHandler)
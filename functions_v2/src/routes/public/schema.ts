@@ -1,12 +1,21 @@
+import type { GameWeather, SeasonType } from '../../providers/espn'
+import type { GameOdds } from '../../providers/odds'
+import type { VenueRoof } from '../../providers/venues'
+
 export interface CurrentWeekResponse {
   week: number
+  seasonType: SeasonType
+  // Year the season kicked off; January playoff weeks keep last year's
+  season: number
 }
 
 export interface GamesResponse {
   gameId: string
   week: number
+  seasonType: SeasonType
+  season: number
   startTime: string
-  status: 'scheduled' | 'in_progress' | 'final' | 'postponed'
+  status: 'scheduled' | 'in_progress' | 'final' | 'postponed' | 'canceled'
   home: {
     teamId: string
     name: string
@@ -15,6 +24,9 @@ export interface GamesResponse {
     overallRecord: string
     homeRecord: string
     roadRecord: string
+    logo?: string
+    color?: string
+    alternateColor?: string
   }
   away: {
     teamId: string
@@ -24,12 +36,20 @@ export interface GamesResponse {
     overallRecord: string
     homeRecord: string
     roadRecord: string
+    logo?: string
+    color?: string
+    alternateColor?: string
   }
-  venue: { name: string; city: string; state: string }
-  weather?: { condition: string; temperatureF: number; windMph: number }
+  venue: { name: string; city: string; state: string; roof?: VenueRoof }
+  weather?: GameWeather
   leaders?: {
     passing?: { name: string; stats: string; value: number }
     rushing?: { name: string; stats: string; value: number }
     receiving?: { name: string; stats: string; value: number }
   }
 }
+
+export interface GameDetailResponse extends GamesResponse {
+  // Sportsbook lines; null when no odds provider is configured or it has none
+  odds: { provider: string; odds: GameOdds } | null
+}
@@ -0,0 +1,99 @@
+/**
+ * Local fixes for predictable model slips, applied before schema validation
+ * so they never cost a repair round-trip
+ */
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** "+150", "-110" or "1.5" to a number; anything else is left alone */
+function toNumber(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value
+  }
+  const trimmed = value.trim()
+  if (!/^[+-]?\d+(\.\d+)?$/.test(trimmed)) {
+    return value
+  }
+  return Number(trimmed)
+}
+
+/** Probabilities given on a 0–10 or 0–100 scale become 0–1 */
+function toProbability(value: unknown): unknown {
+  const numeric = toNumber(
+    typeof value === 'string' ? value.replace(/%$/, '') : value
+  )
+  if (typeof numeric !== 'number' || numeric <= 1) {
+    return numeric
+  }
+  if (numeric <= 10) {
+    return numeric / 10
+  }
+  return numeric <= 100 ? numeric / 100 : numeric
+}
+
+function coerceLeg(leg: JsonObject): JsonObject {
+  const odds = toNumber(leg.odds)
+  return {
+    ...leg,
+    odds: typeof odds === 'number' ? Math.round(odds) : odds,
+    confidence: toProbability(leg.confidence),
+    ...(leg.line !== undefined && { line: toNumber(leg.line) }),
+  }
+}
+
+function coercePrediction(prediction: unknown): unknown {
+  if (!isObject(prediction)) {
+    return prediction
+  }
+  const score = prediction.projectedScore
+  return {
+    ...prediction,
+    winProbability: toProbability(prediction.winProbability),
+    ...(isObject(score) && {
+      projectedScore: {
+        ...score,
+        home: toNumber(score.home),
+        away: toNumber(score.away),
+      },
+    }),
+  }
+}
+
+/**
+ * Coerce a raw parlay response (single or multi-game). Returns the input
+ * unchanged when it is not shaped like a parlay.
+ */
+export function coerceParlayOutput(raw: unknown): {
+  value: unknown
+  coerced: boolean
+} {
+  if (!isObject(raw)) {
+    return { value: raw, coerced: false }
+  }
+  const summary = raw.analysisSummary
+  const value = {
+    ...raw,
+    ...(Array.isArray(raw.legs) && {
+      legs: raw.legs.map(leg => (isObject(leg) ? coerceLeg(leg) : leg)),
+    }),
+    ...(isObject(summary) && {
+      analysisSummary: {
+        ...summary,
+        ...(summary.gamePrediction !== undefined && {
+          gamePrediction: coercePrediction(summary.gamePrediction),
+        }),
+        ...(Array.isArray(summary.gamePredictions) && {
+          gamePredictions: summary.gamePredictions.map(coercePrediction),
+        }),
+      },
+    }),
+  }
+  return {
+    value,
+    coerced: JSON.stringify(value) !== JSON.stringify(raw),
+  }
+}
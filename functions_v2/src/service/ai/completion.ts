@@ -0,0 +1,183 @@
+import type OpenAI from 'openai'
+import type { z } from 'zod'
+import { coerceParlayOutput } from './coerce'
+import { getOpenAI, withTimeout } from './openai'
+import type { BetType } from './schemas'
+import { getRuntimeConfig, type RuntimeConfig } from '../runtimeConfig'
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam
+export type RiskLevel = 'conservative' | 'moderate' | 'aggressive'
+
+type AIConfig = RuntimeConfig<'ai'>
+
+export const SYSTEM_PROMPT =
+  'You are an NFL betting assistant that outputs STRICT JSON only.'
+
+function getMaxTokens({ maxTokens }: AIConfig, numLegs: number): number {
+  return Math.max(maxTokens.min, maxTokens.base + numLegs * maxTokens.perLeg)
+}
+
+async function requestCompletion(
+  client: OpenAI,
+  config: AIConfig,
+  messages: ChatMessage[],
+  riskLevel: RiskLevel,
+  numLegs: number
+): Promise<string> {
+  const completion = await withTimeout(
+    client.chat.completions.create({
+      model: config.model,
+      messages,
+      temperature: config.temperatures[riskLevel],
+      max_tokens: getMaxTokens(config, numLegs),
+      response_format: { type: 'json_object' },
+    }),
+    config.timeoutMs
+  )
+  return completion.choices[0]?.message?.content ?? ''
+}
+
+export type CompletionResult<T> = {
+  data: T
+  // Model calls made, including repairs
+  attemptCount: number
+  // True when the accepted output needed repairs or local coercion
+  fallbackUsed: boolean
+}
+
+// Total model calls per parlay: the first answer plus repairs
+export const MAX_COMPLETION_ATTEMPTS = 3
+const MAX_REPORTED_ISSUES = 15
+
+function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (acc, key) =>
+      typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key,
+    ''
+  )
+}
+
+/**
+ * Describe schema violations so the model can fix them in place
+ */
+function buildRepairPrompt(
+  issues: z.ZodIssue[],
+  allowedBetTypes: BetType[]
+): string {
+  const lines = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(
+      issue => `- ${formatIssuePath(issue.path) || '(root)'}: ${issue.message}`
+    )
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`- ...and ${issues.length - MAX_REPORTED_ISSUES} more`)
+  }
+  const usesBetTypes = issues.some(issue => issue.path.includes('betType'))
+  return (
+    `Your previous response failed validation:\n${lines.join('\n')}\n` +
+    (usesBetTypes
+      ? `Replace legs with disallowed bet types using ONLY these bet types: ${allowedBetTypes.join(', ')}.\n`
+      : '') +
+    'Fix only these problems, keep everything else unchanged and return the complete JSON object again.'
+  )
+}
+
+function parseJson(
+  content: string
+): { ok: true; value: unknown } | { ok: false; message: string } {
+  try {
+    return { ok: true, value: JSON.parse(content) }
+  } catch (error) {
+    return {
+      ok: false,
+      message: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Run a parlay prompt through the model and validate the JSON it returns.
+ * Predictable slips are coerced locally; remaining schema errors are fed back
+ * to the model for up to MAX_COMPLETION_ATTEMPTS calls.
+ */
+export async function completeParlayJson<T>(params: {
+  prompt: string
+  numLegs: number
+  riskLevel: RiskLevel
+  allowedBetTypes: BetType[]
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+}): Promise<CompletionResult<T> | null> {
+  const config = await getRuntimeConfig('ai')
+
+  try {
+    const client = getOpenAI()
+    if (!client) {
+      console.error('OpenAI client is null - OPENAI_API_KEY may be missing')
+      return null
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: params.prompt },
+    ]
+
+    for (let attempt = 1; attempt <= MAX_COMPLETION_ATTEMPTS; attempt++) {
+      const content = await requestCompletion(
+        client,
+        config,
+        messages,
+        params.riskLevel,
+        params.numLegs
+      )
+
+      if (!content) {
+        console.error('OpenAI returned empty content', { attempt })
+        return null
+      }
+
+      let feedback: string
+      const json = parseJson(content)
+      if (json.ok) {
+        const { value, coerced } = coerceParlayOutput(json.value)
+        const parsed = params.schema.safeParse(value)
+        if (parsed.success) {
+          return {
+            data: parsed.data,
+            attemptCount: attempt,
+            fallbackUsed: attempt > 1 || coerced,
+          }
+        }
+        console.warn('AI output failed validation', {
+          attempt,
+          issues: parsed.error.issues.slice(0, MAX_REPORTED_ISSUES),
+        })
+        feedback = buildRepairPrompt(
+          parsed.error.issues,
+          params.allowedBetTypes
+        )
+      } else {
+        console.warn('AI output was not valid JSON', {
+          attempt,
+          error: json.message,
+        })
+        feedback = `Your previous response was not valid JSON (${json.message}). Return the complete JSON object only.`
+      }
+
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: feedback }
+      )
+    }
+
+    console.error('AI output still invalid after repairs', {
+      attempts: MAX_COMPLETION_ATTEMPTS,
+    })
+    return null
+  } catch (error) {
+    console.error('OpenAI API call failed:', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    })
+    return null
+  }
+}
@@ -1,74 +1,51 @@
-import type { GameItem } from '../../providers/espn'
-import { getOpenAI, withTimeout } from './openai'
-import { buildParlayPrompt } from './promptBuilder'
-import { AIGenerateResponseSchema, type AIGenerateResponse } from './schemas'
+import type { CompletionResult, RiskLevel } from './completion'
+import type { AIProvider, GameContext } from './provider'
+import {
+  resolveAllowedBetTypes,
+  type AIGenerateResponse,
+  type AIMultiGameResponse,
+  type BetTypeFilter,
+} from './schemas'
 
 export async function generateParlayWithAI(params: {
-  gameId: string
-  riskLevel: 'conservative' | 'moderate' | 'aggressive'
-  gameData: GameItem
-}): Promise<AIGenerateResponse | null> {
-  const temperature =
-    params.riskLevel === 'aggressive'
-      ? 0.8
-      : params.riskLevel === 'moderate'
-        ? 0.5
-        : 0.3
-
-  try {
-    const client = getOpenAI()
-    if (!client) {
-      console.error('OpenAI client is null - OPENAI_API_KEY may be missing')
-      return null
-    }
-
-    const completion = await withTimeout(
-      client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an NFL betting assistant that outputs STRICT JSON only.',
-          },
-          {
-            role: 'user',
-            content: buildParlayPrompt({
-              gameData: params.gameData,
-              riskLevel: params.riskLevel,
-            }),
-          },
-        ],
-        temperature,
-        max_tokens: 1500,
-        response_format: { type: 'json_object' },
-      }),
-      30_000 // Increased timeout from 15s to 30s
-    )
-
-    const content = completion.choices[0]?.message?.content ?? ''
-
-    if (!content) {
-      console.error('OpenAI returned empty content')
-      return null
-    }
-
-    const parsed = AIGenerateResponseSchema.safeParse(JSON.parse(content))
-    if (!parsed.success) {
-      console.error('JSON parsing failed:', {
-        error: parsed.error,
-        content:
-          content.substring(0, 500) + (content.length > 500 ? '...' : ''),
-      })
-      return null
-    }
+  provider: AIProvider
+  numLegs: number
+  riskLevel: RiskLevel
+  betTypes: BetTypeFilter
+  gameData: GameContext['gameData']
+  rosters: GameContext['rosters']
+  injuries: GameContext['injuries']
+  playerStats: GameContext['playerStats']
+  seed?: number
+}): Promise<CompletionResult<AIGenerateResponse> | null> {
+  return params.provider.generateParlay({
+    gameData: params.gameData,
+    rosters: params.rosters,
+    injuries: params.injuries,
+    playerStats: params.playerStats,
+    numLegs: params.numLegs,
+    riskLevel: params.riskLevel,
+    allowedBetTypes: resolveAllowedBetTypes(params.betTypes),
+    seed: params.seed,
+  })
+}
 
-    return parsed.data
-  } catch (error) {
-    console.error('OpenAI API call failed:', {
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    })
-    return null
-  }
+/**
+ * Generate a parlay whose legs are spread across several games
+ */
+export async function generateMultiGameParlayWithAI(params: {
+  provider: AIProvider
+  numLegs: number
+  riskLevel: RiskLevel
+  betTypes: BetTypeFilter
+  games: GameContext[]
+  seed?: number
+}): Promise<CompletionResult<AIMultiGameResponse> | null> {
+  return params.provider.generateMultiGameParlay({
+    games: params.games,
+    numLegs: params.numLegs,
+    riskLevel: params.riskLevel,
+    allowedBetTypes: resolveAllowedBetTypes(params.betTypes),
+    seed: params.seed,
+  })
 }
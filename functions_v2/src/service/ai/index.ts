@@ -1,4 +1,40 @@
-export { generateParlayWithAI } from './generateParlay'
+export {
+  MAX_COMPLETION_ATTEMPTS,
+  type CompletionResult,
+  type RiskLevel,
+} from './completion'
+export {
+  generateMultiGameParlayWithAI,
+  generateParlayWithAI,
+} from './generateParlay'
+export { mockProvider } from './mockProvider'
 export { getOpenAI, withTimeout } from './openai'
-export { buildParlayPrompt } from './promptBuilder'
-export { AIGenerateResponseSchema, type AIGenerateResponse } from './schemas'
+export { openAIProvider } from './openaiProvider'
+export { buildMultiGameParlayPrompt, buildParlayPrompt } from './promptBuilder'
+export {
+  AI_PROVIDER_NAMES,
+  getStarters,
+  type AIProvider,
+  type AIProviderName,
+  type GameContext,
+} from './provider'
+export { getAIProvider, getDefaultAIProviderName } from './registry'
+export {
+  AIGenerateResponseSchema,
+  createAIGenerateResponseSchema,
+  MAX_PARLAY_LEGS,
+  MIN_PARLAY_LEGS,
+  BetTypeEnum,
+  LegStructureSchema,
+  resolveAllowedBetTypes,
+  type AIAnalysis,
+  type AIGenerateResponse,
+  type AILeg,
+  type AIMultiGameResponse,
+  type BetType,
+  type BetTypeFilter,
+  type LegPeriod,
+  type LegSide,
+  type LegStructure,
+  type LegSubject,
+} from './schemas'
@@ -0,0 +1,598 @@
+import {
+  describeWeek,
+  type GameItem,
+  type RosterPlayer,
+} from '../../providers/espn'
+import type { RiskLevel } from './completion'
+import {
+  getStarters,
+  getUnavailablePlayers,
+  type AIProvider,
+  type GameContext,
+} from './provider'
+import {
+  createAIGenerateResponseSchema,
+  createAIMultiGameResponseSchema,
+  type AILeg,
+  type BetType,
+} from './schemas'
+
+type Random = () => number
+type TeamSide = 'home' | 'away'
+type Leader = 'passing' | 'rushing' | 'receiving'
+
+type PropLine = { label: string; range: [number, number]; leader?: Leader }
+
+// Line ranges are whole numbers; every generated line gets a .5 hook
+const PLAYER_PROP_LINES: Partial<Record<BetType, PropLine>> = {
+  player_passing_yards: {
+    label: 'Passing Yards',
+    range: [205, 285],
+    leader: 'passing',
+  },
+  player_alt_passing_yards: {
+    label: 'Passing Yards',
+    range: [175, 224],
+    leader: 'passing',
+  },
+  player_passing_attempts: {
+    label: 'Pass Attempts',
+    range: [28, 38],
+    leader: 'passing',
+  },
+  player_passing_completions: {
+    label: 'Completions',
+    range: [18, 26],
+    leader: 'passing',
+  },
+  player_passing_tds: {
+    label: 'Passing TDs',
+    range: [1, 2],
+    leader: 'passing',
+  },
+  player_interceptions: {
+    label: 'Interceptions',
+    range: [0, 1],
+    leader: 'passing',
+  },
+  player_longest_completion: {
+    label: 'Longest Completion',
+    range: [30, 42],
+    leader: 'passing',
+  },
+  player_rushing_yards: {
+    label: 'Rushing Yards',
+    range: [45, 85],
+    leader: 'rushing',
+  },
+  player_alt_rushing_yards: {
+    label: 'Rushing Yards',
+    range: [30, 44],
+    leader: 'rushing',
+  },
+  player_rushing_attempts: {
+    label: 'Rushing Attempts',
+    range: [12, 19],
+    leader: 'rushing',
+  },
+  player_rushing_tds: {
+    label: 'Rushing TDs',
+    range: [0, 0],
+    leader: 'rushing',
+  },
+  player_longest_rush: {
+    label: 'Longest Rush',
+    range: [12, 20],
+    leader: 'rushing',
+  },
+  player_receiving_yards: {
+    label: 'Receiving Yards',
+    range: [45, 80],
+    leader: 'receiving',
+  },
+  player_alt_receiving_yards: {
+    label: 'Receiving Yards',
+    range: [30, 44],
+    leader: 'receiving',
+  },
+  player_receptions: {
+    label: 'Receptions',
+    range: [3, 6],
+    leader: 'receiving',
+  },
+  player_receiving_tds: {
+    label: 'Receiving TDs',
+    range: [0, 0],
+    leader: 'receiving',
+  },
+  player_longest_reception: {
+    label: 'Longest Reception',
+    range: [18, 28],
+    leader: 'receiving',
+  },
+  player_rush_rec_yards: {
+    label: 'Rushing + Receiving Yards',
+    range: [60, 100],
+    leader: 'rushing',
+  },
+  player_pass_rush_yards: {
+    label: 'Passing + Rushing Yards',
+    range: [230, 300],
+    leader: 'passing',
+  },
+  player_pass_rec_yards: {
+    label: 'Passing + Receiving Yards',
+    range: [220, 290],
+    leader: 'passing',
+  },
+  player_pass_rush_rec_yards: {
+    label: 'Passing + Rushing + Receiving Yards',
+    range: [250, 320],
+    leader: 'passing',
+  },
+}
+
+const TEAM_PROP_LINES: Partial<Record<BetType, PropLine>> = {
+  team_total_tds: { label: 'Touchdowns', range: [1, 3] },
+  field_goals_made: { label: 'Field Goals Made', range: [1, 2] },
+  field_goals_attempted: { label: 'Field Goal Attempts', range: [1, 2] },
+  longest_field_goal: { label: 'Longest Field Goal', range: [44, 50] },
+  kicking_points: { label: 'Kicking Points', range: [6, 9] },
+  extra_points_made: { label: 'Extra Points Made', range: [2, 3] },
+}
+
+const DEFENSE_PROP_LINES: Partial<Record<BetType, PropLine>> = {
+  defensive_sacks: { label: 'Sacks', range: [1, 3] },
+  defensive_tackles: { label: 'Tackles', range: [55, 65] },
+  defensive_interceptions: { label: 'Interceptions', range: [0, 1] },
+  defensive_forced_fumbles: { label: 'Forced Fumbles', range: [0, 1] },
+  defensive_turnovers: { label: 'Turnovers', range: [0, 2] },
+}
+
+const CONFIDENCE_RANGES: Record<RiskLevel, [number, number]> = {
+  conservative: [0.65, 0.8],
+  moderate: [0.55, 0.7],
+  aggressive: [0.4, 0.6],
+}
+
+/** FNV-1a; turns request parameters into a stable default seed */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/** mulberry32 PRNG: small, fast and deterministic for a given seed */
+function createRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function shuffle<T>(random: Random, items: T[]): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+function hook(random: Random, [min, max]: [number, number]): number {
+  return randomInt(random, min, max) + 0.5
+}
+
+function nickname(name: string): string {
+  return name.split(' ').pop() ?? name
+}
+
+function winPct(record: string): number {
+  const [wins = 0, losses = 0, ties = 0] = record.split('-').map(Number)
+  const games = wins + losses + ties
+  return games > 0 ? (wins + ties / 2) / games : 0.5
+}
+
+/** The better record is the mock favorite; home field breaks ties */
+function getFavorite(game: GameItem): TeamSide {
+  return winPct(game.away.overallRecord) > winPct(game.home.overallRecord)
+    ? 'away'
+    : 'home'
+}
+
+function pickPlayer(
+  random: Random,
+  context: GameContext,
+  leader: Leader | undefined
+): string {
+  const unavailable = new Set(getUnavailablePlayers(context))
+  const leaderName = leader
+    ? context.gameData.leaders?.[leader]?.name
+    : undefined
+  if (leaderName && leaderName !== 'Unknown' && !unavailable.has(leaderName)) {
+    return leaderName
+  }
+  const players: RosterPlayer[] = [
+    ...getStarters(context.rosters.home),
+    ...getStarters(context.rosters.away),
+  ].filter(player => !unavailable.has(player.name))
+  return players.length > 0 ? pick(random, players).name : 'Starting QB'
+}
+
+function overUnder(random: Random): 'Over' | 'Under' {
+  return random() < 0.5 ? 'Over' : 'Under'
+}
+
+function buildLeg(
+  random: Random,
+  betType: BetType,
+  context: GameContext,
+  riskLevel: RiskLevel
+): AILeg {
+  const game = context.gameData
+  const favorite = getFavorite(game)
+  const side: TeamSide =
+    random() < (riskLevel === 'aggressive' ? 0.4 : 0.7)
+      ? favorite
+      : favorite === 'home'
+        ? 'away'
+        : 'home'
+  const team = game[side]
+  const teamName = nickname(team.name)
+  const period = betType.startsWith('first_half_')
+    ? 'first_half'
+    : betType.startsWith('second_half_')
+      ? 'second_half'
+      : betType.startsWith('first_quarter_')
+        ? 'first_quarter'
+        : 'game'
+  const periodLabel = {
+    game: '',
+    first_half: 'First Half ',
+    second_half: 'Second Half ',
+    first_quarter: 'First Quarter ',
+  }[period]
+  const periodScale = {
+    game: 1,
+    first_half: 0.5,
+    second_half: 0.5,
+    first_quarter: 0.25,
+  }[period]
+  const [minConf, maxConf] = CONFIDENCE_RANGES[riskLevel]
+  const confidence =
+    Math.round((minConf + random() * (maxConf - minConf)) * 100) / 100
+  const record = `${team.name} (${team.overallRecord})`
+  const base = { betType, confidence, period } as const
+
+  if (betType === 'moneyline') {
+    const odds =
+      side === favorite
+        ? -randomInt(random, 115, 180)
+        : randomInt(random, 105, 170)
+    return {
+      ...base,
+      selection: `${teamName} Moneyline`,
+      subject: { type: 'team', name: team.name },
+      odds,
+      reasoning: `${record} ${side === favorite ? 'holds the stronger record' : 'offers value as the underdog'} heading into this matchup.`,
+    }
+  }
+
+  if (betType.endsWith('spread')) {
+    const magnitude = Math.floor(randomInt(random, 1, 6) * periodScale) + 0.5
+    const line = side === favorite ? -magnitude : magnitude
+    return {
+      ...base,
+      selection: `${teamName} ${line > 0 ? '+' : ''}${line}${periodLabel ? ` ${periodLabel.trim()}` : ''}`,
+      subject: { type: 'team', name: team.name },
+      line,
+      odds: betType === 'alt_spread' ? randomInt(random, 120, 180) : -110,
+      reasoning: `${record} ${line < 0 ? 'should cover as the favorite' : 'keeps this close with the points'} based on recent form (home ${game.home.homeRecord}, road ${game.away.roadRecord}).`,
+    }
+  }
+
+  if (
+    betType === 'total' ||
+    betType === 'alt_total' ||
+    betType.endsWith('_total')
+  ) {
+    const line = Math.floor(randomInt(random, 40, 51) * periodScale) + 0.5
+    const ou = overUnder(random)
+    return {
+      ...base,
+      selection: `${ou} ${line} ${periodLabel}Total Points`,
+      subject: { type: 'game', name: `${game.away.name} @ ${game.home.name}` },
+      side: ou === 'Over' ? 'over' : 'under',
+      line,
+      odds: betType === 'alt_total' ? randomInt(random, 120, 170) : -110,
+      reasoning: `Both offenses' form (${game.away.overallRecord} vs ${game.home.overallRecord}) points to the ${ou.toLowerCase()}${game.weather ? ` with ${game.weather.condition.toLowerCase()} conditions` : ''}.`,
+    }
+  }
+
+  if (betType.startsWith('team_total_points')) {
+    const ou = betType.endsWith('_over')
+      ? 'Over'
+      : betType.endsWith('_under')
+        ? 'Under'
+        : overUnder(random)
+    const line = hook(random, [17, 27])
+    return {
+      ...base,
+      selection: `${teamName} ${ou} ${line} Points`,
+      subject: { type: 'team', name: team.name },
+      side: ou === 'Over' ? 'over' : 'under',
+      line,
+      odds: -110,
+      reasoning: `${record} projects ${ou === 'Over' ? 'above' : 'below'} ${line} points given its scoring profile this season.`,
+    }
+  }
+
+  const playerProp = PLAYER_PROP_LINES[betType]
+  if (playerProp) {
+    const player = pickPlayer(random, context, playerProp.leader)
+    const ou = overUnder(random)
+    const line = hook(random, playerProp.range)
+    return {
+      ...base,
+      selection: `${player} ${ou} ${line} ${playerProp.label}`,
+      subject: { type: 'player', name: player },
+      side: ou === 'Over' ? 'over' : 'under',
+      line,
+      odds: betType.includes('_alt_')
+        ? -randomInt(random, 200, 300)
+        : -randomInt(random, 105, 125),
+      reasoning: `${player} has a clear role in this matchup; the ${playerProp.label.toLowerCase()} line of ${line} looks ${ou === 'Over' ? 'low' : 'high'} for this game script.`,
+    }
+  }
+
+  if (
+    betType === 'player_anytime_td' ||
+    betType === 'player_first_td' ||
+    betType === 'player_last_td'
+  ) {
+    const player = pickPlayer(
+      random,
+      context,
+      pick(random, ['rushing', 'receiving'] as const)
+    )
+    const label = {
+      player_anytime_td: 'Anytime TD',
+      player_first_td: 'First TD',
+      player_last_td: 'Last TD',
+    }[betType]
+    return {
+      ...base,
+      selection: `${player} ${label}`,
+      subject: { type: 'player', name: player },
+      side: 'yes',
+      odds:
+        betType === 'player_anytime_td'
+          ? randomInt(random, 110, 220)
+          : randomInt(random, 550, 900),
+      reasoning: `${player} is a primary red-zone option, making a ${label.toLowerCase()} a reasonable shot.`,
+    }
+  }
+
+  if (
+    betType === 'defensive_touchdowns' ||
+    betType === 'special_teams_touchdowns'
+  ) {
+    const label =
+      betType === 'defensive_touchdowns' ? 'Defensive TD' : 'Special Teams TD'
+    return {
+      ...base,
+      selection: `${teamName} ${label}`,
+      subject: { type: 'team', name: team.name },
+      side: 'yes',
+      odds: randomInt(random, 450, 700),
+      reasoning: `${record} has generated splash plays this season; a long-shot ${label.toLowerCase()} adds upside.`,
+    }
+  }
+
+  const teamProp = TEAM_PROP_LINES[betType] ?? DEFENSE_PROP_LINES[betType]
+  const isDefense = !!DEFENSE_PROP_LINES[betType]
+  const prop = teamProp ?? {
+    label: 'Points',
+    range: [17, 27] as [number, number],
+  }
+  const ou = overUnder(random)
+  const line = hook(random, prop.range)
+  return {
+    ...base,
+    selection: `${teamName}${isDefense ? ' Defense' : ''} ${ou} ${line} ${prop.label}`,
+    subject: { type: 'team', name: team.name },
+    side: ou === 'Over' ? 'over' : 'under',
+    line,
+    odds: -randomInt(random, 105, 130),
+    reasoning: `${record}'s ${isDefense ? 'defense' : 'special teams unit'} trends ${ou === 'Over' ? 'above' : 'below'} ${line} ${prop.label.toLowerCase()} against comparable opponents.`,
+  }
+}
+
+/**
+ * Spread bet types across the requested legs: each type is used once before
+ * any repeats, and duplicate selections are regenerated where possible
+ */
+function buildLegs(
+  random: Random,
+  count: number,
+  allowedBetTypes: BetType[],
+  context: GameContext,
+  riskLevel: RiskLevel,
+  taken: Set<string>
+): AILeg[] {
+  const legs: AILeg[] = []
+  let queue: BetType[] = []
+  let attempts = 0
+  while (legs.length < count) {
+    attempts++
+    if (queue.length === 0) {
+      queue = shuffle(random, allowedBetTypes)
+    }
+    const betType = queue.shift() as BetType
+    const leg = buildLeg(random, betType, context, riskLevel)
+    // A narrow bet type filter may not have enough distinct selections
+    if (taken.has(leg.selection) && attempts < count * 20) {
+      continue
+    }
+    taken.add(leg.selection)
+    legs.push(leg)
+  }
+  return legs
+}
+
+function buildPrediction(random: Random, game: GameItem) {
+  const favorite = getFavorite(game)
+  const winnerScore = randomInt(random, 21, 34)
+  const loserScore = winnerScore - randomInt(random, 1, 10)
+  return {
+    winner: game[favorite].name,
+    projectedScore: {
+      home: favorite === 'home' ? winnerScore : loserScore,
+      away: favorite === 'away' ? winnerScore : loserScore,
+    },
+    winProbability: Math.round((0.52 + random() * 0.2) * 100) / 100,
+  }
+}
+
+function buildKeyFactors(game: GameItem): string[] {
+  return [
+    `${game.away.name} road record: ${game.away.roadRecord}`,
+    `${game.home.name} home record: ${game.home.homeRecord}`,
+    game.venue.name
+      ? `Venue: ${game.venue.name}${game.venue.city ? ` (${game.venue.city})` : ''}`
+      : `Overall records: ${game.away.overallRecord} vs ${game.home.overallRecord}`,
+  ]
+}
+
+function getSeed(
+  seed: number | undefined,
+  parts: Array<string | number>
+): number {
+  return seed ?? hashSeed(parts.join('|'))
+}
+
+/**
+ * Deterministic offline provider. The same request (or explicit seed) always
+ * produces the same schema-valid parlay, built from the game's records,
+ * leaders and rosters. Used by the emulator and dev/test users.
+ */
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  model: 'mock-v1',
+
+  isAvailable() {
+    return true
+  },
+
+  async generateParlay(request) {
+    const { gameData, numLegs, riskLevel, allowedBetTypes } = request
+    const random = createRandom(
+      getSeed(request.seed, [
+        gameData.gameId,
+        numLegs,
+        riskLevel,
+        ...allowedBetTypes,
+      ])
+    )
+    const legs = buildLegs(
+      random,
+      numLegs,
+      allowedBetTypes,
+      request,
+      riskLevel,
+      new Set()
+    )
+    const prediction = buildPrediction(random, gameData)
+    const parsed = createAIGenerateResponseSchema(
+      numLegs,
+      allowedBetTypes,
+      getUnavailablePlayers(request)
+    ).safeParse({
+      legs,
+      analysisSummary: {
+        matchupSummary: `${gameData.away.name} (${gameData.away.overallRecord}) visit ${gameData.home.name} (${gameData.home.overallRecord}) in ${describeWeek(gameData)}. This is a mock analysis generated without an AI model.`,
+        keyFactors: buildKeyFactors(gameData),
+        gamePrediction: prediction,
+      },
+    })
+    if (!parsed.success) {
+      console.error('Mock provider produced invalid output', {
+        error: parsed.error.flatten(),
+      })
+      return null
+    }
+    return { data: parsed.data, attemptCount: 1, fallbackUsed: false }
+  },
+
+  async generateMultiGameParlay(request) {
+    const { games, numLegs, riskLevel, allowedBetTypes } = request
+    const gameIds = games.map(g => g.gameData.gameId)
+    const random = createRandom(
+      getSeed(request.seed, [
+        ...gameIds,
+        numLegs,
+        riskLevel,
+        ...allowedBetTypes,
+      ])
+    )
+
+    // Round-robin leg counts so every game gets at least one leg
+    const taken = new Set<string>()
+    const legs = games.flatMap((context, i) => {
+      const count =
+        Math.floor(numLegs / games.length) +
+        (i < numLegs % games.length ? 1 : 0)
+      return buildLegs(
+        random,
+        count,
+        allowedBetTypes,
+        context,
+        riskLevel,
+        taken
+      ).map(leg => ({ ...leg, gameId: context.gameData.gameId }))
+    })
+
+    const parsed = createAIMultiGameResponseSchema(
+      numLegs,
+      allowedBetTypes,
+      gameIds,
+      games.flatMap(getUnavailablePlayers)
+    ).safeParse({
+      legs,
+      analysisSummary: {
+        matchupSummary: `Mock ${games.length}-game slate: ${games
+          .map(g => `${g.gameData.away.abbrev} @ ${g.gameData.home.abbrev}`)
+          .join(', ')}. This is a mock analysis generated without an AI model.`,
+        keyFactors: games
+          .flatMap(g => buildKeyFactors(g.gameData))
+          .slice(0, 10),
+        gamePredictions: games.map(g => ({
+          gameId: g.gameData.gameId,
+          ...buildPrediction(random, g.gameData),
+        })),
+      },
+    })
+    if (!parsed.success) {
+      console.error('Mock provider produced invalid output', {
+        error: parsed.error.flatten(),
+      })
+      return null
+    }
+    return { data: parsed.data, attemptCount: 1, fallbackUsed: false }
+  },
+}
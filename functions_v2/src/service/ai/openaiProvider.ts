@@ -0,0 +1,74 @@
+import { completeParlayJson } from './completion'
+import { getOpenAI } from './openai'
+import { getUnavailablePlayers, type AIProvider } from './provider'
+import { buildMultiGameParlayPrompt, buildParlayPrompt } from './promptBuilder'
+import {
+  createAIGenerateResponseSchema,
+  createAIMultiGameResponseSchema,
+} from './schemas'
+import { peekRuntimeConfig } from '../runtimeConfig'
+
+export const openAIProvider: AIProvider = {
+  name: 'openai',
+  // The model from `config/ai`, as loaded by the last completion
+  get model() {
+    return peekRuntimeConfig('ai').model
+  },
+
+  isAvailable() {
+    return !!process.env.OPENAI_API_KEY
+  },
+
+  async generateParlay(request) {
+    const {
+      gameData,
+      rosters,
+      injuries,
+      playerStats,
+      numLegs,
+      riskLevel,
+      allowedBetTypes,
+    } = request
+    return completeParlayJson({
+      prompt: buildParlayPrompt({
+        gameData,
+        rosters,
+        injuries,
+        playerStats,
+        numLegs,
+        riskLevel,
+        allowedBetTypes,
+      }),
+      numLegs,
+      riskLevel,
+      allowedBetTypes,
+      schema: createAIGenerateResponseSchema(
+        numLegs,
+        allowedBetTypes,
+        getUnavailablePlayers(request)
+      ),
+    })
+  },
+
+  async generateMultiGameParlay(request) {
+    const { games, numLegs, riskLevel, allowedBetTypes } = request
+    const gameData = games.map(g => g.gameData)
+    return completeParlayJson({
+      prompt: buildMultiGameParlayPrompt({
+        games,
+        numLegs,
+        riskLevel,
+        allowedBetTypes,
+      }),
+      numLegs,
+      riskLevel,
+      allowedBetTypes,
+      schema: createAIMultiGameResponseSchema(
+        numLegs,
+        allowedBetTypes,
+        gameData.map(g => g.gameId),
+        games.flatMap(getUnavailablePlayers)
+      ),
+    })
+  },
+}
@@ -1,13 +1,19 @@
-import type { GameItem } from '../../providers/espn'
-import { BetTypeEnum } from './schemas'
+import {
+  describeWeek,
+  type GameItem,
+  type PlayerInjury,
+  type RosterPlayer,
+} from '../../providers/espn'
+import {
+  POSITION_STATS,
+  RECENT_GAMES,
+  type TeamPlayerStats,
+} from '../playerStats'
+import { getStarters, type GameContext } from './provider'
+import type { BetType } from './schemas'
 
-// All available bet types - will be filtered by gameData.betType in the future
-const ALL_BET_TYPES = BetTypeEnum.options
-
-function getAvailableBetTypes(_gameData: GameItem): string {
-  // TODO: When betTypes is passed from the request, filter ALL_BET_TYPES based on gameData.betType
-  // For now, return all bet types as a joined string
-  return ALL_BET_TYPES.join(', ')
+function getAvailableBetTypes(allowedBetTypes: BetType[]): string {
+  return allowedBetTypes.join(', ')
 }
 
 function getRiskLevelGuidance(
@@ -25,22 +31,144 @@ function getRiskLevelGuidance(
   }
 }
 
-function buildGameContext(gameData: GameItem): string {
+const INJURY_STATUS_LABELS: Record<PlayerInjury['status'], string> = {
+  out: 'OUT',
+  doubtful: 'Doubtful',
+  questionable: 'Questionable',
+}
+
+function formatInjuries(abbrev: string, injuries: PlayerInjury[]): string {
+  if (injuries.length === 0) {
+    return `\n  - ${abbrev}: none reported`
+  }
+  const players = injuries
+    .map(
+      i =>
+        `${i.name}${i.position ? ` (${i.position})` : ''} - ${INJURY_STATUS_LABELS[i.status]}${i.injury ? `, ${i.injury}` : ''}`
+    )
+    .join('; ')
+  return `\n  - ${abbrev}: ${players}`
+}
+
+function buildInjuryReport(
+  gameData: GameItem,
+  injuries: GameContext['injuries']
+): string {
+  return (
+    `\n- Injury Report:` +
+    formatInjuries(gameData.away.abbrev, injuries.away) +
+    formatInjuries(gameData.home.abbrev, injuries.home)
+  )
+}
+
+function describeWeather({ venue, weather }: GameItem): string {
+  if (venue.roof === 'dome') {
+    return 'Indoors (dome); weather is not a factor'
+  }
+  if (!weather) {
+    return 'Not available'
+  }
+  return (
+    `${weather.condition}, ${weather.temperatureF}°F, ${weather.windMph} mph winds` +
+    (weather.precipitationChance != null
+      ? `, ${weather.precipitationChance}% chance of precipitation`
+      : '') +
+    (venue.roof === 'retractable'
+      ? ' (retractable roof; likely closed in poor conditions)'
+      : '')
+  )
+}
+
+function formatStarters(abbrev: string, roster: RosterPlayer[]): string {
+  const starters = getStarters(roster)
+  if (starters.length === 0) {
+    return `\n  - ${abbrev}: not available`
+  }
+  const players = starters
+    .map(p => `${p.position} ${p.name}${p.jersey ? ` #${p.jersey}` : ''}`)
+    .join(', ')
+  return `\n  - ${abbrev}: ${players}`
+}
+
+function buildStartersSection(
+  gameData: GameItem,
+  rosters: GameContext['rosters']
+): string {
+  return (
+    `\n- Projected Starters:` +
+    formatStarters(gameData.away.abbrev, rosters.away) +
+    formatStarters(gameData.home.abbrev, rosters.home)
+  )
+}
+
+// Short column labels keep the stats table compact
+const STAT_LABELS: Record<string, string> = {
+  passingYards: 'Pass Yds',
+  passingTouchdowns: 'Pass TD',
+  interceptions: 'INT',
+  completions: 'Cmp',
+  passingAttempts: 'Att',
+  rushingAttempts: 'Rush Att',
+  rushingYards: 'Rush Yds',
+  rushingTouchdowns: 'Rush TD',
+  receptions: 'Rec',
+  receivingTargets: 'Tgt',
+  receivingYards: 'Rec Yds',
+  receivingTouchdowns: 'Rec TD',
+  longReception: 'Long',
+}
+
+function formatTeamStats(abbrev: string, stats: TeamPlayerStats): string {
+  if (stats.length === 0) {
+    return `\n  - ${abbrev}: not available`
+  }
+  const rows = stats.map(player => {
+    const columns = POSITION_STATS[player.position]
+      .map(
+        key =>
+          `${STAT_LABELS[key] ?? key} ${player.seasonAverages[key] ?? 0}|${player.recentAverages[key] ?? 0}`
+      )
+      .join(', ')
+    return `\n    ${player.name} (${player.position}, ${player.season} season, ${player.gamesPlayed} GP): ${columns}`
+  })
+  return `\n  - ${abbrev}:${rows.join('')}`
+}
+
+function buildPlayerStatsTable(
+  gameData: GameItem,
+  playerStats: GameContext['playerStats']
+): string {
+  return (
+    `\n- Player Stats (per game, season avg|last ${RECENT_GAMES}):` +
+    formatTeamStats(gameData.away.abbrev, playerStats.away) +
+    formatTeamStats(gameData.home.abbrev, playerStats.home)
+  )
+}
+
+function buildGameContext({
+  gameData,
+  rosters,
+  injuries,
+  playerStats,
+}: GameContext): string {
   return (
     `\nGame Context:` +
     `\n- Away Team: ${gameData.away.name} (${gameData.away.abbrev}) - Record: ${gameData.away.overallRecord} (Home: ${gameData.away.homeRecord}, Road: ${gameData.away.roadRecord})` +
     `\n- Home Team: ${gameData.home.name} (${gameData.home.abbrev}) - Record: ${gameData.home.overallRecord} (Home: ${gameData.home.homeRecord}, Road: ${gameData.home.roadRecord})` +
     `\n- Venue: ${gameData.venue.name}, ${gameData.venue.city}, ${gameData.venue.state}` +
-    `\n- Week: ${gameData.week}` +
+    `\n- Week: ${describeWeek(gameData)}` +
     `\n- Game Status: ${gameData.status}` +
-    `\n- Weather: ${gameData.weather ? `${gameData.weather.condition}, ${gameData.weather.temperatureF}°F, ${gameData.weather.windMph} mph winds` : 'Not available'}` +
+    `\n- Weather: ${describeWeather(gameData)}` +
     `\n- Game Leaders: ${
       gameData.leaders
         ? `Passing: ${gameData.leaders.passing?.name || 'N/A'} (${gameData.leaders.passing?.stats || 'N/A'}), ` +
           `Rushing: ${gameData.leaders.rushing?.name || 'N/A'} (${gameData.leaders.rushing?.stats || 'N/A'}), ` +
           `Receiving: ${gameData.leaders.receiving?.name || 'N/A'} (${gameData.leaders.receiving?.stats || 'N/A'})`
         : 'Not available'
-    }`
+    }` +
+    buildStartersSection(gameData, rosters) +
+    buildInjuryReport(gameData, injuries) +
+    buildPlayerStatsTable(gameData, playerStats)
   )
 }
 
@@ -63,7 +191,8 @@ function buildAnalysisGuidance(): string {
 }
 
 function buildLegGenerationRequirements(
-  riskLevel: 'conservative' | 'moderate' | 'aggressive'
+  riskLevel: 'conservative' | 'moderate' | 'aggressive',
+  numLegs: number
 ): string {
   return (
     `\n\nCRITICAL REQUIREMENTS FOR PARLAY LEGS - DATA-DRIVEN SELECTION:` +
@@ -71,16 +200,19 @@ function buildLegGenerationRequirements(
     `\n- Risk level ${riskLevel}: ${getRiskLevelGuidance(riskLevel)}` +
     `\n- Base selections on the actual team records, player stats, and venue data shown` +
     `\n- Use the game leaders' performance data to inform player prop selections` +
+    `\n- Anchor every player prop line to the player stats table: set lines near the season and last-${RECENT_GAMES} averages and explain any departure from them` +
     `\n- Consider the weather conditions and venue factors in your bet choices` +
     `\n- Match bet types to the specific strengths/weaknesses identified in the data` +
     `\n- If a team has strong home/road records, factor that into spread/total bets` +
-    `\n- Use the actual player names and stats from the game leaders section` +
-    `\n- Ensure all 3 legs work together based on the same analytical foundation` +
+    `\n- Use the actual player names from the projected starters, player stats and game leaders sections` +
+    `\n- Ensure all ${numLegs} legs work together based on the same analytical foundation` +
+    `\n- Every additional leg lowers the odds of the parlay hitting; with ${numLegs} legs, each selection must stand on its own merits` +
     `\n- Avoid contradictory bets (e.g., don't bet over total AND under total)` +
     `\n- Base odds on realistic expectations given the specific matchup data` +
     `\n- Confidence levels should reflect the strength of the supporting data` +
     `\n- If weather data shows wind/conditions, factor into passing/rushing bets` +
     `\n- Use venue-specific advantages (home field, altitude, etc.) in selections` +
+    `\n- NEVER create legs on players listed OUT in the injury report; treat Doubtful and Questionable players as risky` +
     `\n\nSELECTION FORMAT EXAMPLES:` +
     `\n- Team bets: "Seahawks -3.5", "Bills Over 24.5 Points", "Chiefs Moneyline"` +
     `\n- Player props: "Josh Allen Over 250 Passing Yards", "Derrick Henry Under 100 Rushing Yards", "Travis Kelce Anytime TD"` +
@@ -89,12 +221,22 @@ function buildLegGenerationRequirements(
   )
 }
 
-function buildOutputFormat(gameData: GameItem): string {
+// Structured leg fields; the server backfills anything missing from the selection
+const LEG_STRUCTURE_FIELDS =
+  'subject{type("team"|"player"|"game"),name(full team or player name as listed above)},' +
+  'side("over"|"under"|"yes"; omit for moneyline and spread),' +
+  'line(AS NUMBER: spread or over/under line; omit for moneyline and yes/no props),' +
+  'period("game"|"first_half"|"second_half"|"first_quarter")'
+
+function buildOutputFormat(
+  numLegs: number,
+  allowedBetTypes: BetType[]
+): string {
   return (
     `\n\nOutput JSON with fields: ` +
-    `"legs" (array of 3) with objects {betType,selection(STRING describing the bet),odds(AS NUMBER),confidence(0..1),reasoning(2-3 sentences explaining why this bet was chosen, citing specific stats, records, or data points from the game context)} and ` +
+    `"legs" (array of exactly ${numLegs}) with objects {betType,selection(STRING describing the bet),${LEG_STRUCTURE_FIELDS},odds(AS NUMBER),confidence(0..1),reasoning(2-3 sentences explaining why this bet was chosen, citing specific stats, records, or data points from the game context)} and ` +
     `"analysisSummary" {matchupSummary(detailed 5-7 sentences with comprehensive analysis),keyFactors[](3-5 specific factors),gamePrediction{winner,projectedScore{home,away},winProbability}}. ` +
-    `\n\nUse these bet types: ${getAvailableBetTypes(gameData)} ` +
+    `\n\nUse ONLY these bet types (any other betType will be rejected): ${getAvailableBetTypes(allowedBetTypes)} ` +
     `\n\nIMPORTANT: ` +
     `- odds must be numbers (e.g., -110, not "-110")` +
     `- selection must be a STRING describing the bet (e.g., "Seahawks Over 24.5 Points", "Josh Allen Over 250 Passing Yards", "Bills -3.5")` +
@@ -105,9 +247,58 @@ function buildOutputFormat(gameData: GameItem): string {
 
 export function buildParlayPrompt(params: {
   gameData: GameItem
+  rosters: GameContext['rosters']
+  injuries: GameContext['injuries']
+  playerStats: GameContext['playerStats']
+  numLegs: number
+  riskLevel: 'conservative' | 'moderate' | 'aggressive'
+  allowedBetTypes: BetType[]
+}): string {
+  const {
+    gameData,
+    rosters,
+    injuries,
+    playerStats,
+    numLegs,
+    riskLevel,
+    allowedBetTypes,
+  } = params
+
+  return `Generate a ${numLegs}-leg NFL parlay for this game: ${gameData.away.name} @ ${gameData.home.name} (${describeWeek(gameData)}, ${new Date(gameData.startTime).toLocaleDateString()}) at ${gameData.venue.name} in ${gameData.venue.city}, ${gameData.venue.state}.${buildGameContext({ gameData, rosters, injuries, playerStats })}\n\nRisk level: ${riskLevel}.${buildAnalysisGuidance()}\n\nGenerate realistic betting lines and selections based on this deep analysis.${buildLegGenerationRequirements(riskLevel, numLegs)}${buildOutputFormat(numLegs, allowedBetTypes)}`
+}
+
+function buildMultiGameOutputFormat(
+  numLegs: number,
+  allowedBetTypes: BetType[]
+): string {
+  return (
+    `\n\nOutput JSON with fields: ` +
+    `"legs" (array of exactly ${numLegs}) with objects {gameId(STRING, one of the game IDs above),betType,selection(STRING describing the bet),${LEG_STRUCTURE_FIELDS},odds(AS NUMBER),confidence(0..1),reasoning(2-3 sentences explaining why this bet was chosen, citing specific stats, records, or data points from that game's context)} and ` +
+    `"analysisSummary" {matchupSummary(5-7 sentences covering the slate and how the legs fit together),keyFactors[](3-5 specific factors),gamePredictions[](one per game: {gameId,winner,projectedScore{home,away},winProbability})}. ` +
+    `\n\nUse ONLY these bet types (any other betType will be rejected): ${getAvailableBetTypes(allowedBetTypes)} ` +
+    `\n\nIMPORTANT: ` +
+    `- every leg must carry the gameId of the game it belongs to` +
+    `- spread the legs across ALL listed games; every game needs at least one leg` +
+    `- odds must be numbers (e.g., -110, not "-110")` +
+    `- selection must be a STRING describing the bet (e.g., "Seahawks Over 24.5 Points", "Josh Allen Over 250 Passing Yards", "Bills -3.5")` +
+    `\n\nReturn ONLY JSON, no prose.`
+  )
+}
+
+export function buildMultiGameParlayPrompt(params: {
+  games: GameContext[]
+  numLegs: number
   riskLevel: 'conservative' | 'moderate' | 'aggressive'
+  allowedBetTypes: BetType[]
 }): string {
-  const { gameData, riskLevel } = params
+  const { games, numLegs, riskLevel, allowedBetTypes } = params
+  const gameSections = games
+    .map(
+      context =>
+        `\n\n=== Game ID ${context.gameData.gameId}: ${context.gameData.away.name} @ ${context.gameData.home.name} (${describeWeek(context.gameData)}, ${new Date(context.gameData.startTime).toLocaleDateString()}) ===` +
+        buildGameContext(context)
+    )
+    .join('')
 
-  return `Generate a 3-leg NFL parlay for this game: ${gameData.away.name} @ ${gameData.home.name} (Week ${gameData.week}, ${new Date(gameData.startTime).toLocaleDateString()}) at ${gameData.venue.name} in ${gameData.venue.city}, ${gameData.venue.state}.${buildGameContext(gameData)}\n\nRisk level: ${riskLevel}.${buildAnalysisGuidance()}\n\nGenerate realistic betting lines and selections based on this deep analysis.${buildLegGenerationRequirements(riskLevel)}${buildOutputFormat(gameData)}`
+  return `Generate a ${numLegs}-leg NFL parlay spread across these ${games.length} games.${gameSections}\n\nRisk level: ${riskLevel}.${buildAnalysisGuidance()}\n\nGenerate realistic betting lines and selections based on this deep analysis of each game.${buildLegGenerationRequirements(riskLevel, numLegs)}${buildMultiGameOutputFormat(numLegs, allowedBetTypes)}`
 }
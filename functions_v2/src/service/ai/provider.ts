@@ -0,0 +1,89 @@
+import type { GameItem, PlayerInjury, RosterPlayer } from '../../providers/espn'
+import type { TeamPlayerStats } from '../playerStats'
+import type { CompletionResult, RiskLevel } from './completion'
+import type {
+  AIGenerateResponse,
+  AIMultiGameResponse,
+  BetType,
+} from './schemas'
+
+export const AI_PROVIDER_NAMES = ['openai', 'mock'] as const
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number]
+
+export type GameContext = {
+  gameData: GameItem
+  rosters: { home: RosterPlayer[]; away: RosterPlayer[] }
+  injuries: { home: PlayerInjury[]; away: PlayerInjury[] }
+  playerStats: { home: TeamPlayerStats; away: TeamPlayerStats }
+}
+
+/**
+ * Names of players ruled out for the game; legs on them are rejected
+ */
+export function getUnavailablePlayers(context: GameContext): string[] {
+  return [...context.injuries.home, ...context.injuries.away]
+    .filter(injury => injury.status === 'out')
+    .map(injury => injury.name)
+}
+
+// Starting slots per position in the lineup the prompt shows
+const STARTER_SLOTS: Record<string, number> = {
+  QB: 1,
+  RB: 1,
+  WR: 3,
+  TE: 1,
+  K: 1,
+}
+
+/**
+ * A team's starting skill players and kicker, by depth chart rank. Players
+ * not on the active roster are skipped; unranked players fall back to roster
+ * order.
+ */
+export function getStarters(roster: RosterPlayer[]): RosterPlayer[] {
+  return Object.entries(STARTER_SLOTS).flatMap(([position, slots]) =>
+    roster
+      .filter(
+        player =>
+          player.position === position &&
+          (!player.status || player.status === 'Active')
+      )
+      .sort(
+        (a, b) =>
+          (a.depth ?? Number.MAX_SAFE_INTEGER) -
+          (b.depth ?? Number.MAX_SAFE_INTEGER)
+      )
+      .slice(0, slots)
+  )
+}
+
+export type ParlayGenerationRequest = GameContext & {
+  numLegs: number
+  riskLevel: RiskLevel
+  allowedBetTypes: BetType[]
+  seed?: number
+}
+
+export type MultiGameGenerationRequest = {
+  games: GameContext[]
+  numLegs: number
+  riskLevel: RiskLevel
+  allowedBetTypes: BetType[]
+  seed?: number
+}
+
+/**
+ * A source of parlay legs. Implementations return schema-valid output, with
+ * how many attempts it took, or null when generation fails.
+ */
+export interface AIProvider {
+  readonly name: AIProviderName
+  readonly model: string
+  isAvailable(): boolean
+  generateParlay(
+    request: ParlayGenerationRequest
+  ): Promise<CompletionResult<AIGenerateResponse> | null>
+  generateMultiGameParlay(
+    request: MultiGameGenerationRequest
+  ): Promise<CompletionResult<AIMultiGameResponse> | null>
+}
@@ -0,0 +1,35 @@
+import { mockProvider } from './mockProvider'
+import { openAIProvider } from './openaiProvider'
+import {
+  AI_PROVIDER_NAMES,
+  type AIProvider,
+  type AIProviderName,
+} from './provider'
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  openai: openAIProvider,
+  mock: mockProvider,
+}
+
+export function getAIProvider(name: AIProviderName): AIProvider {
+  return PROVIDERS[name]
+}
+
+/**
+ * Select the default provider from AI_PROVIDER ('openai' | 'mock'). The
+ * emulator falls back to the mock when no OpenAI key is configured.
+ */
+export function getDefaultAIProviderName(): AIProviderName {
+  const configured = process.env.AI_PROVIDER
+  if (configured) {
+    if (AI_PROVIDER_NAMES.includes(configured as AIProviderName)) {
+      return configured as AIProviderName
+    }
+    console.error('Unknown AI_PROVIDER, using openai', { configured })
+    return 'openai'
+  }
+  return process.env.FUNCTIONS_EMULATOR === 'true' &&
+    !process.env.OPENAI_API_KEY
+    ? 'mock'
+    : 'openai'
+}
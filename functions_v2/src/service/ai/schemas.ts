@@ -1,4 +1,8 @@
 import { z } from 'zod'
+import { findPlayerByName, normalizeName } from '../markets/parser'
+
+export const MIN_PARLAY_LEGS = 2
+export const MAX_PARLAY_LEGS = 10
 
 export const BetTypeEnum = z.enum([
   'spread',
@@ -54,14 +58,43 @@ export const BetTypeEnum = z.enum([
   'player_alt_passing_yards',
 ])
 
-export const AILegSchema = z.object({
-  betType: BetTypeEnum,
-  selection: z.string().min(1),
-  odds: z.number().int(),
-  confidence: z.number().min(0).max(1),
-  reasoning: z.string().min(1),
+export const LegSubjectSchema = z.object({
+  type: z.enum(['team', 'player', 'game']),
+  // ESPN team or player id, resolved server-side from rosterDataUsed
+  id: z.string().min(1).optional(),
+  name: z.string().min(1),
+})
+
+export const LegSideEnum = z.enum(['over', 'under', 'yes'])
+export const LegPeriodEnum = z.enum([
+  'game',
+  'first_half',
+  'second_half',
+  'first_quarter',
+])
+
+/**
+ * Structured description of a leg. The model is asked to fill these in;
+ * anything it omits is backfilled by parsing the selection string.
+ */
+export const LegStructureSchema = z.object({
+  subject: LegSubjectSchema.optional(),
+  market: z.string().min(1).optional(),
+  side: LegSideEnum.optional(),
+  line: z.number().optional(),
+  period: LegPeriodEnum.optional(),
 })
 
+export const AILegSchema = z
+  .object({
+    betType: BetTypeEnum,
+    selection: z.string().min(1),
+    odds: z.number().int(),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string().min(1),
+  })
+  .merge(LegStructureSchema)
+
 export const AIAnalysisSchema = z.object({
   matchupSummary: z.string().min(1),
   keyFactors: z.array(z.string().min(1)).min(1).max(10),
@@ -76,10 +109,146 @@ export const AIAnalysisSchema = z.object({
 })
 
 export const AIGenerateResponseSchema = z.object({
-  legs: z.array(AILegSchema).length(3),
+  legs: z.array(AILegSchema).min(MIN_PARLAY_LEGS).max(MAX_PARLAY_LEGS),
   analysisSummary: AIAnalysisSchema,
 })
 
+export type BetType = z.infer<typeof BetTypeEnum>
+export type LegSubject = z.infer<typeof LegSubjectSchema>
+export type LegSide = z.infer<typeof LegSideEnum>
+export type LegPeriod = z.infer<typeof LegPeriodEnum>
+export type LegStructure = z.infer<typeof LegStructureSchema>
+export type BetTypeFilter = 'all' | BetType[]
+
+/**
+ * Resolve a request's bet type filter to the concrete list of allowed bet types
+ */
+export function resolveAllowedBetTypes(betTypes: BetTypeFilter): BetType[] {
+  if (betTypes === 'all' || betTypes.length === 0) {
+    return [...BetTypeEnum.options]
+  }
+  return BetTypeEnum.options.filter(type => betTypes.includes(type))
+}
+
+/**
+ * Reject legs on a player who is ruled out. Names are compared whole, against
+ * the leg's subject when it has one and the selection text otherwise.
+ */
+function rejectUnavailablePlayers(unavailablePlayers: string[]) {
+  const players = unavailablePlayers.map(name => ({
+    name,
+    normalized: normalizeName(name),
+  }))
+  const findPlayer = (leg: { selection: string; subject?: LegSubject }) => {
+    if (leg.subject) {
+      return leg.subject.type === 'player'
+        ? findPlayerByName(players, leg.subject.name)
+        : null
+    }
+    const words = ` ${normalizeName(leg.selection)} `
+    return players.find(p => words.includes(` ${p.normalized} `)) ?? null
+  }
+  return (
+    leg: { selection: string; subject?: LegSubject },
+    ctx: z.RefinementCtx
+  ) => {
+    const player = findPlayer(leg)
+    if (player) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['selection'],
+        message: `${player.name} is listed Out; pick a leg on an available player`,
+      })
+    }
+  }
+}
+
+/**
+ * Response schema bound to the leg count and bet types requested by the
+ * caller, rejecting legs on players who are ruled out
+ */
+export function createAIGenerateResponseSchema(
+  numLegs: number,
+  allowedBetTypes: BetType[] = BetTypeEnum.options,
+  unavailablePlayers: string[] = []
+) {
+  const legSchema = AILegSchema.extend({
+    betType: BetTypeEnum.refine(type => allowedBetTypes.includes(type), {
+      message: 'betType is not in the requested bet types',
+    }),
+  }).superRefine(rejectUnavailablePlayers(unavailablePlayers))
+  return AIGenerateResponseSchema.extend({
+    legs: z.array(legSchema).length(numLegs),
+  })
+}
+
+export const AIGamePredictionSchema = AIAnalysisSchema.shape.gamePrediction
+
+export const AIMultiGameLegSchema = AILegSchema.extend({
+  gameId: z.string().min(1),
+})
+
+export const AIMultiGameAnalysisSchema = z.object({
+  matchupSummary: z.string().min(1),
+  keyFactors: z.array(z.string().min(1)).min(1).max(10),
+  gamePredictions: z
+    .array(AIGamePredictionSchema.extend({ gameId: z.string().min(1) }))
+    .min(1),
+})
+
+export const AIMultiGameResponseSchema = z.object({
+  legs: z.array(AIMultiGameLegSchema).min(MIN_PARLAY_LEGS).max(MAX_PARLAY_LEGS),
+  analysisSummary: AIMultiGameAnalysisSchema,
+})
+
+/**
+ * Multi-game response schema: every leg and prediction must reference one of
+ * the requested games, every requested game must be covered by a leg and get
+ * one prediction, and no leg may be on a player who is ruled out
+ */
+export function createAIMultiGameResponseSchema(
+  numLegs: number,
+  allowedBetTypes: BetType[],
+  gameIds: string[],
+  unavailablePlayers: string[] = []
+) {
+  const isRequestedGame = (gameId: string) => gameIds.includes(gameId)
+  const legSchema = AIMultiGameLegSchema.extend({
+    betType: BetTypeEnum.refine(type => allowedBetTypes.includes(type), {
+      message: 'betType is not in the requested bet types',
+    }),
+    gameId: z.string().refine(isRequestedGame, {
+      message: 'gameId is not one of the requested games',
+    }),
+  }).superRefine(rejectUnavailablePlayers(unavailablePlayers))
+  return AIMultiGameResponseSchema.extend({
+    legs: z
+      .array(legSchema)
+      .length(numLegs)
+      .refine(legs => gameIds.every(id => legs.some(l => l.gameId === id)), {
+        message: 'legs must cover every requested game',
+      }),
+    analysisSummary: AIMultiGameAnalysisSchema.extend({
+      gamePredictions: z
+        .array(
+          AIGamePredictionSchema.extend({
+            gameId: z.string().refine(isRequestedGame, {
+              message: 'gameId is not one of the requested games',
+            }),
+          })
+        )
+        .length(gameIds.length)
+        .refine(
+          predictions =>
+            gameIds.every(id => predictions.some(p => p.gameId === id)),
+          { message: 'gamePredictions must cover every requested game' }
+        ),
+    }),
+  })
+}
+
 export type AIGenerateResponse = z.infer<typeof AIGenerateResponseSchema>
+export type AIMultiGameResponse = z.infer<typeof AIMultiGameResponseSchema>
 export type AILeg = z.infer<typeof AILegSchema>
 export type AIAnalysis = z.infer<typeof AIAnalysisSchema>
+export type AIMultiGameLeg = z.infer<typeof AIMultiGameLegSchema>
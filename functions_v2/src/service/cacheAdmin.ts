@@ -0,0 +1,86 @@
+import { fetchGamesForWeek, type CurrentWeek } from '../providers/espn'
+import { getInjuryProvider } from '../providers/injuries'
+import { getWeatherProvider } from '../providers/weather'
+import {
+  deleteCached,
+  getCached,
+  setCached,
+  type CacheKey,
+} from '../utils/cache'
+import { cacheKeys } from './cacheKeys'
+import {
+  getGamesForWeek,
+  getTeamInjuries,
+  getTeamRoster,
+  withGameWeather,
+} from './games'
+
+export type WeekCacheResult = { keys: string[] }
+
+function weekCacheKeys(
+  ref: CurrentWeek,
+  gameIds: string[],
+  teamIds: string[]
+): CacheKey<unknown>[] {
+  const injuryProvider = getInjuryProvider()
+  const weatherProvider = getWeatherProvider()
+  return [
+    cacheKeys.games(ref.season, ref.seasonType, ref.week),
+    ...gameIds.flatMap(gameId => [
+      cacheKeys.gameWeek(gameId),
+      ...(weatherProvider
+        ? [cacheKeys.weather(weatherProvider.name, gameId)]
+        : []),
+    ]),
+    ...teamIds.flatMap(teamId => [
+      cacheKeys.roster(ref.season, teamId),
+      ...(injuryProvider
+        ? [cacheKeys.injuries(injuryProvider.name, teamId)]
+        : []),
+    ]),
+  ]
+}
+
+/**
+ * Delete everything cached for a week: its scoreboard, the game-to-week index
+ * and forecasts for its games, and the rosters and injury reports of the
+ * teams playing. Player stats are left to expire on their own.
+ */
+export async function purgeWeekCache(
+  ref: CurrentWeek
+): Promise<WeekCacheResult> {
+  const games =
+    (await getCached(cacheKeys.games(ref.season, ref.seasonType, ref.week))) ??
+    (await fetchGamesForWeek(ref.week, ref.seasonType, ref.season))
+  const keys = weekCacheKeys(
+    ref,
+    games.map(g => g.gameId),
+    games.flatMap(g => [g.home.teamId, g.away.teamId])
+  )
+  await Promise.all(keys.map(deleteCached))
+  return { keys: keys.map(k => k.key) }
+}
+
+/**
+ * Load a week's scoreboard, rosters, injury reports and forecasts into the
+ * cache ahead of traffic. Fresh entries are left alone; purge first to force
+ * a refetch.
+ */
+export async function prewarmWeekCache(
+  ref: CurrentWeek
+): Promise<WeekCacheResult> {
+  const games = await getGamesForWeek(ref.week, ref.seasonType, ref.season)
+  const teamIds = games.flatMap(g => [g.home.teamId, g.away.teamId])
+  await Promise.all([
+    ...games.map(g => setCached(cacheKeys.gameWeek(g.gameId), ref)),
+    ...games.map(withGameWeather),
+    ...teamIds.map(teamId => getTeamRoster(teamId, ref.season)),
+    ...teamIds.map(getTeamInjuries),
+  ])
+  const keys = weekCacheKeys(
+    ref,
+    games.map(g => g.gameId),
+    teamIds
+  )
+  return { keys: keys.map(k => k.key) }
+}
@@ -0,0 +1,96 @@
+import type {
+  CurrentWeek,
+  GameItem,
+  GameWeather,
+  PlayerInjury,
+  RosterPlayer,
+  SeasonType,
+} from '../providers/espn'
+import type { GameOdds } from '../providers/odds'
+import type { CacheKey } from '../utils/cache'
+import type { PlayerStatsSummary } from './playerStats'
+import { peekRuntimeConfig } from './runtimeConfig'
+
+type CachePolicy = { ttlMs: number; staleMs?: number }
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+// Scoreboards, rosters and the current week may be served this much past
+// their TTL while a background fetch refreshes them
+const STALE_WHILE_REVALIDATE_MS = HOUR_MS
+
+// Policies here are defaults; `config/cache` overrides them per prefix. Keys
+// are built synchronously, so they take the config this instance last loaded.
+function defineKey<T, A extends unknown[]>(
+  prefix: string,
+  policy: CachePolicy,
+  suffix: (...args: A) => string
+): (...args: A) => CacheKey<T> {
+  return (...args) => {
+    const rest = suffix(...args)
+    const override = peekRuntimeConfig('cache').policies[prefix]
+    return {
+      key: rest ? `${prefix}_${rest}` : prefix,
+      ...policy,
+      ...(override?.ttlMs !== undefined && { ttlMs: override.ttlMs }),
+      ...(override?.staleMs !== undefined && { staleMs: override.staleMs }),
+    }
+  }
+}
+
+/**
+ * Every key stored in v2_cache, with the value type and TTL it is read with.
+ * Both routers reach the cache through the services, which build keys only
+ * from here, so the same data is never stored under two names.
+ */
+export const cacheKeys = {
+  currentWeek: defineKey<CurrentWeek | null, []>(
+    'current_week',
+    { ttlMs: 10 * MINUTE_MS, staleMs: STALE_WHILE_REVALIDATE_MS },
+    () => ''
+  ),
+  games: defineKey<
+    GameItem[],
+    [season: number, seasonType: SeasonType, week: number]
+  >(
+    'games',
+    { ttlMs: 10 * MINUTE_MS, staleMs: STALE_WHILE_REVALIDATE_MS },
+    (season, seasonType, week) => `${season}_${seasonType}_week_${week}`
+  ),
+  // Games rarely change weeks (only when postponed), so the index lives long
+  gameWeek: defineKey<CurrentWeek, [gameId: string]>(
+    'game_week',
+    { ttlMs: 24 * HOUR_MS },
+    gameId => gameId
+  ),
+  roster: defineKey<RosterPlayer[], [season: number, teamId: string]>(
+    'roster',
+    { ttlMs: 10 * MINUTE_MS, staleMs: STALE_WHILE_REVALIDATE_MS },
+    (season, teamId) => `${season}_${teamId}`
+  ),
+  injuries: defineKey<PlayerInjury[], [provider: string, teamId: string]>(
+    'injuries',
+    { ttlMs: 30 * MINUTE_MS },
+    (provider, teamId) => `${provider}_${teamId}`
+  ),
+  // Lines move through the week, so they are re-read often
+  odds: defineKey<GameOdds | null, [provider: string, gameId: string]>(
+    'odds',
+    { ttlMs: 10 * MINUTE_MS },
+    (provider, gameId) => `${provider}_${gameId}`
+  ),
+  weather: defineKey<GameWeather | null, [provider: string, gameId: string]>(
+    'weather',
+    { ttlMs: HOUR_MS },
+    (provider, gameId) => `${provider}_${gameId}`
+  ),
+  playerStats: defineKey<
+    PlayerStatsSummary,
+    [season: number, playerId: string]
+  >(
+    'player_stats',
+    { ttlMs: 6 * HOUR_MS, staleMs: 6 * HOUR_MS },
+    (season, playerId) => `${season}_${playerId}`
+  ),
+}
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto'
+import { isDevUser } from '../middleware/auth'
+import { getRuntimeConfig, type FlagRule } from './runtimeConfig'
+import { resolveUserTier, type UserClaims } from './tiers'
+
+type FlagDefinition = {
+  // Whether the flag is on for a user when `config/flags` has no rule for it
+  defaultValue: (user: UserClaims) => boolean
+}
+
+/**
+ * Every feature flag, with its default. Clients receive all of them
+ * evaluated for the caller from GET /v2/flags.
+ */
+export const FEATURE_FLAGS = {
+  // Parlays across several games (POST /parlays/generate-multi)
+  multi_game_parlays: { defaultValue: () => true },
+  // Picking an AI provider per request; dev users only unless targeted
+  provider_override: { defaultValue: user => isDevUser(user) },
+  // Rate limit and quota status outside the dev panel
+  rate_limit_status: { defaultValue: () => false },
+  // Provider, model and latency shown with generated parlays
+  generation_metadata: { defaultValue: () => false },
+} satisfies Record<string, FlagDefinition>
+
+export type FeatureFlag = keyof typeof FEATURE_FLAGS
+export type FeatureFlags = Record<FeatureFlag, boolean>
+
+const FEATURE_FLAG_NAMES = Object.keys(FEATURE_FLAGS) as FeatureFlag[]
+
+/**
+ * Place a user in [0, 100) for a flag. Hashing the flag name with the uid
+ * gives each flag its own rollout order, and a raised percentage only adds
+ * users.
+ */
+function rolloutBucket(flag: FeatureFlag, uid: string): number {
+  const hash = createHash('sha256').update(`${flag}:${uid}`).digest()
+  return (hash.readUInt32BE(0) / 0x100000000) * 100
+}
+
+function matchesRule(
+  flag: FeatureFlag,
+  rule: FlagRule,
+  user: UserClaims,
+  tier: string | null
+): boolean {
+  if (!rule.enabled) {
+    return false
+  }
+  if (rule.users.includes(user.uid)) {
+    return true
+  }
+  if (tier && rule.tiers.includes(tier)) {
+    return true
+  }
+  return rolloutBucket(flag, user.uid) < rule.percentage
+}
+
+/**
+ * Every flag evaluated for a user. The tier is only resolved when a rule
+ * targets tiers.
+ */
+export async function evaluateFeatureFlags(
+  user: UserClaims
+): Promise<FeatureFlags> {
+  const rules = await getRuntimeConfig('flags')
+  const needsTier = FEATURE_FLAG_NAMES.some(
+    flag => (rules[flag]?.tiers.length ?? 0) > 0
+  )
+  const tier = needsTier ? await resolveUserTier(user) : null
+  return Object.fromEntries(
+    FEATURE_FLAG_NAMES.map(flag => {
+      const rule = rules[flag]
+      return [
+        flag,
+        rule
+          ? matchesRule(flag, rule, user, tier)
+          : FEATURE_FLAGS[flag].defaultValue(user),
+      ]
+    })
+  ) as FeatureFlags
+}
+
+export async function isFeatureEnabled(
+  flag: FeatureFlag,
+  user: UserClaims
+): Promise<boolean> {
+  return (await evaluateFeatureFlags(user))[flag]
+}
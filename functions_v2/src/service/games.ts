@@ -0,0 +1,223 @@
+import {
+  estimateCurrentWeek,
+  fetchCurrentWeek,
+  fetchGameSummary,
+  fetchGamesForWeek,
+  fetchTeamRoster,
+  SEASON_TYPES,
+  SEASON_WEEKS,
+  type GameItem,
+  type CurrentWeek,
+  type PlayerInjury,
+  type RosterPlayer,
+  type SeasonType,
+  type WeekRef,
+} from '../providers/espn'
+import { getInjuryProvider } from '../providers/injuries'
+import { getVenueInfo } from '../providers/venues'
+import { getWeatherProvider } from '../providers/weather'
+import { cached, getCached, setCached } from '../utils/cache'
+import { cacheKeys } from './cacheKeys'
+
+/**
+ * The current week and season per ESPN's scoreboard (cached). The estimate
+ * used when the scoreboard cannot be read is not cached, so the next call
+ * retries ESPN.
+ */
+export async function getCurrentWeek(): Promise<CurrentWeek> {
+  return (
+    (await cached(cacheKeys.currentWeek(), fetchCurrentWeek)) ??
+    estimateCurrentWeek()
+  )
+}
+
+/**
+ * The season to use when a caller does not name one: ESPN's current season,
+ * which stays on last year's season through the January playoffs
+ */
+export async function resolveSeason(season?: number): Promise<number> {
+  return season ?? (await getCurrentWeek()).season
+}
+
+/**
+ * Every week of the season in calendar order, preseason through Super Bowl
+ */
+export function listSeasonWeeks(): WeekRef[] {
+  return SEASON_TYPES.flatMap(seasonType =>
+    Array.from({ length: SEASON_WEEKS[seasonType] }, (_, i) => ({
+      week: i + 1,
+      seasonType,
+    }))
+  )
+}
+
+function isSameWeek(a: WeekRef, b: WeekRef): boolean {
+  return a.week === b.week && a.seasonType === b.seasonType
+}
+
+/**
+ * The week before `ref`, crossing season types (postseason week 1 follows
+ * regular season week 18). Null for the first preseason week.
+ */
+export function previousWeek(ref: WeekRef): WeekRef | null {
+  const weeks = listSeasonWeeks()
+  const index = weeks.findIndex(w => isSameWeek(w, ref))
+  return index > 0 ? weeks[index - 1] : null
+}
+
+/**
+ * Fetch a week's games from ESPN with caching
+ */
+export async function getGamesForWeek(
+  week: number,
+  seasonType: SeasonType = 'regular',
+  season?: number
+): Promise<GameItem[]> {
+  const resolvedSeason = await resolveSeason(season)
+  return cached(cacheKeys.games(resolvedSeason, seasonType, week), () =>
+    fetchGamesForWeek(week, seasonType, resolvedSeason)
+  )
+}
+
+/**
+ * Look a game up by id alone. The game's week is remembered in the cache so
+ * repeat lookups read the cached scoreboard; the first lookup asks ESPN's
+ * event summary. Null when ESPN has no such game.
+ */
+export async function getGameById(gameId: string): Promise<GameItem | null> {
+  const cacheKey = cacheKeys.gameWeek(gameId)
+  const indexed = await getCached(cacheKey)
+  if (indexed) {
+    const games = await getGamesForWeek(
+      indexed.week,
+      indexed.seasonType,
+      indexed.season
+    )
+    const game = games.find(g => g.gameId === gameId)
+    if (game) {
+      return game
+    }
+  }
+
+  const game = await fetchGameSummary(gameId)
+  if (game) {
+    const entry: CurrentWeek = {
+      week: game.week,
+      seasonType: game.seasonType,
+      season: game.season,
+    }
+    await setCached(cacheKey, entry)
+  }
+  return game
+}
+
+/**
+ * Locate a game by id, checking the given week's scoreboard first (a single
+ * cached read when the client knows the week) before the id lookup
+ */
+export async function findGameById(
+  gameId: string,
+  week?: number,
+  seasonType: SeasonType = 'regular',
+  season?: number
+): Promise<GameItem | null> {
+  if (week != null) {
+    const games = await getGamesForWeek(week, seasonType, season)
+    const game = games.find(g => g.gameId === gameId)
+    if (game) {
+      return game
+    }
+  }
+
+  const game = await getGameById(gameId)
+  if (!game) {
+    console.error('Game not found:', {
+      requestedGameId: gameId,
+      week,
+      seasonType,
+      season,
+    })
+  }
+  return game
+}
+
+/**
+ * Fetch a team's roster with depth chart ranks (cached per team and season).
+ * Defaults to the current season.
+ */
+export async function getTeamRoster(
+  teamId: string,
+  season?: number
+): Promise<RosterPlayer[]> {
+  const resolvedSeason = await resolveSeason(season)
+  return cached(cacheKeys.roster(resolvedSeason, teamId), () =>
+    fetchTeamRoster(teamId, resolvedSeason)
+  )
+}
+
+/**
+ * Fetch a team's injury report (cached per team). Provider failures are
+ * logged and treated as "no injuries" so generation never fails on them.
+ */
+export async function getTeamInjuries(teamId: string): Promise<PlayerInjury[]> {
+  const provider = getInjuryProvider()
+  if (!provider) {
+    return []
+  }
+  try {
+    return await cached(cacheKeys.injuries(provider.name, teamId), () =>
+      provider.getTeamInjuries(teamId)
+    )
+  } catch (error) {
+    console.error('Injury provider failed', {
+      provider: provider.name,
+      teamId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return []
+  }
+}
+
+/**
+ * Add the venue's roof type and the kickoff forecast to a game (forecasts
+ * cached per game). Domes get no weather at all; for unlisted venues, final
+ * games and provider failures the game keeps whatever weather it had.
+ */
+export async function withGameWeather(game: GameItem): Promise<GameItem> {
+  const venueInfo = getVenueInfo(game.venue.name)
+  if (!venueInfo) {
+    return game
+  }
+  const { weather, ...rest } = game
+  const withRoof: GameItem = {
+    ...rest,
+    venue: { ...game.venue, roof: venueInfo.roof },
+  }
+  if (venueInfo.roof === 'dome') {
+    return withRoof
+  }
+  const fallback: GameItem = weather ? { ...withRoof, weather } : withRoof
+  const provider = getWeatherProvider()
+  if (!provider || game.status === 'final') {
+    return fallback
+  }
+
+  try {
+    const forecast = await cached(
+      cacheKeys.weather(provider.name, game.gameId),
+      () =>
+        provider.getForecast(
+          { ...venueInfo, name: game.venue.name },
+          game.startTime
+        )
+    )
+    return forecast ? { ...withRoof, weather: forecast } : fallback
+  } catch (error) {
+    console.error('Weather provider failed', {
+      provider: provider.name,
+      gameId: game.gameId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return fallback
+  }
+}
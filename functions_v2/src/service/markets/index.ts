@@ -0,0 +1,19 @@
+export {
+  findPlayerByName,
+  getCanonicalMarket,
+  getMarketPeriod,
+  normalizeName,
+  parseLegMarket,
+  type MarketPeriod,
+  type MarketSubject,
+  type MarketTeams,
+  type OverUnder,
+  type ParsedMarket,
+  type StatRef,
+  type TeamSide,
+} from './parser'
+export {
+  structureLeg,
+  type LegStructureContext,
+  type StructuredLeg,
+} from './structure'
@@ -0,0 +1,389 @@
+import type { BetType, LegPeriod, LegStructure } from '../ai'
+
+export type TeamSide = 'home' | 'away'
+export type MarketPeriod = LegPeriod
+export type OverUnder = 'over' | 'under'
+
+/** A stat column from the ESPN box score: [category, key] */
+export type StatRef = [category: string, key: string]
+
+export type MarketSubject =
+  | { type: 'team'; side: TeamSide }
+  | { type: 'player'; name: string }
+
+export type ParsedMarket =
+  | { kind: 'moneyline'; team: TeamSide; period: MarketPeriod }
+  | { kind: 'spread'; team: TeamSide; line: number; period: MarketPeriod }
+  | {
+      kind: 'total'
+      scope: 'game' | TeamSide
+      side: OverUnder
+      line: number
+      period: MarketPeriod
+    }
+  | { kind: 'team_touchdowns'; team: TeamSide; side: OverUnder; line: number }
+  | {
+      kind: 'defensive_turnovers'
+      team: TeamSide
+      side: OverUnder
+      line: number
+    }
+  | {
+      kind: 'stat'
+      subject: MarketSubject
+      stats: StatRef[]
+      side: OverUnder
+      line: number
+    }
+  | { kind: 'touchdown_scorer'; player: string; timing: 'first' | 'last' }
+
+export type MarketTeams = Record<TeamSide, { name: string; abbrev: string }>
+
+const PERIOD_BY_PREFIX: Array<[string, MarketPeriod]> = [
+  ['first_half_', 'first_half'],
+  ['second_half_', 'second_half'],
+  ['first_quarter_', 'first_quarter'],
+]
+
+// Anytime TD counts every way a player can find the end zone
+const TOUCHDOWN_STATS: StatRef[] = [
+  ['rushing', 'rushingTouchdowns'],
+  ['receiving', 'receivingTouchdowns'],
+  ['kickReturns', 'kickReturnTouchdowns'],
+  ['puntReturns', 'puntReturnTouchdowns'],
+  ['interceptions', 'interceptionTouchdowns'],
+]
+
+/**
+ * Box score columns behind each stat market. Markets ESPN does not report
+ * (e.g. longest completion) are absent and settle as void.
+ */
+const STAT_MARKETS: Partial<Record<BetType, StatRef[]>> = {
+  player_passing_yards: [['passing', 'passingYards']],
+  player_alt_passing_yards: [['passing', 'passingYards']],
+  player_passing_attempts: [['passing', 'passingAttempts']],
+  player_passing_completions: [['passing', 'completions']],
+  player_passing_tds: [['passing', 'passingTouchdowns']],
+  player_interceptions: [['passing', 'interceptions']],
+  player_rushing_yards: [['rushing', 'rushingYards']],
+  player_alt_rushing_yards: [['rushing', 'rushingYards']],
+  player_rushing_attempts: [['rushing', 'rushingAttempts']],
+  player_rushing_tds: [['rushing', 'rushingTouchdowns']],
+  player_longest_rush: [['rushing', 'longRushing']],
+  player_receiving_yards: [['receiving', 'receivingYards']],
+  player_alt_receiving_yards: [['receiving', 'receivingYards']],
+  player_receptions: [['receiving', 'receptions']],
+  player_receiving_tds: [['receiving', 'receivingTouchdowns']],
+  player_longest_reception: [['receiving', 'longReception']],
+  player_rush_rec_yards: [
+    ['rushing', 'rushingYards'],
+    ['receiving', 'receivingYards'],
+  ],
+  player_pass_rush_yards: [
+    ['passing', 'passingYards'],
+    ['rushing', 'rushingYards'],
+  ],
+  player_pass_rec_yards: [
+    ['passing', 'passingYards'],
+    ['receiving', 'receivingYards'],
+  ],
+  player_pass_rush_rec_yards: [
+    ['passing', 'passingYards'],
+    ['rushing', 'rushingYards'],
+    ['receiving', 'receivingYards'],
+  ],
+  player_anytime_td: TOUCHDOWN_STATS,
+  field_goals_made: [['kicking', 'fieldGoalsMade']],
+  field_goals_attempted: [['kicking', 'fieldGoalAttempts']],
+  longest_field_goal: [['kicking', 'longFieldGoalMade']],
+  kicking_points: [['kicking', 'totalKickingPoints']],
+  extra_points_made: [['kicking', 'extraPointsMade']],
+  defensive_sacks: [['defensive', 'sacks']],
+  defensive_tackles: [['defensive', 'totalTackles']],
+  defensive_interceptions: [['interceptions', 'interceptions']],
+  defensive_touchdowns: [['defensive', 'defensiveTouchdowns']],
+  special_teams_touchdowns: [
+    ['kickReturns', 'kickReturnTouchdowns'],
+    ['puntReturns', 'puntReturnTouchdowns'],
+  ],
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function containsWord(text: string, word: string): boolean {
+  return (
+    word.length > 0 &&
+    new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}($|[^a-z0-9])`, 'i').test(
+      text
+    )
+  )
+}
+
+/**
+ * Match a team by full name, nickname ("Chiefs") or abbreviation ("KC")
+ */
+function findTeam(text: string, teams: MarketTeams): TeamSide | null {
+  for (const side of ['home', 'away'] as const) {
+    const { name, abbrev } = teams[side]
+    const nickname = name.split(' ').pop() ?? ''
+    if (
+      containsWord(text, name) ||
+      containsWord(text, nickname) ||
+      containsWord(text, abbrev)
+    ) {
+      return side
+    }
+  }
+  return null
+}
+
+function findOverUnder(text: string): OverUnder | null {
+  if (/\bover\b/i.test(text)) {
+    return 'over'
+  }
+  if (/\bunder\b/i.test(text)) {
+    return 'under'
+  }
+  return null
+}
+
+// A standalone number. Digits inside a name ("49ers") are not a line.
+const NUMBER = String.raw`(?<![\w.])[+-]?\d+(?:\.\d+)?(?![\w.])`
+const LINE_AFTER_SIDE = new RegExp(
+  String.raw`\b(?:over|under)\s+(${NUMBER})`,
+  'i'
+)
+const SIGNED_LINE = new RegExp(String.raw`(?<![\w.])[+-]\d+(?:\.\d+)?(?![\w.])`)
+const ANY_LINE = new RegExp(NUMBER)
+const NUMBER_TO_END = new RegExp(String.raw`${NUMBER}\+?.*$`)
+
+/**
+ * The line in a selection: the number after Over/Under, else a signed
+ * number ("-3.5"), else the first standalone number
+ */
+export function findLine(text: string): number | null {
+  if (/\b(pk|pick'?em)\b/i.test(text)) {
+    return 0
+  }
+  const match =
+    text.match(LINE_AFTER_SIDE)?.[1] ??
+    text.match(SIGNED_LINE)?.[0] ??
+    text.match(ANY_LINE)?.[0]
+  return match ? parseFloat(match) : null
+}
+
+export function getMarketPeriod(betType: string): MarketPeriod {
+  const entry = PERIOD_BY_PREFIX.find(([prefix]) => betType.startsWith(prefix))
+  return entry ? entry[1] : 'game'
+}
+
+/**
+ * Collapse bet type variants (periods, alternate lines, over/under suffixes)
+ * into one market key, e.g. first_half_spread and alt_spread → spread
+ */
+export function getCanonicalMarket(betType: string): string {
+  const prefix = PERIOD_BY_PREFIX.find(([p]) => betType.startsWith(p))?.[0]
+  return (prefix ? betType.slice(prefix.length) : betType)
+    .replace(/^alt_/, '')
+    .replace(/^player_alt_/, 'player_')
+    .replace(/_(over|under)$/, '')
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/\b(jr|sr|ii|iii|iv|v)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Match a player by full name, falling back to first initial + last name
+ * ("P. Mahomes") when that is unambiguous
+ */
+export function findPlayerByName<T extends { name: string }>(
+  players: T[],
+  name: string
+): T | null {
+  const target = normalizeName(name)
+  const exact = players.find(p => normalizeName(p.name) === target)
+  if (exact) {
+    return exact
+  }
+  const parts = target.split(' ')
+  const last = parts[parts.length - 1]
+  const initial = parts[0]?.[0]
+  const candidates = players.filter(p => {
+    const pParts = normalizeName(p.name).split(' ')
+    return pParts[pParts.length - 1] === last && pParts[0]?.[0] === initial
+  })
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+/**
+ * The text before "Over"/"Under" (or a trailing market phrase) names the
+ * player or team a stat market is about
+ */
+function extractSubjectName(selection: string): string {
+  return selection
+    .split(/\b(?:over|under)\b/i)[0]
+    .replace(/\b(anytime|first|1st|last|to score|td|touchdown)\b.*$/i, '')
+    .replace(NUMBER_TO_END, '')
+    .trim()
+}
+
+function resolveSubject(
+  leg: LegInput,
+  teams: MarketTeams
+): MarketSubject | null {
+  if (leg.subject?.type === 'player') {
+    return { type: 'player', name: leg.subject.name }
+  }
+  if (leg.subject?.type === 'team') {
+    const side = findTeam(leg.subject.name, teams)
+    if (side) {
+      return { type: 'team', side }
+    }
+  }
+  const name = extractSubjectName(leg.selection)
+  if (!name) {
+    return null
+  }
+  const team = findTeam(name, teams)
+  // Only treat the subject as a team when the name is just the team reference
+  if (team) {
+    const { name: full, abbrev } = teams[team]
+    const nickname = full.split(' ').pop() ?? ''
+    const bare = name
+      .replace(/\b(defense|defensive|d\/st|dst|team)\b/gi, '')
+      .trim()
+    if (
+      [full, nickname, abbrev].some(n => n.toLowerCase() === bare.toLowerCase())
+    ) {
+      return { type: 'team', side: team }
+    }
+  }
+  return { type: 'player', name }
+}
+
+/**
+ * "Yes" markets ("Chiefs Defensive TD") have no line; treat them as Over 0.5.
+ * Threshold markets ("2+ Field Goals") become Over N-0.5.
+ */
+function resolveOverUnder(
+  leg: LegInput
+): { side: OverUnder; line: number } | null {
+  const { selection } = leg
+  if (leg.side === 'yes') {
+    return { side: 'over', line: 0.5 }
+  }
+  const side = resolveSide(leg)
+  const line = leg.line ?? findLine(selection)
+  if (side && line != null) {
+    return { side, line }
+  }
+  const threshold = selection.match(/(\d+)\+/)
+  if (threshold) {
+    return { side: 'over', line: parseInt(threshold[1], 10) - 0.5 }
+  }
+  if (
+    !side &&
+    /\b(yes|anytime|to score|scores?)\b|^[^0-9]*$/i.test(selection)
+  ) {
+    return { side: 'over', line: 0.5 }
+  }
+  return null
+}
+
+type LegInput = { betType: string; selection: string } & LegStructure
+
+function resolveTeam(leg: LegInput, teams: MarketTeams): TeamSide | null {
+  const fromSubject =
+    leg.subject?.type === 'team' ? findTeam(leg.subject.name, teams) : null
+  return fromSubject ?? findTeam(leg.selection, teams)
+}
+
+function resolveSide(leg: LegInput): OverUnder | null {
+  return leg.side === 'over' || leg.side === 'under'
+    ? leg.side
+    : findOverUnder(leg.selection)
+}
+
+/**
+ * Turn a leg into a market that can be graded against a box score. Uses the
+ * leg's structured fields when present and parses the free-text selection for
+ * anything missing. Returns null when the leg is ambiguous.
+ */
+export function parseLegMarket(
+  leg: LegInput,
+  teams: MarketTeams
+): ParsedMarket | null {
+  const { betType, selection } = leg
+  const period = getMarketPeriod(betType)
+  const market = getCanonicalMarket(betType)
+  const line = leg.line ?? findLine(selection)
+
+  if (market === 'moneyline') {
+    const team = resolveTeam(leg, teams)
+    return team ? { kind: 'moneyline', team, period } : null
+  }
+
+  if (market === 'spread') {
+    const team = resolveTeam(leg, teams)
+    return team && line != null ? { kind: 'spread', team, line, period } : null
+  }
+
+  if (market === 'total') {
+    const side = resolveSide(leg)
+    return side && line != null
+      ? { kind: 'total', scope: 'game', side, line, period }
+      : null
+  }
+
+  if (market === 'team_total_points') {
+    const team = resolveTeam(leg, teams)
+    const side =
+      resolveSide(leg) ??
+      (betType.endsWith('_over')
+        ? 'over'
+        : betType.endsWith('_under')
+          ? 'under'
+          : null)
+    return team && side && line != null
+      ? { kind: 'total', scope: team, side, line, period: 'game' }
+      : null
+  }
+
+  if (market === 'team_total_tds' || market === 'defensive_turnovers') {
+    const team = resolveTeam(leg, teams)
+    const ou = resolveOverUnder(leg)
+    if (!team || !ou) {
+      return null
+    }
+    return market === 'team_total_tds'
+      ? { kind: 'team_touchdowns', team, ...ou }
+      : { kind: 'defensive_turnovers', team, ...ou }
+  }
+
+  if (market === 'player_first_td' || market === 'player_last_td') {
+    const player = leg.subject?.name ?? extractSubjectName(selection)
+    return player
+      ? {
+          kind: 'touchdown_scorer',
+          player,
+          timing: market === 'player_first_td' ? 'first' : 'last',
+        }
+      : null
+  }
+
+  const stats = STAT_MARKETS[betType as BetType]
+  if (!stats) {
+    return null
+  }
+  const subject = resolveSubject(leg, teams)
+  const ou = resolveOverUnder(leg)
+  return subject && ou ? { kind: 'stat', subject, stats, ...ou } : null
+}
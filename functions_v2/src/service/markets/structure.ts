@@ -0,0 +1,149 @@
+import type { RosterPlayer } from '../../providers/espn'
+import type { LegStructure, LegSubject } from '../ai'
+import {
+  findLine,
+  findPlayerByName,
+  getCanonicalMarket,
+  getMarketPeriod,
+  parseLegMarket,
+  type MarketTeams,
+  type ParsedMarket,
+  type TeamSide,
+} from './parser'
+
+// Ids are empty when the context was rebuilt from a legacy parlay's
+// gameContext, which only names the teams
+type ContextTeam = { teamId: string; name: string; abbrev: string }
+
+export type LegStructureContext = {
+  gameId: string
+  home: ContextTeam
+  away: ContextTeam
+  // Players from rosterDataUsed; used to resolve player subject ids
+  players: RosterPlayer[]
+}
+
+export type StructuredLeg = LegStructure & {
+  market: string
+  period: NonNullable<LegStructure['period']>
+}
+
+function teamSubject(side: TeamSide, context: LegStructureContext): LegSubject {
+  const team = context[side]
+  return team.teamId
+    ? { type: 'team', id: team.teamId, name: team.name }
+    : { type: 'team', name: team.name }
+}
+
+function gameSubject(name: string, context: LegStructureContext): LegSubject {
+  return context.gameId
+    ? { type: 'game', id: context.gameId, name }
+    : { type: 'game', name }
+}
+
+function playerSubject(name: string, context: LegStructureContext): LegSubject {
+  const player = findPlayerByName(context.players, name)
+  return player
+    ? { type: 'player', id: player.playerId, name: player.name }
+    : { type: 'player', name }
+}
+
+/**
+ * Attach ids to a subject by matching it against the game's teams and
+ * rosterDataUsed
+ */
+function resolveSubjectIds(
+  subject: LegSubject,
+  context: LegStructureContext
+): LegSubject {
+  if (subject.type === 'player') {
+    return playerSubject(subject.name, context)
+  }
+  if (subject.type === 'game') {
+    return gameSubject(subject.name, context)
+  }
+  const target = subject.name.toLowerCase()
+  const side = (['home', 'away'] as const).find(s => {
+    const { name, abbrev } = context[s]
+    const nickname = name.split(' ').pop() ?? ''
+    return [name, nickname, abbrev].some(n => n.toLowerCase() === target)
+  })
+  return side ? teamSubject(side, context) : subject
+}
+
+function fromParsedMarket(
+  market: ParsedMarket,
+  selection: string,
+  context: LegStructureContext
+): Pick<LegStructure, 'subject' | 'side' | 'line'> {
+  switch (market.kind) {
+    case 'moneyline':
+      return { subject: teamSubject(market.team, context) }
+    case 'spread':
+      return { subject: teamSubject(market.team, context), line: market.line }
+    case 'total':
+      return {
+        subject:
+          market.scope === 'game'
+            ? gameSubject(
+                `${context.away.name} @ ${context.home.name}`,
+                context
+              )
+            : teamSubject(market.scope, context),
+        side: market.side,
+        line: market.line,
+      }
+    case 'team_touchdowns':
+    case 'defensive_turnovers':
+      return {
+        subject: teamSubject(market.team, context),
+        side: market.side,
+        line: market.line,
+      }
+    case 'stat': {
+      const subject =
+        market.subject.type === 'team'
+          ? teamSubject(market.subject.side, context)
+          : playerSubject(market.subject.name, context)
+      // Lineless props ("Travis Kelce Anytime TD") parse as Over 0.5
+      return findLine(selection) != null
+        ? { subject, side: market.side, line: market.line }
+        : { subject, side: 'yes' }
+    }
+    case 'touchdown_scorer':
+      return { subject: playerSubject(market.player, context), side: 'yes' }
+  }
+}
+
+/**
+ * Fill in a leg's structured fields. market and period always come from the
+ * betType; subject, side and line keep what the model supplied and fall back
+ * to parsing the selection string.
+ */
+export function structureLeg<T extends { betType: string; selection: string }>(
+  leg: T & LegStructure,
+  context: LegStructureContext
+): T & StructuredLeg {
+  const teams: MarketTeams = { home: context.home, away: context.away }
+  const parsed = parseLegMarket(leg, teams)
+  const backfill = parsed
+    ? fromParsedMarket(parsed, leg.selection, context)
+    : {}
+
+  const subject = leg.subject
+    ? resolveSubjectIds(leg.subject, context)
+    : backfill.subject
+  const side = leg.side ?? backfill.side
+  // Yes/no props carry no line of their own
+  const line = leg.line ?? (side === 'yes' ? undefined : backfill.line)
+
+  // Omit unknown fields rather than writing undefined (Firestore rejects it)
+  return {
+    ...leg,
+    market: getCanonicalMarket(leg.betType),
+    period: getMarketPeriod(leg.betType),
+    ...(subject ? { subject } : {}),
+    ...(side ? { side } : {}),
+    ...(line != null ? { line } : {}),
+  }
+}
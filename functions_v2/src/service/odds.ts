@@ -0,0 +1,149 @@
+import type { GameItem } from '../providers/espn'
+import {
+  createESPNOddsProvider,
+  getOddsProvider,
+  type GameOdds,
+  type OddsMarket,
+  type OddsProvider,
+} from '../providers/odds'
+import { cached } from '../utils/cache'
+import { cacheKeys } from './cacheKeys'
+import { normalizeName, type StructuredLeg } from './markets'
+
+export type LegOddsCheck = {
+  // matched: odds replaced with the book price
+  // line_mismatch: market offered at a different line; AI odds kept
+  // not_offered: the book has no such market; AI odds kept
+  status: 'matched' | 'line_mismatch' | 'not_offered'
+  provider: string
+  bookmaker: string
+  bookOdds?: number
+  bookLine?: number
+}
+
+type PricedLeg = StructuredLeg & { odds: number }
+
+async function fetchOdds(
+  provider: OddsProvider,
+  game: GameItem
+): Promise<{ provider: string; odds: GameOdds } | null> {
+  try {
+    const odds = await cached(cacheKeys.odds(provider.name, game.gameId), () =>
+      provider.getGameOdds(game)
+    )
+    return odds ? { provider: provider.name, odds } : null
+  } catch (error) {
+    console.error('Odds provider failed', {
+      provider: provider.name,
+      gameId: game.gameId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
+
+/**
+ * Fetch a game's sportsbook lines (cached per game), falling back to ESPN's
+ * main lines when the configured provider has none. Provider failures are
+ * logged and treated as "no lines" so generation never fails because of odds.
+ */
+export async function getGameOdds(
+  game: GameItem
+): Promise<{ provider: string; odds: GameOdds } | null> {
+  const provider = getOddsProvider()
+  if (!provider) {
+    return null
+  }
+  const odds = await fetchOdds(provider, game)
+  if (odds || provider.name === 'espn') {
+    return odds
+  }
+  return fetchOdds(createESPNOddsProvider(), game)
+}
+
+function sameSubject(
+  leg: StructuredLeg['subject'],
+  offered: OddsMarket['subject']
+): boolean {
+  if (!leg || !offered) {
+    return !leg && !offered
+  }
+  if (leg.type !== offered.type) {
+    return false
+  }
+  if (leg.type === 'game') {
+    return true
+  }
+  if (leg.id && offered.id) {
+    return leg.id === offered.id
+  }
+  return normalizeName(leg.name) === normalizeName(offered.name)
+}
+
+/**
+ * Check each leg against the book's markets. Exact matches take the book
+ * price; everything else keeps the AI odds and is flagged.
+ */
+export function reconcileLegOdds<T extends PricedLeg>(
+  legs: T[],
+  gameOdds: { provider: string; odds: GameOdds } | null
+): Array<T & { oddsCheck?: LegOddsCheck }> {
+  if (!gameOdds) {
+    return legs
+  }
+  const { provider, odds } = gameOdds
+
+  return legs.map(leg => {
+    const candidates = odds.markets.filter(
+      m =>
+        m.market === leg.market &&
+        m.period === leg.period &&
+        (m.side ?? null) === (leg.side ?? null) &&
+        sameSubject(leg.subject, m.subject)
+    )
+    const exact = candidates.find(m => (m.line ?? null) === (leg.line ?? null))
+    if (exact) {
+      return {
+        ...leg,
+        odds: exact.price,
+        oddsCheck: {
+          status: 'matched',
+          provider,
+          bookmaker: odds.bookmaker,
+          bookOdds: exact.price,
+          ...(exact.line != null ? { bookLine: exact.line } : {}),
+        },
+      }
+    }
+
+    // Report the closest offered line so the user can see the real number
+    const closest = candidates
+      .filter(m => m.line != null)
+      .sort(
+        (a, b) =>
+          Math.abs((a.line as number) - (leg.line ?? 0)) -
+          Math.abs((b.line as number) - (leg.line ?? 0))
+      )[0]
+    if (closest) {
+      return {
+        ...leg,
+        oddsCheck: {
+          status: 'line_mismatch',
+          provider,
+          bookmaker: odds.bookmaker,
+          bookOdds: closest.price,
+          bookLine: closest.line,
+        },
+      }
+    }
+
+    return {
+      ...leg,
+      oddsCheck: {
+        status: 'not_offered',
+        provider,
+        bookmaker: odds.bookmaker,
+      },
+    }
+  })
+}
@@ -0,0 +1,62 @@
+import {
+  listParlaysMissingFilterFields,
+  saveParlayFilterFields,
+  type ParlayFilterFields,
+  type StoredParlay,
+} from '../storage/parlays'
+import { getGameById } from './games'
+
+export type ParlayBackfillResult = {
+  scanned: number
+  updated: number
+  // Parlays whose week could not be found; only gameIds were written
+  unresolved: string[]
+  nextCursor: string | null
+}
+
+/**
+ * Week and season type from the parlay's matchups, else from ESPN by its
+ * game id
+ */
+async function resolveFilterFields(
+  parlay: StoredParlay
+): Promise<ParlayFilterFields> {
+  const fields: ParlayFilterFields = {
+    gameIds: parlay.gameIds,
+    week: parlay.week ?? parlay.matchups?.[0]?.week,
+    seasonType: parlay.seasonType ?? parlay.matchups?.[0]?.seasonType,
+  }
+  if ((fields.week == null || !fields.seasonType) && parlay.gameId) {
+    const game = await getGameById(parlay.gameId)
+    if (game) {
+      return { ...fields, week: game.week, seasonType: game.seasonType }
+    }
+  }
+  return fields
+}
+
+/**
+ * Write the fields history filters query (gameIds, week, seasonType) onto
+ * parlays saved before the history API. Runs one page per call; pass the
+ * returned cursor back until it is null.
+ */
+export async function backfillParlayFilterFields(options: {
+  limit: number
+  cursor?: string
+}): Promise<ParlayBackfillResult> {
+  const page = await listParlaysMissingFilterFields(options)
+  const unresolved: string[] = []
+  for (const { id, parlay } of page.parlays) {
+    const fields = await resolveFilterFields(parlay)
+    if (fields.week == null || !fields.seasonType) {
+      unresolved.push(id)
+    }
+    await saveParlayFilterFields(id, fields)
+  }
+  return {
+    scanned: page.scanned,
+    updated: page.parlays.length,
+    unresolved,
+    nextCursor: page.nextCursor,
+  }
+}
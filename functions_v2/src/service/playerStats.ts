@@ -0,0 +1,204 @@
+import {
+  fetchPlayerGameLog,
+  type GameItem,
+  type PlayerGameLogEntry,
+  type RosterPlayer,
+} from '../providers/espn'
+import { cached } from '../utils/cache'
+import { cacheKeys } from './cacheKeys'
+import { getTeamRoster } from './games'
+
+const FETCH_BATCH_SIZE = 5
+
+export const RECENT_GAMES = 3
+
+export const SKILL_POSITIONS = ['QB', 'RB', 'WR', 'TE'] as const
+export type SkillPosition = (typeof SKILL_POSITIONS)[number]
+
+// Players per position that make it into the prompt, busiest first
+const PLAYERS_PER_POSITION: Record<SkillPosition, number> = {
+  QB: 1,
+  RB: 2,
+  WR: 3,
+  TE: 1,
+}
+
+// Stats worth a prop line at each position, in display order
+export const POSITION_STATS: Record<SkillPosition, string[]> = {
+  QB: [
+    'passingYards',
+    'passingTouchdowns',
+    'interceptions',
+    'completions',
+    'passingAttempts',
+    'rushingYards',
+  ],
+  RB: [
+    'rushingAttempts',
+    'rushingYards',
+    'rushingTouchdowns',
+    'receptions',
+    'receivingYards',
+  ],
+  WR: [
+    'receptions',
+    'receivingTargets',
+    'receivingYards',
+    'receivingTouchdowns',
+    'longReception',
+  ],
+  TE: [
+    'receptions',
+    'receivingTargets',
+    'receivingYards',
+    'receivingTouchdowns',
+  ],
+}
+
+// Volume stat used to pick the busiest players at each position
+const USAGE_STAT: Record<SkillPosition, string> = {
+  QB: 'passingAttempts',
+  RB: 'rushingAttempts',
+  WR: 'receivingTargets',
+  TE: 'receivingTargets',
+}
+
+export type PlayerStatsSummary = {
+  playerId: string
+  name: string
+  position: SkillPosition
+  // Season the numbers come from; last season's until the player has played
+  season: number
+  gamesPlayed: number
+  // Per-game averages over the season and over the last RECENT_GAMES games
+  seasonAverages: Record<string, number>
+  recentAverages: Record<string, number>
+  recentGames: PlayerGameLogEntry[]
+}
+
+export type TeamPlayerStats = PlayerStatsSummary[]
+
+function isSkillPosition(position?: string): position is SkillPosition {
+  return SKILL_POSITIONS.includes(position as SkillPosition)
+}
+
+function averageStats(
+  games: PlayerGameLogEntry[],
+  keys: string[]
+): Record<string, number> {
+  const averages: Record<string, number> = {}
+  for (const key of keys) {
+    const total = games.reduce((sum, game) => sum + (game.stats[key] ?? 0), 0)
+    averages[key] = games.length
+      ? Math.round((total / games.length) * 10) / 10
+      : 0
+  }
+  return averages
+}
+
+function summarizeGameLog(
+  player: RosterPlayer & { position: SkillPosition },
+  season: number,
+  games: PlayerGameLogEntry[]
+): PlayerStatsSummary {
+  const keys = POSITION_STATS[player.position]
+  const recentGames = games.slice(0, RECENT_GAMES).map(game => ({
+    ...game,
+    stats: Object.fromEntries(keys.map(key => [key, game.stats[key] ?? 0])),
+  }))
+  return {
+    playerId: player.playerId,
+    name: player.name,
+    position: player.position,
+    season,
+    gamesPlayed: games.length,
+    seasonAverages: averageStats(games, keys),
+    recentAverages: averageStats(recentGames, keys),
+    recentGames,
+  }
+}
+
+/**
+ * Season averages and recent game log for one player (cached per player and
+ * season). Falls back to last season before the player's first game.
+ */
+export async function getPlayerStats(
+  player: RosterPlayer & { position: SkillPosition },
+  season: number
+): Promise<PlayerStatsSummary> {
+  return cached(cacheKeys.playerStats(season, player.playerId), async () => {
+    let games = await fetchPlayerGameLog(player.playerId, season)
+    let statsSeason = season
+    if (games.length === 0) {
+      statsSeason = season - 1
+      games = await fetchPlayerGameLog(player.playerId, statsSeason)
+    }
+    return summarizeGameLog(player, statsSeason, games)
+  })
+}
+
+/**
+ * Stats for a team's busiest skill players (QB, RB, WR, TE), ordered by
+ * position then usage. Failures leave a player out rather than failing.
+ */
+export async function getTeamPlayerStats(
+  teamId: string,
+  season: number
+): Promise<TeamPlayerStats> {
+  const roster = await getTeamRoster(teamId, season)
+  const skillPlayers = roster.filter(
+    (player): player is RosterPlayer & { position: SkillPosition } =>
+      isSkillPosition(player.position)
+  )
+
+  const summaries: PlayerStatsSummary[] = []
+  for (let i = 0; i < skillPlayers.length; i += FETCH_BATCH_SIZE) {
+    const batch = skillPlayers.slice(i, i + FETCH_BATCH_SIZE)
+    const results = await Promise.all(
+      batch.map(player =>
+        getPlayerStats(player, season).catch(error => {
+          console.error('Player stats failed', {
+            playerId: player.playerId,
+            error: error instanceof Error ? error.message : String(error),
+          })
+          return null
+        })
+      )
+    )
+    summaries.push(
+      ...results.filter((s): s is PlayerStatsSummary => !!s?.gamesPlayed)
+    )
+  }
+
+  return SKILL_POSITIONS.flatMap(position =>
+    summaries
+      .filter(s => s.position === position)
+      .sort(
+        (a, b) =>
+          (b.seasonAverages[USAGE_STAT[position]] ?? 0) -
+          (a.seasonAverages[USAGE_STAT[position]] ?? 0)
+      )
+      .slice(0, PLAYERS_PER_POSITION[position])
+  )
+}
+
+/**
+ * Skill player stats for both sides of a game. A team whose stats can't be
+ * loaded gets an empty table so generation never fails on them.
+ */
+export async function getGamePlayerStats(
+  game: GameItem
+): Promise<{ home: TeamPlayerStats; away: TeamPlayerStats }> {
+  const [home, away] = await Promise.all(
+    [game.home.teamId, game.away.teamId].map(teamId =>
+      getTeamPlayerStats(teamId, game.season).catch(error => {
+        console.error('Team player stats failed', {
+          teamId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+        return []
+      })
+    )
+  )
+  return { home, away }
+}
@@ -0,0 +1,213 @@
+import { z } from 'zod'
+import { readConfigDocument } from '../storage/config'
+
+const MINUTE_MS = 60 * 1000
+
+// How long an instance uses a loaded document before reading it again
+const CONFIG_TTL_MS = MINUTE_MS
+
+const RateLimitRuleSchema = z.object({
+  limit: z.number().int().min(1),
+  windowMs: z.number().int().min(1000),
+})
+
+export type RateLimitRule = z.infer<typeof RateLimitRuleSchema>
+
+const TierQuotaSchema = z.object({
+  // Generations per calendar day (UTC); null for no daily cap
+  daily: z.number().int().min(1).nullable(),
+  // Generations per rolling window
+  window: RateLimitRuleSchema,
+})
+
+export type TierQuota = z.infer<typeof TierQuotaSchema>
+
+const temperature = (fallback: number) =>
+  z.number().min(0).max(2).default(fallback)
+
+/** `config/ai`: the model and how it is called */
+const AIConfigSchema = z.object({
+  model: z.string().min(1).default('gpt-4o-mini'),
+  temperatures: z
+    .object({
+      conservative: temperature(0.3),
+      moderate: temperature(0.5),
+      aggressive: temperature(0.8),
+    })
+    .default({}),
+  // Each leg carries multi-sentence reasoning, so the budget scales with leg
+  // count: max(min, base + perLeg * legs)
+  maxTokens: z
+    .object({
+      min: z.number().int().min(1).default(1500),
+      base: z.number().int().min(0).default(600),
+      perLeg: z.number().int().min(0).default(300),
+    })
+    .default({}),
+  timeoutMs: z.number().int().min(1000).max(120_000).default(30_000),
+})
+
+/** `config/rateLimits`: generation quotas per tier and per-route limits */
+const RateLimitConfigSchema = z.object({
+  tiers: z
+    .object({
+      free: TierQuotaSchema.default({
+        daily: 20,
+        window: { limit: 10, windowMs: 30 * MINUTE_MS },
+      }),
+      pro: TierQuotaSchema.default({
+        daily: 100,
+        window: { limit: 30, windowMs: 30 * MINUTE_MS },
+      }),
+      admin: TierQuotaSchema.default({
+        daily: null,
+        window: { limit: 100, windowMs: 30 * MINUTE_MS },
+      }),
+    })
+    .default({}),
+  routes: z
+    .object({
+      // Per IP on the public game and week routes
+      public: RateLimitRuleSchema.default({ limit: 120, windowMs: MINUTE_MS }),
+      // Per user on the parlay history routes
+      history: RateLimitRuleSchema.default({ limit: 120, windowMs: MINUTE_MS }),
+    })
+    .default({}),
+})
+
+/**
+ * `config/cache`: TTL overrides keyed by cache key prefix (`games`,
+ * `roster`, ...). Prefixes left out keep the policy in service/cacheKeys.
+ */
+const CacheConfigSchema = z.object({
+  policies: z
+    .record(
+      z.string(),
+      z.object({
+        ttlMs: z.number().int().min(0).optional(),
+        staleMs: z.number().int().min(0).optional(),
+      })
+    )
+    .default({}),
+})
+
+const FlagRuleSchema = z.object({
+  // False turns the flag off for everyone, targeted users included
+  enabled: z.boolean().default(true),
+  // User ids the flag is always on for
+  users: z.array(z.string()).default([]),
+  tiers: z.array(z.string()).default([]),
+  // Share of the remaining users the flag is on for; stable per user
+  percentage: z.number().min(0).max(100).default(0),
+})
+
+export type FlagRule = z.infer<typeof FlagRuleSchema>
+
+/**
+ * `config/flags`: a targeting rule per feature flag name. Flags without a
+ * rule keep the default in service/featureFlags.
+ */
+const FlagsConfigSchema = z.record(z.string(), FlagRuleSchema)
+
+const RUNTIME_CONFIG_SCHEMAS = {
+  ai: AIConfigSchema,
+  rateLimits: RateLimitConfigSchema,
+  cache: CacheConfigSchema,
+  flags: FlagsConfigSchema,
+}
+
+/** Document ids in the `config` collection */
+export type RuntimeConfigName = keyof typeof RUNTIME_CONFIG_SCHEMAS
+
+export type RuntimeConfig<N extends RuntimeConfigName> = z.infer<
+  (typeof RUNTIME_CONFIG_SCHEMAS)[N]
+>
+
+type LoadedConfig<N extends RuntimeConfigName> = {
+  value: RuntimeConfig<N>
+  loadedAt: number
+}
+
+const loaded = new Map<RuntimeConfigName, LoadedConfig<RuntimeConfigName>>()
+
+// Reads in progress, so concurrent requests share one read per document
+const loading = new Map<RuntimeConfigName, Promise<unknown>>()
+
+function defaultConfig<N extends RuntimeConfigName>(name: N): RuntimeConfig<N> {
+  return RUNTIME_CONFIG_SCHEMAS[name].parse({}) as RuntimeConfig<N>
+}
+
+/**
+ * Read and validate a document. A missing document or field takes its
+ * default; an invalid document or failed read keeps the values this instance
+ * last loaded, so a bad edit cannot take generation down.
+ */
+async function loadConfig<N extends RuntimeConfigName>(
+  name: N
+): Promise<RuntimeConfig<N>> {
+  const previous = loaded.get(name) as LoadedConfig<N> | undefined
+  let value = previous?.value ?? defaultConfig(name)
+  try {
+    const data = await readConfigDocument(name)
+    const parsed = RUNTIME_CONFIG_SCHEMAS[name].safeParse(data ?? {})
+    if (parsed.success) {
+      value = parsed.data as RuntimeConfig<N>
+    } else {
+      console.error('Invalid config document, keeping previous values', {
+        name,
+        issues: parsed.error.issues.slice(0, 10),
+      })
+    }
+  } catch (error) {
+    console.error('Config read failed, keeping previous values', {
+      name,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+  loaded.set(name, { value, loadedAt: Date.now() })
+  return value
+}
+
+function refreshConfig<N extends RuntimeConfigName>(
+  name: N
+): Promise<RuntimeConfig<N>> {
+  const pending = loading.get(name)
+  if (pending) {
+    return pending as Promise<RuntimeConfig<N>>
+  }
+  const promise = loadConfig(name).finally(() => loading.delete(name))
+  loading.set(name, promise)
+  return promise
+}
+
+function isCurrent(entry: LoadedConfig<RuntimeConfigName> | undefined) {
+  return !!entry && Date.now() - entry.loadedAt <= CONFIG_TTL_MS
+}
+
+/**
+ * A validated `config/{name}` document with defaults filled in, cached per
+ * instance for CONFIG_TTL_MS
+ */
+export async function getRuntimeConfig<N extends RuntimeConfigName>(
+  name: N
+): Promise<RuntimeConfig<N>> {
+  const entry = loaded.get(name) as LoadedConfig<N> | undefined
+  if (entry && isCurrent(entry)) {
+    return entry.value
+  }
+  return refreshConfig(name)
+}
+
+/**
+ * The last loaded values for callers that cannot wait on a read, starting a
+ * refresh when they are out of date. Defaults until the first load finishes.
+ */
+export function peekRuntimeConfig<N extends RuntimeConfigName>(
+  name: N
+): RuntimeConfig<N> {
+  const entry = loaded.get(name) as LoadedConfig<N> | undefined
+  if (!isCurrent(entry)) {
+    void refreshConfig(name)
+  }
+  return entry?.value ?? defaultConfig(name)
+}
@@ -0,0 +1,184 @@
+import type {
+  BoxScorePlayer,
+  BoxScoreTeam,
+  GameBoxScore,
+} from '../../providers/espn'
+import type { LegStructure } from '../ai'
+import {
+  findPlayerByName,
+  normalizeName,
+  parseLegMarket,
+  type MarketPeriod,
+  type OverUnder,
+  type ParsedMarket,
+  type StatRef,
+  type TeamSide,
+} from '../markets'
+
+export type LegResult = 'win' | 'loss' | 'push' | 'void' | 'pending'
+
+export type LegSettlement = {
+  result: LegResult
+  // Graded value from the box score (points, margin, yards, ...) when known
+  actual?: number
+  reason?: string
+}
+
+// "Longest X" markets take the best single value rather than a team sum
+const MAX_STAT_KEYS = new Set([
+  'longRushing',
+  'longReception',
+  'longFieldGoalMade',
+])
+
+function sumStats(player: BoxScorePlayer, stats: StatRef[]): number {
+  return stats.reduce(
+    (total, [category, key]) => total + (player.stats[category]?.[key] ?? 0),
+    0
+  )
+}
+
+function teamStatTotal(
+  players: BoxScorePlayer[],
+  teamId: string,
+  stats: StatRef[]
+): number {
+  const values = players
+    .filter(p => p.teamId === teamId)
+    .map(p => sumStats(p, stats))
+  if (stats.every(([, key]) => MAX_STAT_KEYS.has(key))) {
+    return values.length > 0 ? Math.max(...values) : 0
+  }
+  return values.reduce((a, b) => a + b, 0)
+}
+
+function periodPoints(team: BoxScoreTeam, period: MarketPeriod): number | null {
+  if (period === 'game') {
+    return team.score
+  }
+  const scores = team.periodScores
+  if (scores.length < 4) {
+    return null
+  }
+  switch (period) {
+    case 'first_quarter':
+      return scores[0]
+    case 'first_half':
+      return scores[0] + scores[1]
+    case 'second_half':
+      // Second-half markets include overtime
+      return scores.slice(2).reduce((a, b) => a + b, 0)
+  }
+}
+
+function other(side: TeamSide): TeamSide {
+  return side === 'home' ? 'away' : 'home'
+}
+
+function gradeOverUnder(
+  actual: number,
+  side: OverUnder,
+  line: number
+): LegSettlement {
+  if (actual === line) {
+    return { result: 'push', actual }
+  }
+  const isOver = actual > line
+  return {
+    result: isOver === (side === 'over') ? 'win' : 'loss',
+    actual,
+  }
+}
+
+function gradeMarket(market: ParsedMarket, box: GameBoxScore): LegSettlement {
+  switch (market.kind) {
+    case 'moneyline':
+    case 'spread': {
+      const teamPts = periodPoints(box[market.team], market.period)
+      const oppPts = periodPoints(box[other(market.team)], market.period)
+      if (teamPts == null || oppPts == null) {
+        return { result: 'void', reason: 'period_scores_unavailable' }
+      }
+      const margin =
+        teamPts - oppPts + (market.kind === 'spread' ? market.line : 0)
+      if (margin === 0) {
+        return { result: 'push', actual: teamPts - oppPts }
+      }
+      return { result: margin > 0 ? 'win' : 'loss', actual: teamPts - oppPts }
+    }
+    case 'total': {
+      const sides: TeamSide[] =
+        market.scope === 'game' ? ['home', 'away'] : [market.scope]
+      const points = sides.map(s => periodPoints(box[s], market.period))
+      if (points.some(p => p == null)) {
+        return { result: 'void', reason: 'period_scores_unavailable' }
+      }
+      const actual = (points as number[]).reduce((a, b) => a + b, 0)
+      return gradeOverUnder(actual, market.side, market.line)
+    }
+    case 'team_touchdowns': {
+      const teamId = box[market.team].teamId
+      const actual = box.scoringPlays.filter(
+        p => p.teamId === teamId && /touchdown/i.test(p.type)
+      ).length
+      return gradeOverUnder(actual, market.side, market.line)
+    }
+    case 'defensive_turnovers': {
+      // A defense's takeaways are the opponent's giveaways
+      const actual = box[other(market.team)].stats.turnovers
+      if (actual == null) {
+        return { result: 'void', reason: 'stat_unavailable' }
+      }
+      return gradeOverUnder(actual, market.side, market.line)
+    }
+    case 'stat': {
+      if (market.subject.type === 'team') {
+        const teamId = box[market.subject.side].teamId
+        const actual = teamStatTotal(box.players, teamId, market.stats)
+        return gradeOverUnder(actual, market.side, market.line)
+      }
+      const player = findPlayerByName(box.players, market.subject.name)
+      if (!player) {
+        // Players who never recorded a stat did not play; books void those
+        return { result: 'void', reason: 'player_not_in_box_score' }
+      }
+      return gradeOverUnder(
+        sumStats(player, market.stats),
+        market.side,
+        market.line
+      )
+    }
+    case 'touchdown_scorer': {
+      const player = findPlayerByName(box.players, market.player)
+      if (!player) {
+        return { result: 'void', reason: 'player_not_in_box_score' }
+      }
+      const touchdowns = box.scoringPlays.filter(p => /touchdown/i.test(p.type))
+      const play =
+        market.timing === 'first'
+          ? touchdowns[0]
+          : touchdowns[touchdowns.length - 1]
+      const scored =
+        !!play &&
+        normalizeName(play.text).startsWith(normalizeName(player.name))
+      return { result: scored ? 'win' : 'loss' }
+    }
+  }
+}
+
+/**
+ * Grade a single leg against a final box score
+ */
+export function gradeLeg(
+  leg: { betType: string; selection: string } & LegStructure,
+  box: GameBoxScore
+): LegSettlement {
+  const market = parseLegMarket(leg, {
+    home: { name: box.home.name, abbrev: box.home.abbrev },
+    away: { name: box.away.name, abbrev: box.away.abbrev },
+  })
+  if (!market) {
+    return { result: 'void', reason: 'unrecognized_market' }
+  }
+  return gradeMarket(market, box)
+}
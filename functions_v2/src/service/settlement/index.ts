@@ -0,0 +1,8 @@
+export { gradeLeg, type LegResult, type LegSettlement } from './grader'
+export {
+  settleFinalGames,
+  settleGame,
+  summarizeSettlement,
+  type ParlaySettlement,
+  type ParlaySettlementStatus,
+} from './settle'
@@ -0,0 +1,169 @@
+import {
+  fetchCurrentWeek,
+  fetchGameBoxScore,
+  type GameBoxScore,
+} from '../../providers/espn'
+import {
+  findParlaysForGame,
+  saveParlaySettlement,
+  type StoredParlay,
+} from '../../storage/parlays'
+import { getGamesForWeek, previousWeek } from '../games'
+import { gradeLeg, type LegSettlement } from './grader'
+
+export type ParlaySettlementStatus =
+  | 'pending'
+  | 'won'
+  | 'lost'
+  | 'push'
+  | 'void'
+
+export type ParlaySettlement = {
+  status: ParlaySettlementStatus
+  // Indexed like the parlay's legs array
+  legs: LegSettlement[]
+  settledAt?: number
+  updatedAt: number
+}
+
+/**
+ * Roll leg results up to a parlay result. Any loss loses the parlay; pushed
+ * and voided legs drop out, and a parlay with nothing left standing pushes.
+ */
+export function summarizeSettlement(
+  legs: LegSettlement[]
+): ParlaySettlementStatus {
+  const results = legs.map(l => l.result)
+  if (results.includes('loss')) {
+    return 'lost'
+  }
+  if (results.includes('pending')) {
+    return 'pending'
+  }
+  if (results.includes('win')) {
+    return 'won'
+  }
+  return results.every(r => r === 'void') ? 'void' : 'push'
+}
+
+// Legacy single-game legs carry no gameId of their own
+function legGameId(parlay: StoredParlay, index: number): string {
+  return parlay.legs[index].gameId ?? parlay.gameId
+}
+
+function hasUngradedLeg(parlay: StoredParlay, gameId: string): boolean {
+  const previous = parlay.settlement?.legs ?? []
+  return parlay.legs.some(
+    (_leg, i) =>
+      legGameId(parlay, i) === gameId &&
+      (previous[i]?.result ?? 'pending') === 'pending'
+  )
+}
+
+/**
+ * Grade the parlay's ungraded legs on this game. A parlay already decided by
+ * an earlier loss keeps its status and settledAt; only its legs are filled in.
+ */
+function settleParlay(
+  parlay: StoredParlay,
+  gameId: string,
+  settleLeg: (leg: StoredParlay['legs'][number]) => LegSettlement
+): ParlaySettlement {
+  const previous = parlay.settlement?.legs ?? []
+  const legs = parlay.legs.map((leg, i): LegSettlement => {
+    const graded = previous[i]
+    if (
+      legGameId(parlay, i) !== gameId ||
+      (graded && graded.result !== 'pending')
+    ) {
+      return graded ?? { result: 'pending' }
+    }
+    return settleLeg(leg)
+  })
+  const now = Date.now()
+  const decided = parlay.settlement
+  if (decided && decided.status !== 'pending') {
+    return { ...decided, legs, updatedAt: now }
+  }
+  const status = summarizeSettlement(legs)
+  return {
+    status,
+    legs,
+    ...(status !== 'pending' ? { settledAt: now } : {}),
+    updatedAt: now,
+  }
+}
+
+// Games that will not be played as scheduled; books void legs on them
+const VOIDED_STATUSES: Partial<Record<GameBoxScore['status'], string>> = {
+  postponed: 'game_postponed',
+  canceled: 'game_canceled',
+}
+
+function isSettleable(status: GameBoxScore['status']): boolean {
+  return status === 'final' || status in VOIDED_STATUSES
+}
+
+/**
+ * Grade every parlay's ungraded legs on this game, or void them when the game
+ * was postponed or canceled. Parlays already lost still get their remaining
+ * legs graded. Returns the number of parlays updated.
+ */
+export async function settleGame(gameId: string): Promise<number> {
+  const unsettled = (await findParlaysForGame(gameId)).filter(({ parlay }) =>
+    hasUngradedLeg(parlay, gameId)
+  )
+  if (unsettled.length === 0) {
+    return 0
+  }
+
+  const box = await fetchGameBoxScore(gameId)
+  if (!box || !isSettleable(box.status)) {
+    return 0
+  }
+
+  const voidReason = VOIDED_STATUSES[box.status]
+  const settleLeg = (leg: StoredParlay['legs'][number]): LegSettlement =>
+    voidReason ? { result: 'void', reason: voidReason } : gradeLeg(leg, box)
+  for (const { id, parlay } of unsettled) {
+    await saveParlaySettlement(id, settleParlay(parlay, gameId, settleLeg))
+  }
+  return unsettled.length
+}
+
+/**
+ * Settle parlays on every final, postponed or canceled game from the current
+ * and previous week
+ */
+export async function settleFinalGames(): Promise<{
+  gamesChecked: number
+  parlaysUpdated: number
+}> {
+  const currentWeek = await fetchCurrentWeek()
+  // The box scores come from ESPN too, so wait for the next run
+  if (!currentWeek) {
+    return { gamesChecked: 0, parlaysUpdated: 0 }
+  }
+  const lastWeek = previousWeek(currentWeek)
+  const weeks = lastWeek ? [lastWeek, currentWeek] : [currentWeek]
+  const games = (
+    await Promise.all(
+      weeks.map(w => getGamesForWeek(w.week, w.seasonType, currentWeek.season))
+    )
+  ).flat()
+  const endedGames = games.filter(g => isSettleable(g.status))
+
+  let parlaysUpdated = 0
+  // Sequential so multi-game parlays see the results written for earlier games
+  for (const game of endedGames) {
+    try {
+      parlaysUpdated += await settleGame(game.gameId)
+    } catch (error) {
+      console.error('Settlement failed for game', {
+        gameId: game.gameId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+  return { gamesChecked: endedGames.length, parlaysUpdated }
+}
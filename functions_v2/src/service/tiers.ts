@@ -0,0 +1,45 @@
+import { getRuntimeConfig, type TierQuota } from './runtimeConfig'
+import { getUserAccountFields } from '../storage/users'
+
+export const USER_TIERS = ['free', 'pro', 'admin'] as const
+export type UserTier = (typeof USER_TIERS)[number]
+
+export type { TierQuota }
+
+/**
+ * Each tier's quotas, from `config/rateLimits`
+ */
+export async function getTierQuotas(): Promise<Record<UserTier, TierQuota>> {
+  return (await getRuntimeConfig('rateLimits')).tiers
+}
+
+/** A user's custom claims, from an ID token or their auth record */
+export type UserClaims = { uid: string; [claim: string]: unknown }
+
+function isUserTier(value: unknown): value is UserTier {
+  return USER_TIERS.includes(value as UserTier)
+}
+
+/**
+ * A user's tier: the `tier` custom claim, then the admin role, then the `tier`
+ * field of their `users` profile, else free. Profiles are only read
+ * when the token carries no tier.
+ */
+export async function resolveUserTier(user: UserClaims): Promise<UserTier> {
+  if (isUserTier(user.tier)) {
+    return user.tier
+  }
+  if (user.admin === true) {
+    return 'admin'
+  }
+  try {
+    const { tier } = await getUserAccountFields(user.uid)
+    return isUserTier(tier) ? tier : 'free'
+  } catch (error) {
+    console.error('User tier lookup failed', {
+      uid: user.uid,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return 'free'
+  }
+}
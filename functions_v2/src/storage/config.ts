@@ -0,0 +1,14 @@
+import * as admin from 'firebase-admin'
+
+const db = admin.firestore()
+
+/**
+ * The raw contents of a `config` document, or undefined when it does not
+ * exist. Validation and defaults live in service/runtimeConfig.
+ */
+export async function readConfigDocument(
+  name: string
+): Promise<unknown | undefined> {
+  const snap = await db.collection('config').doc(name).get()
+  return snap.exists ? snap.data() : undefined
+}
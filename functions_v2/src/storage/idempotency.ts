@@ -1,4 +1,5 @@
 import * as admin from 'firebase-admin'
+import { withoutUndefined } from '../utils/firestore'
 
 const db = admin.firestore()
 
@@ -49,7 +50,12 @@ export async function saveIdempotentResponse<T>(
 ): Promise<void> {
   const docId = buildIdemDocId(userId, key)
   await idempotencyDocRef<T>(docId).set(
-    { userId, key, createdAt: Date.now(), response },
+    {
+      userId,
+      key,
+      createdAt: Date.now(),
+      response: withoutUndefined(response),
+    },
     { merge: false }
   )
 }
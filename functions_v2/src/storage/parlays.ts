@@ -0,0 +1,475 @@
+import * as admin from 'firebase-admin'
+import type {
+  GameItem,
+  GameWeather,
+  PlayerInjury,
+  RosterPlayer,
+  SeasonType,
+} from '../providers/espn'
+import type { AIAnalysis, LegStructure, RiskLevel } from '../service/ai'
+import { structureLeg, type LegStructureContext } from '../service/markets'
+import type { LegOddsCheck } from '../service/odds'
+import type { ParlaySettlement } from '../service/settlement'
+import { withoutUndefined } from '../utils/firestore'
+
+const db = admin.firestore()
+
+export const PARLAY_PAGE_SIZE = 20
+export const MAX_PARLAY_PAGE_SIZE = 50
+
+export type StoredParlayLeg = LegStructure & {
+  betType: string
+  selection: string
+  odds: number
+  confidence: number
+  reasoning: string
+  gameId?: string
+  oddsCheck?: LegOddsCheck
+}
+
+export type ParlayMatchupTeam = {
+  teamId: string
+  name: string
+  abbrev: string
+  logo?: string
+  color?: string
+  alternateColor?: string
+}
+
+export type ParlayMatchup = {
+  gameId: string
+  week: number
+  seasonType?: SeasonType
+  startTime: string
+  home: ParlayMatchupTeam
+  away: ParlayMatchupTeam
+  // Venue and kickoff forecast at generation time
+  venue?: GameItem['venue']
+  weather?: GameWeather
+  // Injury reports at generation time
+  injuries?: { home: PlayerInjury[]; away: PlayerInjury[] }
+  prediction?: {
+    winner: string
+    projectedScore: { home: number; away: number }
+    winProbability: number
+  }
+}
+
+/** A generated parlay as returned by the generate routes */
+export type ParlayContent = {
+  parlayId: string
+  gameId: string
+  gameIds?: string[]
+  gameContext: string
+  legs: StoredParlayLeg[]
+  combinedOdds: number
+  parlayConfidence: number
+  gameSummary: AIAnalysis
+  rosterDataUsed: {
+    home: RosterPlayer[]
+    away: RosterPlayer[]
+  }
+  matchups?: ParlayMatchup[]
+}
+
+export type StoredParlay = ParlayContent & {
+  userId: string
+  // Filter fields; missing on documents saved before the history API
+  gameIds: string[]
+  week?: number
+  seasonType?: SeasonType
+  riskLevel?: RiskLevel
+  notes?: string
+  savedAt?: FirebaseFirestore.Timestamp
+  settlement?: ParlaySettlement
+}
+
+/** Generated but not (yet) saved; kept so saves cannot alter the content */
+export type GeneratedParlayRecord = {
+  userId: string
+  createdAt: number
+  week: number
+  seasonType: SeasonType
+  riskLevel: RiskLevel
+  parlay: ParlayContent
+}
+
+export type ParlayListFilters = {
+  week?: number
+  seasonType?: SeasonType
+  gameId?: string
+  riskLevel?: RiskLevel
+}
+
+export type ParlayPage = {
+  parlays: Array<{ id: string; parlay: StoredParlay }>
+  nextCursor: string | null
+}
+
+const EMPTY_PREDICTION = {
+  winner: '',
+  projectedScore: { home: 0, away: 0 },
+  winProbability: 0,
+}
+
+function toNumber(value: unknown, fallback = 0): number {
+  const numeric = typeof value === 'number' ? value : Number(value ?? fallback)
+  return Number.isFinite(numeric) ? numeric : fallback
+}
+
+/**
+ * Teams and players for one game of a stored parlay. Documents without
+ * matchups only name the teams in gameContext ("Away @ Home - Week N").
+ */
+function legStructureContext(
+  data: any,
+  gameId: string
+): LegStructureContext | null {
+  const matchup: ParlayMatchup | undefined = Array.isArray(data.matchups)
+    ? data.matchups.find((m: any) => m?.gameId === gameId)
+    : undefined
+  const [away, home] = matchup
+    ? [matchup.away, matchup.home]
+    : String(data.gameContext ?? '')
+        .replace(/\s+-\s+Week.*$/i, '')
+        .split(' @ ')
+        .map(name => ({ teamId: '', name: name.trim(), abbrev: '' }))
+  if (!away?.name || !home?.name) {
+    return null
+  }
+  return {
+    gameId,
+    home: { teamId: home.teamId, name: home.name, abbrev: home.abbrev },
+    away: { teamId: away.teamId, name: away.name, abbrev: away.abbrev },
+    players: [
+      ...(data.rosterDataUsed?.home ?? []),
+      ...(data.rosterDataUsed?.away ?? []),
+    ],
+  }
+}
+
+function normalizeLeg(
+  leg: any,
+  context: LegStructureContext | null
+): StoredParlayLeg {
+  // Keep structured fields from v2 responses
+  const structure = Object.fromEntries(
+    ['subject', 'market', 'side', 'line', 'period', 'oddsCheck']
+      .filter(key => leg?.[key] != null)
+      .map(key => [key, leg[key]])
+  )
+  const normalized: StoredParlayLeg = {
+    ...(leg?.gameId ? { gameId: leg.gameId } : {}),
+    betType: leg?.betType ?? leg?.type ?? 'moneyline',
+    selection: leg?.selection ?? leg?.pick ?? '',
+    odds: toNumber(leg?.odds),
+    confidence: toNumber(
+      leg?.confidence ?? leg?.confidencePct ?? leg?.confidencePercent
+    ),
+    reasoning: leg?.reasoning ?? leg?.analysis ?? '',
+    ...structure,
+  }
+  // Legs saved before structured fields existed only carry a selection string
+  return normalized.market || !context
+    ? normalized
+    : structureLeg(normalized, context)
+}
+
+/**
+ * Bring documents written by older clients up to the current shape: renamed
+ * odds and leg fields, and defaults for anything missing
+ */
+function normalizeParlay(id: string, data: any): StoredParlay {
+  const summary = data.gameSummary ?? {}
+  const prediction = summary.gamePrediction ?? EMPTY_PREDICTION
+  const gameId = data.gameId ?? ''
+  return {
+    ...data,
+    parlayId: data.parlayId ?? id,
+    gameId,
+    gameIds: data.gameIds ?? (gameId ? [gameId] : []),
+    gameContext: data.gameContext ?? '',
+    legs: Array.isArray(data.legs)
+      ? data.legs.map((leg: any) =>
+          normalizeLeg(leg, legStructureContext(data, leg?.gameId ?? gameId))
+        )
+      : [],
+    combinedOdds: toNumber(data.combinedOdds ?? data.estimatedOdds),
+    parlayConfidence: toNumber(data.parlayConfidence),
+    gameSummary: {
+      matchupSummary: summary.matchupSummary ?? '',
+      keyFactors: summary.keyFactors ?? [],
+      gamePrediction: {
+        winner: prediction.winner ?? '',
+        projectedScore: {
+          home: prediction.projectedScore?.home ?? 0,
+          away: prediction.projectedScore?.away ?? 0,
+        },
+        winProbability: prediction.winProbability ?? 0,
+      },
+    },
+    rosterDataUsed: {
+      home: data.rosterDataUsed?.home ?? [],
+      away: data.rosterDataUsed?.away ?? [],
+    },
+  }
+}
+
+function parlaysCollection() {
+  return db.collection('parlays').withConverter<StoredParlay>({
+    toFirestore: (data: StoredParlay) => data,
+    fromFirestore: (snap: FirebaseFirestore.QueryDocumentSnapshot) =>
+      normalizeParlay(snap.id, snap.data()),
+  })
+}
+
+function generatedParlayDocRef(parlayId: string) {
+  return db
+    .collection('v2_generated_parlays')
+    .doc(parlayId)
+    .withConverter<GeneratedParlayRecord>({
+      toFirestore: (data: GeneratedParlayRecord) => data,
+      fromFirestore: (snap: FirebaseFirestore.QueryDocumentSnapshot) =>
+        snap.data() as GeneratedParlayRecord,
+    })
+}
+
+/**
+ * Find saved parlays with at least one leg on the given game, covering both
+ * single-game (gameId) and multi-game (gameIds) documents
+ */
+export async function findParlaysForGame(
+  gameId: string
+): Promise<Array<{ id: string; parlay: StoredParlay }>> {
+  const [single, multi] = await Promise.all([
+    parlaysCollection().where('gameId', '==', gameId).get(),
+    parlaysCollection().where('gameIds', 'array-contains', gameId).get(),
+  ])
+  const byId = new Map<string, StoredParlay>()
+  for (const docSnap of [...single.docs, ...multi.docs]) {
+    byId.set(docSnap.id, docSnap.data())
+  }
+  return Array.from(byId, ([id, parlay]) => ({ id, parlay }))
+}
+
+export async function saveParlaySettlement(
+  parlayId: string,
+  settlement: ParlaySettlement
+): Promise<void> {
+  await parlaysCollection().doc(parlayId).update({ settlement })
+}
+
+/**
+ * Record a freshly generated parlay so the owner can save it by id later
+ */
+export async function recordGeneratedParlay(
+  userId: string,
+  parlay: ParlayContent,
+  options: { week: number; seasonType: SeasonType; riskLevel: RiskLevel }
+): Promise<void> {
+  await generatedParlayDocRef(parlay.parlayId).set({
+    userId,
+    createdAt: Date.now(),
+    week: options.week,
+    seasonType: options.seasonType,
+    riskLevel: options.riskLevel,
+    parlay: withoutUndefined(parlay),
+  })
+}
+
+/**
+ * Most recent generations, newest first, optionally for one user
+ */
+export async function listRecentGenerations(options: {
+  userId?: string
+  limit: number
+}): Promise<GeneratedParlayRecord[]> {
+  let query: FirebaseFirestore.Query = db.collection('v2_generated_parlays')
+  if (options.userId) {
+    query = query.where('userId', '==', options.userId)
+  }
+  const snap = await query
+    .orderBy('createdAt', 'desc')
+    .limit(options.limit)
+    .get()
+  return snap.docs.map(doc => doc.data() as GeneratedParlayRecord)
+}
+
+/**
+ * Save a generated parlay to the user's history under its parlayId. Saving
+ * again is a no-op. Returns null when the user never generated it.
+ */
+export async function saveGeneratedParlay(
+  userId: string,
+  parlayId: string,
+  notes?: string
+): Promise<StoredParlay | null> {
+  const ref = parlaysCollection().doc(parlayId)
+  return db.runTransaction(async (tx: FirebaseFirestore.Transaction) => {
+    const existing = await tx.get(ref)
+    if (existing.exists) {
+      const parlay = existing.data() as StoredParlay
+      return parlay.userId === userId ? parlay : null
+    }
+    const generated = await tx.get(generatedParlayDocRef(parlayId))
+    const record = generated.data()
+    if (!record || record.userId !== userId) {
+      return null
+    }
+    const parlay: StoredParlay = {
+      ...record.parlay,
+      userId,
+      gameIds: record.parlay.gameIds ?? [record.parlay.gameId],
+      week: record.week,
+      seasonType: record.seasonType,
+      riskLevel: record.riskLevel,
+      ...(notes ? { notes } : {}),
+      savedAt: admin.firestore.Timestamp.now(),
+    }
+    tx.set(ref, parlay)
+    return parlay
+  })
+}
+
+export async function getUserParlay(
+  userId: string,
+  parlayId: string
+): Promise<StoredParlay | null> {
+  const snap = await parlaysCollection().doc(parlayId).get()
+  const parlay = snap.data()
+  return parlay && parlay.userId === userId ? parlay : null
+}
+
+/** Stored fields the history filters query; see listUserParlays */
+export type ParlayFilterFields = {
+  gameIds: string[]
+  week?: number
+  seasonType?: SeasonType
+}
+
+/**
+ * One page of saved parlays in id order, keeping those missing a filter
+ * field (documents saved before the history API). nextCursor is null after
+ * the last page.
+ */
+export async function listParlaysMissingFilterFields(options: {
+  limit: number
+  cursor?: string
+}): Promise<{
+  parlays: Array<{ id: string; parlay: StoredParlay }>
+  scanned: number
+  nextCursor: string | null
+}> {
+  let query = db
+    .collection('parlays')
+    .orderBy(admin.firestore.FieldPath.documentId())
+  if (options.cursor) {
+    query = query.startAfter(options.cursor)
+  }
+  const snap = await query.limit(options.limit).get()
+  const missing = snap.docs.filter(docSnap => {
+    const data = docSnap.data()
+    return (
+      !Array.isArray(data.gameIds) ||
+      data.week == null ||
+      data.seasonType == null
+    )
+  })
+  return {
+    parlays: missing.map(docSnap => ({
+      id: docSnap.id,
+      parlay: normalizeParlay(docSnap.id, docSnap.data()),
+    })),
+    scanned: snap.size,
+    nextCursor:
+      snap.size === options.limit ? snap.docs[snap.size - 1].id : null,
+  }
+}
+
+export async function saveParlayFilterFields(
+  parlayId: string,
+  fields: ParlayFilterFields
+): Promise<void> {
+  await db.collection('parlays').doc(parlayId).update(withoutUndefined(fields))
+}
+
+/**
+ * Page through a user's saved parlays, newest first. The cursor is the id of
+ * the last parlay on the previous page.
+ *
+ * Filters query stored fields. Parlays saved before the history API only
+ * match week, seasonType and gameId filters once POST /admin/parlays/backfill
+ * has written those fields; their risk level was never recorded, so they
+ * never match a riskLevel filter.
+ */
+export async function listUserParlays(
+  userId: string,
+  filters: ParlayListFilters,
+  options: { limit: number; cursor?: string }
+): Promise<ParlayPage> {
+  let query = parlaysCollection().where('userId', '==', userId)
+  if (filters.gameId) {
+    query = query.where('gameIds', 'array-contains', filters.gameId)
+  }
+  if (filters.seasonType) {
+    query = query.where('seasonType', '==', filters.seasonType)
+  }
+  if (filters.week != null) {
+    query = query.where('week', '==', filters.week)
+  }
+  if (filters.riskLevel) {
+    query = query.where('riskLevel', '==', filters.riskLevel)
+  }
+  query = query.orderBy('savedAt', 'desc')
+
+  if (options.cursor) {
+    const cursor = await parlaysCollection().doc(options.cursor).get()
+    if (cursor.exists && cursor.data()?.userId === userId) {
+      query = query.startAfter(cursor)
+    }
+  }
+
+  // One extra document tells us whether another page exists
+  const snap = await query.limit(options.limit + 1).get()
+  const docs = snap.docs.slice(0, options.limit)
+  return {
+    parlays: docs.map(docSnap => ({ id: docSnap.id, parlay: docSnap.data() })),
+    nextCursor:
+      snap.docs.length > options.limit ? docs[docs.length - 1].id : null,
+  }
+}
+
+export async function updateUserParlayNotes(
+  userId: string,
+  parlayId: string,
+  notes: string
+): Promise<StoredParlay | null> {
+  const ref = parlaysCollection().doc(parlayId)
+  return db.runTransaction(async (tx: FirebaseFirestore.Transaction) => {
+    const parlay = (await tx.get(ref)).data()
+    if (!parlay || parlay.userId !== userId) {
+      return null
+    }
+    tx.update(ref, { notes })
+    return { ...parlay, notes }
+  })
+}
+
+/**
+ * Delete a saved parlay. Returns false when it does not exist or belongs to
+ * another user.
+ */
+export async function deleteUserParlay(
+  userId: string,
+  parlayId: string
+): Promise<boolean> {
+  const ref = parlaysCollection().doc(parlayId)
+  return db.runTransaction(async (tx: FirebaseFirestore.Transaction) => {
+    const parlay = (await tx.get(ref)).data()
+    if (!parlay || parlay.userId !== userId) {
+      return false
+    }
+    tx.delete(ref)
+    return true
+  })
+}
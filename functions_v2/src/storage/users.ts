@@ -0,0 +1,58 @@
+import * as admin from 'firebase-admin'
+
+const db = admin.firestore()
+
+/**
+ * Server-managed fields on a `users` profile. Clients own the rest of the
+ * document; firestore.rules stops them writing these.
+ */
+export type UserAccountFields = {
+  tier?: string
+  generationDisabled?: boolean
+  generationDisabledReason?: string
+}
+
+function userDocRef(uid: string) {
+  return db.collection('users').doc(uid)
+}
+
+export async function getUserAccountFields(
+  uid: string
+): Promise<UserAccountFields> {
+  const snap = await userDocRef(uid).get()
+  if (!snap.exists) {
+    return {}
+  }
+  const { tier, generationDisabled, generationDisabledReason } =
+    snap.data() as UserAccountFields
+  return {
+    ...(typeof tier === 'string' && { tier }),
+    ...(generationDisabled === true && { generationDisabled }),
+    ...(typeof generationDisabledReason === 'string' && {
+      generationDisabledReason,
+    }),
+  }
+}
+
+/**
+ * Block or allow parlay generation for a user. Enabling clears the reason.
+ */
+export async function setGenerationDisabled(
+  uid: string,
+  disabled: boolean,
+  reason?: string
+): Promise<void> {
+  await userDocRef(uid).set(
+    disabled
+      ? {
+          generationDisabled: true,
+          generationDisabledReason:
+            reason ?? admin.firestore.FieldValue.delete(),
+        }
+      : {
+          generationDisabled: admin.firestore.FieldValue.delete(),
+          generationDisabledReason: admin.firestore.FieldValue.delete(),
+        },
+    { merge: true }
+  )
+}
@@ -1,9 +1,61 @@
 import * as admin from 'firebase-admin'
 
-type CacheEntry<T> = { value: T; updatedAt: number }
+type CacheEntry<T> = {
+  value: T
+  updatedAt: number
+  // When the entry is past serving even stale; the cleanup job deletes it then
+  expiresAt?: number
+}
+
+/**
+ * A cache document and how long its value stays good. Build these through the
+ * registry in service/cacheKeys rather than by hand.
+ */
+export type CacheKey<T> = {
+  key: string
+  ttlMs: number
+  // How long past the TTL a value may be served while it is refreshed
+  staleMs?: number
+  // Carries the value type only; never set
+  readonly valueType?: T
+}
 
 const db = admin.firestore()
 
+// In-process tier in front of Firestore. Each function instance keeps its own
+// copy, so entries carry Firestore's updatedAt and expire on the same clock.
+const MEMORY_MAX_ENTRIES = 500
+const memory = new Map<string, CacheEntry<unknown>>()
+
+// Fetches in progress, so concurrent misses for a key share one fetch
+const inFlight = new Map<string, Promise<unknown>>()
+
+export type CacheStats = {
+  memoryHits: number
+  firestoreHits: number
+  misses: number
+  staleServed: number
+  coalesced: number
+  revalidationErrors: number
+  memoryEntries: number
+}
+
+const counters: Omit<CacheStats, 'memoryEntries'> = {
+  memoryHits: 0,
+  firestoreHits: 0,
+  misses: 0,
+  staleServed: 0,
+  coalesced: 0,
+  revalidationErrors: 0,
+}
+
+/**
+ * Hit/miss counters for this instance since it started
+ */
+export function getCacheStats(): CacheStats {
+  return { ...counters, memoryEntries: memory.size }
+}
+
 function cacheDocRef<T>(key: string) {
   return db
     .collection('v2_cache')
@@ -15,25 +67,187 @@ function cacheDocRef<T>(key: string) {
     })
 }
 
-export async function getCached<T>(
+// Map iteration follows insertion order, so re-inserting on every access keeps
+// the least recently used entry first
+function remember<T>(key: string, entry: CacheEntry<T>): void {
+  memory.delete(key)
+  memory.set(key, entry)
+  if (memory.size > MEMORY_MAX_ENTRIES) {
+    const oldest = memory.keys().next().value
+    if (oldest !== undefined) {
+      memory.delete(oldest)
+    }
+  }
+}
+
+function recall<T>(key: string): CacheEntry<T> | null {
+  const entry = memory.get(key) as CacheEntry<T> | undefined
+  if (!entry) {
+    return null
+  }
+  remember(key, entry)
+  return entry
+}
+
+function isFresh(entry: CacheEntry<unknown>, ttlMs: number): boolean {
+  return Date.now() - entry.updatedAt <= ttlMs
+}
+
+/**
+ * Read an entry of any age: memory when it is fresh, otherwise Firestore
+ * (another instance may have refreshed it), falling back to a stale memory
+ * copy
+ */
+async function readEntry<T>(
   key: string,
   ttlMs: number
-): Promise<T | null> {
+): Promise<CacheEntry<T> | null> {
+  const local = recall<T>(key)
+  if (local && isFresh(local, ttlMs)) {
+    counters.memoryHits++
+    return local
+  }
   const docSnap = await cacheDocRef<T>(key).get()
-  if (!docSnap.exists) {
-    return null
+  const stored = docSnap.exists ? (docSnap.data() as CacheEntry<T>) : null
+  if (stored && (!local || stored.updatedAt > local.updatedAt)) {
+    remember(key, stored)
+    if (isFresh(stored, ttlMs)) {
+      counters.firestoreHits++
+    }
+    return stored
   }
-  const data = docSnap.data() as CacheEntry<T>
-  const now = Date.now()
-  if (now - data.updatedAt > ttlMs) {
+  return local
+}
+
+export async function getCached<T>({
+  key,
+  ttlMs,
+}: CacheKey<T>): Promise<T | null> {
+  const entry = await readEntry<T>(key, ttlMs)
+  if (!entry || !isFresh(entry, ttlMs)) {
+    counters.misses++
     return null
   }
-  return data.value
+  return entry.value
+}
+
+export async function setCached<T>(
+  { key, ttlMs, staleMs = 0 }: CacheKey<T>,
+  value: T
+): Promise<void> {
+  const updatedAt = Date.now()
+  const entry = { value, updatedAt, expiresAt: updatedAt + ttlMs + staleMs }
+  remember(key, entry)
+  await cacheDocRef<T>(key).set(entry, { merge: true })
+}
+
+/**
+ * Drop a key from this instance and from Firestore. Other instances keep
+ * their in-memory copy until it expires.
+ */
+export async function deleteCached({ key }: CacheKey<unknown>): Promise<void> {
+  memory.delete(key)
+  await cacheDocRef(key).delete()
+}
+
+function refresh<T>(
+  cacheKey: CacheKey<T>,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const { key } = cacheKey
+  const pending = inFlight.get(key) as Promise<T> | undefined
+  if (pending) {
+    counters.coalesced++
+    return pending
+  }
+  const promise = (async () => {
+    const value = await fetcher()
+    if (value !== null) {
+      await setCached(cacheKey, value)
+    }
+    return value
+  })().finally(() => inFlight.delete(key))
+  inFlight.set(key, promise)
+  return promise
 }
 
-export async function setCached<T>(key: string, value: T): Promise<void> {
-  await cacheDocRef<T>(key).set(
-    { value, updatedAt: Date.now() },
-    { merge: true }
+/**
+ * Read-through cache: returns the cached value while it is younger than the
+ * key's TTL, otherwise runs `fetcher` (once per key per instance, however
+ * many callers are waiting) and caches its result. Null results are not
+ * cached.
+ *
+ * Keys with `staleMs` return an expired value up to `ttlMs + staleMs` old
+ * immediately while a background fetch refreshes it; errors from that fetch
+ * are logged and the stale value stays in place.
+ */
+export async function cached<T>(
+  cacheKey: CacheKey<T>,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const { key, ttlMs, staleMs } = cacheKey
+  const entry = await readEntry<T>(key, ttlMs)
+  if (entry && isFresh(entry, ttlMs)) {
+    return entry.value
+  }
+  counters.misses++
+  if (entry && staleMs && isFresh(entry, ttlMs + staleMs)) {
+    counters.staleServed++
+    refresh(cacheKey, fetcher).catch(error => {
+      counters.revalidationErrors++
+      console.error('Cache revalidation failed', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+    return entry.value
+  }
+  return refresh(cacheKey, fetcher)
+}
+
+// Entries written before expiresAt existed are swept once they are this old
+const LEGACY_ENTRY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+const CLEANUP_BATCH_SIZE = 400
+
+async function deleteMatching(
+  query: FirebaseFirestore.Query,
+  shouldDelete: (
+    doc: FirebaseFirestore.QueryDocumentSnapshot
+  ) => boolean = () => true
+): Promise<number> {
+  let deleted = 0
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined
+  for (;;) {
+    // Page past kept documents, or they would be fetched again forever
+    const page = cursor ? query.startAfter(cursor) : query
+    const snap = await page.limit(CLEANUP_BATCH_SIZE).get()
+    if (snap.empty) {
+      return deleted
+    }
+    cursor = snap.docs[snap.docs.length - 1]
+    const doomed = snap.docs.filter(shouldDelete)
+    if (doomed.length > 0) {
+      const batch = db.batch()
+      doomed.forEach(doc => batch.delete(doc.ref))
+      await batch.commit()
+      deleted += doomed.length
+    }
+  }
+}
+
+/**
+ * Delete cache documents past their expiresAt, plus pre-expiresAt documents
+ * (no expiresAt field) older than a week. Returns how many were removed.
+ */
+export async function purgeExpiredCache(): Promise<number> {
+  const now = Date.now()
+  const collection = db.collection('v2_cache')
+  return (
+    (await deleteMatching(collection.where('expiresAt', '<', now))) +
+    (await deleteMatching(
+      collection.where('updatedAt', '<', now - LEGACY_ENTRY_MAX_AGE_MS),
+      // Entries with an expiresAt are left to the query above, however old
+      doc => doc.get('expiresAt') == null
+    ))
   )
 }
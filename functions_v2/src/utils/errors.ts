@@ -1,6 +1,12 @@
 import express from 'express'
+import type { QuotaInfo } from '../middleware/quota'
+import type { RateLimitInfo } from '../middleware/rateLimit'
 
-export type ErrorDetails = { fields?: Record<string, string[]> }
+export type ErrorDetails = {
+  fields?: Record<string, string[]>
+  rateLimitInfo?: RateLimitInfo
+  quotaInfo?: QuotaInfo
+}
 export type ErrorBody = {
   code: string
   message: string
@@ -0,0 +1,7 @@
+/**
+ * Firestore rejects `undefined` fields; drop them from plain JSON data before
+ * writing. Not for values holding Timestamps or other class instances.
+ */
+export function withoutUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
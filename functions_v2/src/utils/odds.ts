@@ -0,0 +1,28 @@
+/**
+ * Convert American odds (e.g. -110, +150) to decimal odds
+ */
+export function americanToDecimal(odds: number): number {
+  return odds > 0 ? odds / 100 + 1 : 100 / Math.abs(odds) + 1
+}
+
+/**
+ * Convert decimal odds back to American format
+ */
+export function decimalToAmerican(decimalOdds: number): number {
+  if (decimalOdds >= 2) {
+    return Math.round((decimalOdds - 1) * 100)
+  }
+  return Math.round(-100 / (decimalOdds - 1))
+}
+
+/**
+ * Combine any number of leg prices into a single parlay price.
+ * Legs are converted to decimal, multiplied, then converted back to American.
+ */
+export function calculateCombinedOdds(legOdds: number[]): number {
+  const decimalOdds = legOdds.reduce(
+    (acc, odds) => acc * americanToDecimal(odds),
+    1
+  )
+  return decimalToAmerican(decimalOdds)
+}
@@ -17,16 +17,20 @@ import { ResponsibleGambling } from './components/legal/ResponsibleGambling'
 import { LoadingScreen } from './components/LoadingScreen'
 import ParlAIdLogo from './components/ParlAIdLogo'
 import { ParlayHistory } from './components/ParlayHistory'
+import RateLimitIndicator from './components/RateLimitIndicator'
 import AuthProvider from './contexts/authentication/AuthContext'
 import { useAgeVerification } from './hooks/useAgeVerification'
 import { useAuth } from './hooks/useAuth'
 import { useAvailableWeeks } from './hooks/useAvailableWeek'
 import { useCurrentWeek } from './hooks/useCurrentWeek'
+import { useFeatureFlag } from './hooks/useFeatureFlags'
 import { useNFLGames } from './hooks/useNFLGames'
 import { useParlayGeneratorSelector } from './hooks/useParlayGeneratorSelector'
-import useGeneralStore from './store/generalStore'
+import { useRateLimit } from './hooks/useRateLimit'
 import useParlayStore from './store/parlayStore'
 import { theme } from './theme'
+import { NFLWeek } from './types'
+import { isSameWeek } from './utils'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -41,7 +45,17 @@ function AppContent() {
   const selectedGame = useParlayStore(state => state.selectedGame)
   const setSelectedGame = useParlayStore(state => state.setSelectedGame)
   const parlay = useParlayStore(state => state.parlay)
-  const devMockOverride = useGeneralStore(state => state.devMockOverride)
+  const numLegs = useParlayStore(state => state.numLegs)
+  const betTypes = useParlayStore(state => state.betTypes)
+  const multiGameMode = useParlayStore(state => state.multiGameMode)
+  const selectedGames = useParlayStore(state => state.selectedGames)
+  const showRateLimitStatus = useFeatureFlag('rate_limit_status')
+  const {
+    rateLimitInfo,
+    quotaInfo,
+    isLoading: rateLimitLoading,
+    error: rateLimitError,
+  } = useRateLimit()
 
   const { user, loading } = useAuth()
   const [historyOpen, setHistoryOpen] = useState(false)
@@ -60,11 +74,13 @@ function AppContent() {
   const { availableWeeks } = useAvailableWeeks()
 
   // Initialize selectedWeek with currentWeek
-  const [selectedWeek, setSelectedWeek] = useState<number>(currentWeek || 1)
+  const [selectedWeek, setSelectedWeek] = useState<NFLWeek>(
+    currentWeek || { week: 1, seasonType: 'regular' }
+  )
 
   // Keep selectedWeek in sync with currentWeek when it changes
   useEffect(() => {
-    if (currentWeek && currentWeek !== selectedWeek) {
+    if (currentWeek && !isSameWeek(currentWeek, selectedWeek)) {
       setSelectedWeek(currentWeek)
     }
   }, [currentWeek])
@@ -78,6 +94,7 @@ function AppContent() {
     isPending: parlayLoading,
     error: parlayError,
     reset: resetParlay,
+    serviceStatus,
   } = useParlayGeneratorSelector()
 
   // Check age verification status
@@ -87,17 +104,28 @@ function AppContent() {
     }
   }, [ageLoading, isVerified])
 
-  const handleWeekChange = (week: number) => {
+  const handleWeekChange = (week: NFLWeek) => {
     setSelectedWeek(week)
     setSelectedGame(null)
     resetParlay()
   }
 
+  const gamesToGenerate = multiGameMode
+    ? selectedGames
+    : selectedGame
+      ? [selectedGame]
+      : []
+  const hasGameSelection = multiGameMode
+    ? selectedGames.length >= 2
+    : !!selectedGame
+
   const handleGenerateParlay = () => {
-    if (selectedGame) {
+    if (hasGameSelection) {
       generateParlay({
-        game: selectedGame,
-        shouldUseMock: devMockOverride,
+        games: gamesToGenerate,
+        shouldUseMock: serviceStatus.shouldUseMock,
+        numLegs,
+        betTypes,
       })
     }
   }
@@ -187,11 +215,22 @@ function AppContent() {
             NFL Parlay Builder
           </Typography>
 
+          {showRateLimitStatus && (
+            <Box sx={{ mb: 3 }}>
+              <RateLimitIndicator
+                rateLimitInfo={rateLimitInfo}
+                quotaInfo={quotaInfo}
+                isLoading={rateLimitLoading}
+                error={rateLimitError}
+              />
+            </Box>
+          )}
+
           <GameSelector
             games={games || []}
             loading={gamesLoading || weekLoading}
             onGenerateParlay={handleGenerateParlay}
-            canGenerate={!!selectedGame && !parlayLoading}
+            canGenerate={hasGameSelection && !parlayLoading}
             currentWeek={selectedWeek}
             onWeekChange={handleWeekChange}
             availableWeeks={availableWeeks}
@@ -0,0 +1,93 @@
+import { Box, Chip, Typography } from '@mui/material'
+import React from 'react'
+import { BET_TYPE_CATEGORIES } from '../config/parlay'
+import type { BetTypeFilter } from '../types'
+
+interface BetTypeSelectorProps {
+  value: BetTypeFilter
+  onChange: (betTypes: BetTypeFilter) => void
+  disabled?: boolean
+}
+
+/**
+ * Bet type picker - lets users restrict the AI to one or more bet type groups.
+ * Selecting every group (or none) is sent to the API as 'all'.
+ */
+const BetTypeSelector: React.FC<BetTypeSelectorProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const isAll = value === 'all'
+
+  const isCategorySelected = (categoryId: string): boolean => {
+    if (isAll) {
+      return false
+    }
+    const category = BET_TYPE_CATEGORIES.find(c => c.id === categoryId)
+    return !!category && category.betTypes.every(t => value.includes(t))
+  }
+
+  const handleAllClick = () => {
+    onChange('all')
+  }
+
+  const handleCategoryClick = (categoryId: string) => {
+    const selectedIds = BET_TYPE_CATEGORIES.filter(c =>
+      isCategorySelected(c.id)
+    ).map(c => c.id)
+    const nextIds = selectedIds.includes(categoryId)
+      ? selectedIds.filter(id => id !== categoryId)
+      : [...selectedIds, categoryId]
+
+    if (nextIds.length === 0 || nextIds.length === BET_TYPE_CATEGORIES.length) {
+      onChange('all')
+      return
+    }
+
+    onChange(
+      BET_TYPE_CATEGORIES.filter(c => nextIds.includes(c.id)).flatMap(
+        c => c.betTypes
+      )
+    )
+  }
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+        Bet Types
+      </Typography>
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'center',
+          gap: 1,
+        }}
+      >
+        <Chip
+          label="All"
+          color={isAll ? 'primary' : 'default'}
+          variant={isAll ? 'filled' : 'outlined'}
+          onClick={handleAllClick}
+          disabled={disabled}
+        />
+        {BET_TYPE_CATEGORIES.map(category => {
+          const selected = isCategorySelected(category.id)
+          return (
+            <Chip
+              key={category.id}
+              label={category.label}
+              color={selected ? 'primary' : 'default'}
+              variant={selected ? 'filled' : 'outlined'}
+              onClick={() => handleCategoryClick(category.id)}
+              disabled={disabled}
+            />
+          )
+        })}
+      </Box>
+    </Box>
+  )
+}
+
+export default BetTypeSelector
@@ -30,6 +30,7 @@ const DevStatus: React.FC = () => {
   const { serviceStatus } = useParlayGeneratorSelector()
   const {
     rateLimitInfo,
+    quotaInfo,
     isLoading: rateLimitLoading,
     error: rateLimitError,
   } = useRateLimit()
@@ -51,16 +52,7 @@ const DevStatus: React.FC = () => {
     setDevMockOverride(event.target.checked)
   }
 
-  // Determine current mode for display
-  const getCurrentMode = () => {
-    if (devMockOverride !== null) {
-      return devMockOverride ? 'MOCK (Override)' : 'REAL (Override)'
-    }
-    return serviceStatus?.usingMock ? 'MOCK (Default)' : 'REAL (Default)'
-  }
-
-  const isCurrentlyMock =
-    devMockOverride !== null ? devMockOverride : serviceStatus?.usingMock
+  const isCurrentlyMock = serviceStatus.usingMock
 
   return (
     <Paper
@@ -114,60 +106,60 @@ const DevStatus: React.FC = () => {
       <Collapse in={expanded}>
         <Box sx={{ p: 2, pt: 0 }}>
           <Stack spacing={2}>
-            {/* Mock/Real Toggle */}
-            <Box>
-              <Typography variant="subtitle2" gutterBottom>
-                <ToggleIcon
-                  fontSize="small"
-                  sx={{ mr: 1, verticalAlign: 'middle' }}
-                />
-                Service Mode
-              </Typography>
-              <Stack spacing={1}>
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={
-                        devMockOverride !== null
-                          ? devMockOverride
-                          : serviceStatus?.usingMock || false
-                      }
-                      onChange={handleToggleChange}
-                      color="warning"
-                    />
-                  }
-                  label={<Typography variant="body2">Use Mock Data</Typography>}
-                />
-                <Stack direction="row" spacing={1} flexWrap="wrap">
-                  <Chip
-                    label={getCurrentMode()}
-                    size="small"
-                    color={isCurrentlyMock ? 'warning' : 'success'}
+            {/* Mock/Real Toggle - only for users allowed to pick a provider */}
+            {serviceStatus.providerOverride && (
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  <ToggleIcon
+                    fontSize="small"
+                    sx={{ mr: 1, verticalAlign: 'middle' }}
                   />
-                  <Chip
-                    label={serviceStatus?.environment || 'Unknown'}
-                    size="small"
-                    variant="outlined"
+                  Service Mode
+                </Typography>
+                <Stack spacing={1}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={devMockOverride}
+                        onChange={handleToggleChange}
+                        color="warning"
+                      />
+                    }
+                    label={
+                      <Typography variant="body2">Use Mock Data</Typography>
+                    }
                   />
-                  {serviceStatus?.usingCloudFunction && !isCurrentlyMock && (
+                  <Stack direction="row" spacing={1} flexWrap="wrap">
                     <Chip
-                      label="Cloud Functions"
+                      label={
+                        isCurrentlyMock ? 'MOCK (Override)' : 'REAL (Override)'
+                      }
+                      size="small"
+                      color={isCurrentlyMock ? 'warning' : 'success'}
+                    />
+                    <Chip
+                      label={serviceStatus?.environment || 'Unknown'}
                       size="small"
-                      color="info"
                       variant="outlined"
                     />
-                  )}
-                </Stack>
-                {devMockOverride !== null && (
+                    {serviceStatus?.usingCloudFunction && !isCurrentlyMock && (
+                      <Chip
+                        label="Cloud Functions"
+                        size="small"
+                        color="info"
+                        variant="outlined"
+                      />
+                    )}
+                  </Stack>
                   <Typography variant="caption" color="text.secondary">
                     Override active -
                     {devMockOverride ? 'forcing mock mode' : 'forcing real API'}
                   </Typography>
-                )}
-              </Stack>
-            </Box>
+                </Stack>
+              </Box>
+            )}
 
-            <Divider />
+            {serviceStatus.providerOverride && <Divider />}
 
             {/* Rate Limiting Status - Only show for real API */}
             {!isCurrentlyMock && (
@@ -177,6 +169,7 @@ const DevStatus: React.FC = () => {
                 </Typography>
                 <RateLimitIndicator
                   rateLimitInfo={rateLimitInfo}
+                  quotaInfo={quotaInfo}
                   isLoading={rateLimitLoading}
                   error={rateLimitError}
                 />
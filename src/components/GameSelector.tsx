@@ -4,18 +4,27 @@ import {
   Button,
   Card,
   CardContent,
+  Checkbox,
+  Chip,
   CircularProgress,
   FormControl,
+  FormControlLabel,
   InputLabel,
   MenuItem,
   Select,
+  Switch,
   Typography,
 } from '@mui/material'
 import { SelectChangeEvent } from '@mui/material/Select'
-import React from 'react'
+import React, { useEffect } from 'react'
+import { MAX_PARLAY_GAMES, PARLAY_LEG_OPTIONS } from '../config/parlay'
+import { useFeatureFlag } from '../hooks/useFeatureFlags'
 import { useParlayGenerator } from '../hooks/useParlayGenerator'
 import useParlayStore from '../store/parlayStore'
-import type { NFLGame } from '../types'
+import type { NFLGame, NFLWeek } from '../types'
+import { getWeekLabel } from '../utils'
+import BetTypeSelector from './BetTypeSelector'
+import TeamLogo from './TeamLogo'
 import WeekSelector from './WeekSelector'
 
 interface GameSelectorProps {
@@ -24,9 +33,9 @@ interface GameSelectorProps {
   onGenerateParlay: () => void
   canGenerate: boolean
   // Week selector props
-  currentWeek: number
-  onWeekChange: (week: number) => void
-  availableWeeks: number[]
+  currentWeek: NFLWeek
+  onWeekChange: (week: NFLWeek) => void
+  availableWeeks: NFLWeek[]
   weekLoading?: boolean
 }
 
@@ -42,17 +51,80 @@ const GameSelector: React.FC<GameSelectorProps> = ({
 }) => {
   const selectedGame = useParlayStore(state => state.selectedGame)
   const setSelectedGame = useParlayStore(state => state.setSelectedGame)
+  const numLegs = useParlayStore(state => state.numLegs)
+  const setNumLegs = useParlayStore(state => state.setNumLegs)
+  const betTypes = useParlayStore(state => state.betTypes)
+  const setBetTypes = useParlayStore(state => state.setBetTypes)
+  const multiGameMode = useParlayStore(state => state.multiGameMode)
+  const setMultiGameMode = useParlayStore(state => state.setMultiGameMode)
+  const selectedGames = useParlayStore(state => state.selectedGames)
+  const setSelectedGames = useParlayStore(state => state.setSelectedGames)
   const { reset: resetParlay } = useParlayGenerator()
+  const multiGameEnabled = useFeatureFlag('multi_game_parlays')
 
-  const handleGameChange = (event: SelectChangeEvent<string>) => {
-    const gameId = event.target.value
-    const game = games.find(g => g.id === gameId)
+  // Leave multi-game mode if the flag is turned off for this user
+  useEffect(() => {
+    if (!multiGameEnabled && multiGameMode) {
+      setMultiGameMode(false)
+    }
+  }, [multiGameEnabled, multiGameMode, setMultiGameMode])
+
+  // Multi-game selections persist across week changes; only this week's
+  // games are shown as checked in the dropdown
+  const selectedIdsThisWeek = selectedGames
+    .filter(g => games.some(game => game.id === g.id))
+    .map(g => g.id)
+  const hasSelection = multiGameMode ? selectedGames.length > 0 : !!selectedGame
+  const legOptions = multiGameMode
+    ? PARLAY_LEG_OPTIONS.filter(count => count >= selectedGames.length)
+    : PARLAY_LEG_OPTIONS
+
+  const handleGameChange = (event: SelectChangeEvent<string | string[]>) => {
+    const value = event.target.value
+    if (multiGameMode) {
+      const ids = typeof value === 'string' ? value.split(',') : value
+      const otherWeeks = selectedGames.filter(
+        g => !games.some(game => game.id === g.id)
+      )
+      const thisWeek = games.filter(g => ids.includes(g.id))
+      handleSelectedGamesChange([...otherWeeks, ...thisWeek])
+      return
+    }
+    const game = games.find(g => g.id === value)
     if (game) {
       setSelectedGame(game)
       resetParlay()
     }
   }
 
+  const handleSelectedGamesChange = (nextGames: NFLGame[]) => {
+    const capped = nextGames.slice(0, MAX_PARLAY_GAMES)
+    setSelectedGames(capped)
+    if (capped.length > numLegs) {
+      setNumLegs(capped.length)
+    }
+    resetParlay()
+  }
+
+  const handleMultiGameToggle = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const enabled = event.target.checked
+    setMultiGameMode(enabled)
+    if (enabled && selectedGame) {
+      handleSelectedGamesChange([selectedGame])
+    } else {
+      resetParlay()
+    }
+  }
+
+  const handleNumLegsChange = (event: SelectChangeEvent<number>) => {
+    setNumLegs(Number(event.target.value))
+  }
+
+  const formatGameShort = (game: NFLGame) =>
+    `${game.seasonType === 'regular' ? `Wk ${game.week}` : getWeekLabel(game)}: ${game.awayTeam?.abbreviation || 'UNK'} @ ${game.homeTeam?.abbreviation || 'UNK'}`
+
   const formatGameDisplay = (game: NFLGame) => {
     const awayTeam = game.awayTeam || { displayName: 'Unknown Team' }
     const homeTeam = game.homeTeam || { displayName: 'Unknown Team' }
@@ -84,9 +156,29 @@ const GameSelector: React.FC<GameSelectorProps> = ({
   return (
     <Card sx={{ mb: 3 }}>
       <CardContent>
-        <Typography variant="h6" gutterBottom>
-          Select Game
-        </Typography>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <Typography variant="h6" gutterBottom>
+            {multiGameMode ? 'Select Games' : 'Select Game'}
+          </Typography>
+          {multiGameEnabled && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={multiGameMode}
+                  onChange={handleMultiGameToggle}
+                  disabled={loading}
+                />
+              }
+              label={<Typography variant="body2">Multi-game</Typography>}
+            />
+          )}
+        </Box>
 
         <Box sx={{ mb: 3, display: 'flex', alignItems: 'center', gap: 2 }}>
           <WeekSelector
@@ -106,7 +198,7 @@ const GameSelector: React.FC<GameSelectorProps> = ({
         {games.length === 0 && !loading ? (
           <Box sx={{ textAlign: 'center', py: 3 }}>
             <Typography variant="body1" color="text.secondary">
-              No games found for Week {currentWeek}
+              No games found for {getWeekLabel(currentWeek)}
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
               Try selecting a different week
@@ -115,13 +207,33 @@ const GameSelector: React.FC<GameSelectorProps> = ({
         ) : (
           <>
             <FormControl fullWidth sx={{ mb: 3 }} disabled={loading}>
-              <InputLabel id="game-select-label">Choose NFL Game</InputLabel>
-              <Select
+              <InputLabel id="game-select-label">
+                {multiGameMode
+                  ? `Choose up to ${MAX_PARLAY_GAMES} NFL Games`
+                  : 'Choose NFL Game'}
+              </InputLabel>
+              <Select<string | string[]>
                 labelId="game-select-label"
                 id="game-select"
-                value={selectedGame?.id || ''}
-                label="Choose NFL Game"
+                multiple={multiGameMode}
+                value={
+                  multiGameMode ? selectedIdsThisWeek : selectedGame?.id || ''
+                }
+                label={
+                  multiGameMode
+                    ? `Choose up to ${MAX_PARLAY_GAMES} NFL Games`
+                    : 'Choose NFL Game'
+                }
                 onChange={handleGameChange}
+                renderValue={
+                  multiGameMode
+                    ? value =>
+                        games
+                          .filter(g => (value as string[]).includes(g.id))
+                          .map(formatGameShort)
+                          .join(', ')
+                    : undefined
+                }
                 native={false}
                 variant="outlined"
                 MenuProps={{
@@ -170,11 +282,17 @@ const GameSelector: React.FC<GameSelectorProps> = ({
                 }}
               >
                 {games.map(game => {
+                  const isChecked = selectedIdsThisWeek.includes(game.id)
                   return (
                     <MenuItem
                       key={game.id}
                       value={game.id}
-                      disabled={game.status === 'final'} // Disable completed games
+                      disabled={
+                        game.status === 'final' || // Disable completed games
+                        (multiGameMode &&
+                          !isChecked &&
+                          selectedGames.length >= MAX_PARLAY_GAMES)
+                      }
                       sx={{
                         padding: '12px 16px',
                         minHeight: '48px',
@@ -204,6 +322,23 @@ const GameSelector: React.FC<GameSelectorProps> = ({
                           width: '100%',
                         }}
                       >
+                        {multiGameMode && (
+                          <Checkbox
+                            checked={isChecked}
+                            size="small"
+                            sx={{ p: 0, mr: 1 }}
+                          />
+                        )}
+                        <TeamLogo
+                          abbrev={game.awayTeam.abbreviation}
+                          logo={game.awayTeam.logo}
+                          color={game.awayTeam.color}
+                        />
+                        <TeamLogo
+                          abbrev={game.homeTeam.abbreviation}
+                          logo={game.homeTeam.logo}
+                          color={game.homeTeam.color}
+                        />
                         <Typography
                           variant="body1"
                           sx={{ fontWeight: 500, flex: 1 }}
@@ -220,30 +355,96 @@ const GameSelector: React.FC<GameSelectorProps> = ({
               </Select>
             </FormControl>
 
-            {selectedGame && (
+            {hasSelection && (
               <Box sx={{ textAlign: 'center' }}>
-                <Typography
-                  variant="body2"
-                  color="text.secondary"
-                  sx={{ mb: 2 }}
-                >
-                  Selected: <strong>{formatGameDisplay(selectedGame)}</strong>
-                </Typography>
+                {multiGameMode ? (
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexWrap: 'wrap',
+                      justifyContent: 'center',
+                      gap: 1,
+                      mb: 2,
+                    }}
+                  >
+                    {selectedGames.map(game => (
+                      <Chip
+                        key={game.id}
+                        label={formatGameShort(game)}
+                        onDelete={() =>
+                          handleSelectedGamesChange(
+                            selectedGames.filter(g => g.id !== game.id)
+                          )
+                        }
+                        color="primary"
+                        variant="outlined"
+                      />
+                    ))}
+                  </Box>
+                ) : (
+                  selectedGame && (
+                    <Typography
+                      variant="body2"
+                      color="text.secondary"
+                      sx={{ mb: 2 }}
+                    >
+                      Selected:{' '}
+                      <strong>{formatGameDisplay(selectedGame)}</strong>
+                    </Typography>
+                  )
+                )}
+
+                <BetTypeSelector
+                  value={betTypes}
+                  onChange={setBetTypes}
+                  disabled={loading}
+                />
 
-                <Button
-                  variant="contained"
-                  size="large"
-                  startIcon={<CasinoIcon />}
-                  onClick={onGenerateParlay}
-                  disabled={!canGenerate || loading}
+                <Box
                   sx={{
-                    px: 4,
-                    py: 1.5,
-                    minHeight: '48px',
+                    display: 'flex',
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    flexWrap: 'wrap',
+                    gap: 2,
                   }}
                 >
-                  {loading ? 'Loading...' : 'Create 3-Leg Parlay'}
-                </Button>
+                  <FormControl sx={{ minWidth: 120 }} disabled={loading}>
+                    <InputLabel id="leg-count-select-label">Legs</InputLabel>
+                    <Select
+                      labelId="leg-count-select-label"
+                      id="leg-count-select"
+                      value={numLegs}
+                      label="Legs"
+                      onChange={handleNumLegsChange}
+                    >
+                      {legOptions.map(count => (
+                        <MenuItem key={count} value={count}>
+                          {count} legs
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+
+                  <Button
+                    variant="contained"
+                    size="large"
+                    startIcon={<CasinoIcon />}
+                    onClick={onGenerateParlay}
+                    disabled={!canGenerate || loading}
+                    sx={{
+                      px: 4,
+                      py: 1.5,
+                      minHeight: '48px',
+                    }}
+                  >
+                    {loading
+                      ? 'Loading...'
+                      : multiGameMode
+                        ? `Create ${numLegs}-Leg Multi-Game Parlay`
+                        : `Create ${numLegs}-Leg Parlay`}
+                  </Button>
+                </Box>
               </Box>
             )}
           </>
@@ -1,6 +1,7 @@
 import {
   Casino as CasinoIcon,
   Close as CloseIcon,
+  DeleteOutline as DeleteIcon,
   TrendingUp as TrendingUpIcon,
 } from '@mui/icons-material'
 import {
@@ -15,14 +16,71 @@ import {
   DialogActions,
   DialogContent,
   DialogTitle,
+  FormControl,
   Grid,
   IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
   Typography,
 } from '@mui/material'
-import React, { useEffect, useState } from 'react'
-import { getUserParlays } from '../config/firebase'
-import { useAuth } from '../hooks/useAuth'
-import { GeneratedParlay } from '../types'
+import React, { useState } from 'react'
+import { useParlayHistory } from '../hooks/useParlayHistory'
+import {
+  LegResult,
+  ParlayHistoryFilters,
+  ParlaySettlementStatus,
+  RiskLevel,
+  SavedParlay,
+} from '../types'
+import {
+  getWeekKey,
+  getWeekLabel,
+  listSeasonWeeks,
+  parseWeekKey,
+} from '../utils'
+
+const RISK_LEVELS: RiskLevel[] = ['conservative', 'moderate', 'aggressive']
+const WEEKS = listSeasonWeeks()
+
+interface ParlayNotesProps {
+  parlay: SavedParlay
+  onSave: (notes: string) => Promise<unknown>
+  disabled: boolean
+}
+
+const ParlayNotes: React.FC<ParlayNotesProps> = ({
+  parlay,
+  onSave,
+  disabled,
+}) => {
+  const [notes, setNotes] = useState(parlay.notes ?? '')
+  const isDirty = notes !== (parlay.notes ?? '')
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', mt: 2 }}>
+      <TextField
+        label="Notes"
+        value={notes}
+        onChange={event => setNotes(event.target.value)}
+        inputProps={{ maxLength: 1000 }}
+        size="small"
+        multiline
+        fullWidth
+      />
+      <Button
+        variant="outlined"
+        size="small"
+        disabled={!isDirty || disabled}
+        onClick={() => onSave(notes)}
+        sx={{ mt: 0.5 }}
+      >
+        Save
+      </Button>
+    </Box>
+  )
+}
 
 interface ParlayHistoryProps {
   open: boolean
@@ -33,39 +91,40 @@ export const ParlayHistory: React.FC<ParlayHistoryProps> = ({
   open,
   onClose,
 }) => {
-  const { user } = useAuth()
-  const [parlays, setParlays] = useState<GeneratedParlay[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState('')
-
-  useEffect(() => {
-    if (!open || !user) {
-      return
-    }
-
-    setLoading(true)
-    setError('')
-
-    // getUserParlays returns an unsubscribe function for the real-time listener
-    const unsubscribe = getUserParlays(user.uid, parlayData => {
-      setParlays(parlayData as GeneratedParlay[])
-      setLoading(false)
-    })
+  const [filters, setFilters] = useState<ParlayHistoryFilters>({})
+  const [actionError, setActionError] = useState('')
+  const {
+    parlays,
+    isLoading: loading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    deleteParlay,
+    isDeleting,
+    updateNotes,
+    isUpdatingNotes,
+  } = useParlayHistory(filters, open)
 
-    // Clean up the listener when component unmounts or modal closes
-    return () => {
-      unsubscribe()
+  const handleDelete = async (parlayId: string) => {
+    setActionError('')
+    try {
+      await deleteParlay(parlayId)
+    } catch (err) {
+      console.error('Error deleting parlay:', err)
+      setActionError('Failed to delete parlay. Please try again.')
     }
-  }, [open, user])
-
-  // Reset state when modal closes
-  useEffect(() => {
-    if (!open) {
-      setParlays([])
-      setLoading(false)
-      setError('')
+  }
+
+  const handleSaveNotes = async (parlayId: string, notes: string) => {
+    setActionError('')
+    try {
+      await updateNotes({ parlayId, notes })
+    } catch (err) {
+      console.error('Error updating notes:', err)
+      setActionError('Failed to save notes. Please try again.')
     }
-  }, [open])
+  }
 
   const getBetTypeColor = (betType: string) => {
     switch (betType) {
@@ -82,6 +141,31 @@ export const ParlayHistory: React.FC<ParlayHistoryProps> = ({
     }
   }
 
+  const getSettlementChip = (
+    status: ParlaySettlementStatus
+  ): {
+    label: string
+    color: 'success' | 'error' | 'warning' | 'default'
+  } => {
+    switch (status) {
+      case 'won':
+        return { label: 'Won', color: 'success' }
+      case 'lost':
+        return { label: 'Lost', color: 'error' }
+      case 'push':
+        return { label: 'Push', color: 'warning' }
+      case 'void':
+        return { label: 'Void', color: 'default' }
+      default:
+        return { label: 'Pending', color: 'default' }
+    }
+  }
+
+  const getLegResultChip = (result: LegResult) =>
+    getSettlementChip(
+      result === 'win' ? 'won' : result === 'loss' ? 'lost' : result
+    )
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 8) {
       return 'success'
@@ -111,6 +195,76 @@ export const ParlayHistory: React.FC<ParlayHistoryProps> = ({
       </DialogTitle>
 
       <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, pt: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel id="history-week-label">Week</InputLabel>
+            <Select
+              labelId="history-week-label"
+              label="Week"
+              value={
+                filters.week != null && filters.seasonType
+                  ? getWeekKey({
+                      week: filters.week,
+                      seasonType: filters.seasonType,
+                    })
+                  : ''
+              }
+              onChange={event => {
+                const week = parseWeekKey(event.target.value)
+                setFilters(current => ({
+                  ...current,
+                  week: week?.week,
+                  seasonType: week?.seasonType,
+                }))
+              }}
+            >
+              <MenuItem value="">All weeks</MenuItem>
+              {WEEKS.map(week => (
+                <MenuItem key={getWeekKey(week)} value={getWeekKey(week)}>
+                  {getWeekLabel(week)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="history-risk-label">Risk level</InputLabel>
+            <Select
+              labelId="history-risk-label"
+              label="Risk level"
+              value={filters.riskLevel ?? ''}
+              onChange={event =>
+                setFilters(current => ({
+                  ...current,
+                  riskLevel: (event.target.value || undefined) as
+                    | RiskLevel
+                    | undefined,
+                }))
+              }
+            >
+              <MenuItem value="">All risk levels</MenuItem>
+              {RISK_LEVELS.map(level => (
+                <MenuItem
+                  key={level}
+                  value={level}
+                  sx={{ textTransform: 'capitalize' }}
+                >
+                  {level}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        {actionError && (
+          <Alert
+            severity="error"
+            sx={{ mb: 2 }}
+            onClose={() => setActionError('')}
+          >
+            {actionError}
+          </Alert>
+        )}
+
         {loading ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
             <CircularProgress />
@@ -151,18 +305,48 @@ export const ParlayHistory: React.FC<ParlayHistoryProps> = ({
                     <Typography variant="h6" gutterBottom>
                       NFL Parlay
                     </Typography>
-                    <Chip
-                      label={`+${parlay.combinedOdds}`}
-                      color="primary"
-                      variant="outlined"
-                      size="small"
-                    />
+                    <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                      <Chip
+                        {...getSettlementChip(
+                          parlay.settlement?.status ?? 'pending'
+                        )}
+                        size="small"
+                      />
+                      <Chip
+                        label={`+${parlay.combinedOdds}`}
+                        color="primary"
+                        variant="outlined"
+                        size="small"
+                      />
+                      <IconButton
+                        aria-label="Delete parlay"
+                        size="small"
+                        disabled={isDeleting}
+                        onClick={() => handleDelete(parlay.parlayId)}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
                   </Box>
 
-                  {/* savedAt removed in v2 */}
+                  {parlay.savedAt && (
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ display: 'block', mb: 2 }}
+                    >
+                      Saved {new Date(parlay.savedAt).toLocaleString()}
+                      {parlay.week != null &&
+                        ` · ${getWeekLabel({
+                          week: parlay.week,
+                          // Parlays saved before season types were regular season
+                          seasonType: parlay.seasonType ?? 'regular',
+                        })}`}
+                    </Typography>
+                  )}
 
                   <Grid container spacing={2}>
-                    {parlay.legs?.map(leg => (
+                    {parlay.legs?.map((leg, index) => (
                       <Grid
                         item
                         xs={12}
@@ -205,11 +389,21 @@ export const ParlayHistory: React.FC<ParlayHistoryProps> = ({
                                 {leg.odds}
                               </Typography>
                             </Box>
-                            <Chip
-                              label={`${leg.confidence}/10`}
-                              color={getConfidenceColor(leg.confidence)}
-                              size="small"
-                            />
+                            <Box sx={{ display: 'flex', gap: 1 }}>
+                              <Chip
+                                {...getLegResultChip(
+                                  parlay.settlement?.legs[index]?.result ??
+                                    'pending'
+                                )}
+                                size="small"
+                                variant="outlined"
+                              />
+                              <Chip
+                                label={`${leg.confidence}/10`}
+                                color={getConfidenceColor(leg.confidence)}
+                                size="small"
+                              />
+                            </Box>
                           </Box>
 
                           <Typography
@@ -222,9 +416,26 @@ export const ParlayHistory: React.FC<ParlayHistoryProps> = ({
                       </Grid>
                     ))}
                   </Grid>
+
+                  <ParlayNotes
+                    key={`${parlay.parlayId}-${parlay.notes ?? ''}`}
+                    parlay={parlay}
+                    disabled={isUpdatingNotes}
+                    onSave={notes => handleSaveNotes(parlay.parlayId, notes)}
+                  />
                 </CardContent>
               </Card>
             ))}
+            {hasNextPage && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+                <Button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                </Button>
+              </Box>
+            )}
           </Box>
         )}
       </DialogContent>
@@ -1,6 +1,7 @@
 import {
   CheckCircle as CheckIcon,
   Schedule as ClockIcon,
+  Upgrade as UpgradeIcon,
   Warning as WarningIcon,
 } from '@mui/icons-material'
 import {
@@ -13,6 +14,10 @@ import {
   Typography,
 } from '@mui/material'
 import React, { useEffect, useState } from 'react'
+import { describeTierQuota } from '../config/runtime'
+import { useRuntimeConfig } from '../hooks/useRuntimeConfig'
+import type { QuotaInfoResponse } from '../types'
+import TierBadge from './TierBadge'
 
 interface RateLimitInfo {
   remaining: number
@@ -23,6 +28,7 @@ interface RateLimitInfo {
 
 interface RateLimitIndicatorProps {
   rateLimitInfo: RateLimitInfo | null
+  quotaInfo?: QuotaInfoResponse | null
   isLoading?: boolean
   error?: string | null
 }
@@ -33,10 +39,12 @@ interface RateLimitIndicatorProps {
  */
 export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({
   rateLimitInfo,
+  quotaInfo = null,
   isLoading = false,
   error = null,
 }) => {
   const [timeUntilReset, setTimeUntilReset] = useState<string>('')
+  const { config } = useRuntimeConfig()
 
   // Update countdown timer
   useEffect(() => {
@@ -99,6 +107,9 @@ export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({
   const usagePercentage = ((total - remaining) / total) * 100
   const isNearLimit = remaining <= 2
   const isAtLimit = remaining === 0
+  const daily = quotaInfo?.daily ?? null
+  const isDailyLimit = daily?.remaining === 0
+  const showUpgrade = quotaInfo?.tier === 'free' && isNearLimit
 
   const getStatusColor = () => {
     if (isAtLimit) {
@@ -128,6 +139,7 @@ export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({
       <Box sx={{ mb: 2 }}>
         {/* Status Chip */}
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          {quotaInfo && <TierBadge tier={quotaInfo.tier} />}
           <Chip
             icon={getStatusIcon()}
             label={`${remaining}/${total} requests remaining`}
@@ -147,6 +159,17 @@ export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({
               />
             </Tooltip>
           )}
+
+          {daily && (
+            <Tooltip title="Generations left today (resets at midnight UTC)">
+              <Chip
+                label={`${daily.remaining}/${daily.total} today`}
+                size="small"
+                variant="outlined"
+                color="default"
+              />
+            </Tooltip>
+          )}
         </Box>
 
         {/* Usage Bar */}
@@ -180,12 +203,20 @@ export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({
         </Box>
 
         {/* Warning Messages */}
-        {isAtLimit && (
+        {isAtLimit && daily && isDailyLimit && (
           <Alert severity="error" sx={{ mt: 1 }}>
             <Typography variant="body2">
-              You&apos;ve reached your hourly limit of {total} parlay
-              generations. Please wait {timeUntilReset} before generating more
-              parlays.
+              You&apos;ve used all {daily.total} of today&apos;s parlay
+              generations. Your daily limit resets in {timeUntilReset}.
+            </Typography>
+          </Alert>
+        )}
+
+        {isAtLimit && !isDailyLimit && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            <Typography variant="body2">
+              You&apos;ve reached your limit of {total} parlay generations.
+              Please wait {timeUntilReset} before generating more parlays.
             </Typography>
           </Alert>
         )}
@@ -193,8 +224,16 @@ export const RateLimitIndicator: React.FC<RateLimitIndicatorProps> = ({
         {isNearLimit && !isAtLimit && (
           <Alert severity="warning" sx={{ mt: 1 }}>
             <Typography variant="body2">
-              You have {remaining} parlay generations remaining this hour. Limit
-              resets in {timeUntilReset}.
+              You have {remaining} parlay generations remaining. Limit resets in{' '}
+              {timeUntilReset}.
+            </Typography>
+          </Alert>
+        )}
+
+        {showUpgrade && (
+          <Alert severity="info" icon={<UpgradeIcon />} sx={{ mt: 1 }}>
+            <Typography variant="body2">
+              Upgrade to Pro for {describeTierQuota(config.tierQuotas.pro)}.
             </Typography>
           </Alert>
         )}
@@ -0,0 +1,39 @@
+import { Avatar } from '@mui/material'
+import React from 'react'
+import { getTeamColor } from '../utils'
+
+interface TeamLogoProps {
+  abbrev: string
+  logo?: string
+  color?: string
+  size?: number
+}
+
+/**
+ * A team's ESPN logo, falling back to its abbreviation on the team color
+ */
+const TeamLogo: React.FC<TeamLogoProps> = ({
+  abbrev,
+  logo,
+  color,
+  size = 24,
+}) => (
+  <Avatar
+    src={logo || undefined}
+    alt={abbrev}
+    variant="square"
+    sx={{
+      width: size,
+      height: size,
+      fontSize: size * 0.35,
+      fontWeight: 700,
+      color: 'white',
+      bgcolor: logo ? 'transparent' : (getTeamColor(color) ?? 'grey.700'),
+      '& img': { objectFit: 'contain' },
+    }}
+  >
+    {abbrev}
+  </Avatar>
+)
+
+export default TeamLogo
@@ -0,0 +1,48 @@
+import {
+  AdminPanelSettings as AdminIcon,
+  Person as FreeIcon,
+  Star as ProIcon,
+} from '@mui/icons-material'
+import { Chip } from '@mui/material'
+import React from 'react'
+import type { UserTier } from '../types'
+
+interface TierBadgeProps {
+  tier: UserTier
+}
+
+const TIER_BADGES: Record<
+  UserTier,
+  {
+    label: string
+    icon: React.ReactElement
+    color: 'default' | 'primary' | 'secondary'
+  }
+> = {
+  free: { label: 'Free', icon: <FreeIcon />, color: 'default' },
+  pro: { label: 'Pro', icon: <ProIcon />, color: 'primary' },
+  admin: { label: 'Admin', icon: <AdminIcon />, color: 'secondary' },
+}
+
+/**
+ * The user's subscription tier as a small chip
+ */
+const TierBadge: React.FC<TierBadgeProps> = ({ tier }) => {
+  const { label, icon, color } = TIER_BADGES[tier]
+  return (
+    <Chip
+      icon={icon}
+      label={label}
+      color={color}
+      size="small"
+      variant={tier === 'free' ? 'outlined' : 'filled'}
+      sx={{
+        height: 20,
+        fontSize: '0.7rem',
+        '& .MuiChip-icon': { fontSize: 14 },
+      }}
+    />
+  )
+}
+
+export default TierBadge
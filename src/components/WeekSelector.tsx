@@ -21,18 +21,30 @@ import {
   CheckCircle as CheckCircleIcon,
 } from '@mui/icons-material'
 import { useCurrentWeek } from '../hooks/useCurrentWeek'
+import { NFLWeek } from '../types'
+import {
+  compareWeeks,
+  getSeasonLabel,
+  getSeasonTypeLabel,
+  getWeekKey,
+  getWeekLabel,
+  isSameWeek,
+  listSeasonWeeks,
+} from '../utils'
 
 interface WeekSelectorProps {
-  currentWeek: number
-  onWeekChange: (week: number) => void
-  availableWeeks?: number[]
+  currentWeek: NFLWeek
+  onWeekChange: (week: NFLWeek) => void
+  availableWeeks?: NFLWeek[]
   loading?: boolean
 }
 
+const DEFAULT_WEEK: NFLWeek = { week: 1, seasonType: 'regular' }
+
 const WeekSelector: React.FC<WeekSelectorProps> = ({
   currentWeek,
   onWeekChange,
-  availableWeeks = Array.from({ length: 18 }, (_, i) => i + 1),
+  availableWeeks = listSeasonWeeks(),
   loading = false,
 }) => {
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
@@ -40,7 +52,7 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
   const theme = useTheme()
 
   // Get the actual current NFL week to determine what's in the past
-  const { currentWeek: actualCurrentWeek } = useCurrentWeek()
+  const { currentWeek: actualCurrentWeek = DEFAULT_WEEK } = useCurrentWeek()
 
   const handleClick = (event: React.MouseEvent<HTMLElement>) => {
     if (!loading) {
@@ -52,7 +64,7 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
     setAnchorEl(null)
   }
 
-  const handleWeekSelect = (week: number) => {
+  const handleWeekSelect = (week: NFLWeek) => {
     // Only allow selection if week is not in the past
     if (!isWeekPassed(week)) {
       onWeekChange(week)
@@ -60,34 +72,19 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
     }
   }
 
-  const getWeekLabel = (week: number) => {
-    return `Week ${week}`
-  }
-
-  const getWeekDescription = (week: number) => {
-    if (week >= 1 && week <= 18) {
-      return 'Regular Season'
-    } else if (week === 19) {
-      return 'Wild Card'
-    } else if (week === 20) {
-      return 'Divisional'
-    } else if (week === 21) {
-      return 'Conference Championship'
-    } else if (week === 22) {
-      return 'Super Bowl'
-    }
-    return 'Season'
+  const getWeekDescription = (week: NFLWeek) => {
+    return getSeasonTypeLabel(week.seasonType)
   }
 
-  const isWeekPassed = (week: number): boolean => {
-    return week < (actualCurrentWeek || 1)
+  const isWeekPassed = (week: NFLWeek): boolean => {
+    return compareWeeks(week, actualCurrentWeek) < 0
   }
 
-  const isWeekCurrent = (week: number): boolean => {
-    return week === (actualCurrentWeek || 1)
+  const isWeekCurrent = (week: NFLWeek): boolean => {
+    return isSameWeek(week, actualCurrentWeek)
   }
 
-  const getWeekStatus = (week: number): 'past' | 'current' | 'future' => {
+  const getWeekStatus = (week: NFLWeek): 'past' | 'current' | 'future' => {
     if (isWeekPassed(week)) {
       return 'past'
     }
@@ -97,9 +94,9 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
     return 'future'
   }
 
-  const getWeekIcon = (week: number) => {
+  const getWeekIcon = (week: NFLWeek) => {
     const status = getWeekStatus(week)
-    const isSelected = week === currentWeek
+    const isSelected = isSameWeek(week, currentWeek)
 
     if (isSelected) {
       return (
@@ -135,7 +132,7 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
     }
   }
 
-  const getWeekStatusChip = (week: number) => {
+  const getWeekStatusChip = (week: NFLWeek) => {
     const status = getWeekStatus(week)
 
     switch (status) {
@@ -430,7 +427,10 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
               opacity: 0.8,
             }}
           >
-            2024-25 Season • Week {actualCurrentWeek} is current
+            {actualCurrentWeek.season
+              ? `${getSeasonLabel(actualCurrentWeek.season)} Season • `
+              : ''}
+            {getWeekLabel(actualCurrentWeek)} is current
           </Typography>
         </Box>
 
@@ -438,11 +438,11 @@ const WeekSelector: React.FC<WeekSelectorProps> = ({
         <Box sx={{ maxHeight: 300, overflowY: 'auto' }}>
           {availableWeeks.map(week => {
             const isPast = isWeekPassed(week)
-            const isSelected = week === currentWeek
+            const isSelected = isSameWeek(week, currentWeek)
 
             return (
               <MenuItem
-                key={week}
+                key={getWeekKey(week)}
                 onClick={() => handleWeekSelect(week)}
                 selected={isSelected}
                 disabled={isPast}
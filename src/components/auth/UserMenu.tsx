@@ -3,6 +3,7 @@ import {
   History as HistoryIcon,
   Login as LoginIcon,
   Logout as LogoutIcon,
+  Upgrade as UpgradeIcon,
 } from '@mui/icons-material'
 import {
   Avatar,
@@ -16,7 +17,11 @@ import {
 } from '@mui/material'
 import React, { useState } from 'react'
 import { logOut } from '../../config/firebase'
+import { describeTierQuota } from '../../config/runtime'
 import { useAuth } from '../../hooks/useAuth'
+import { useRateLimit } from '../../hooks/useRateLimit'
+import { useRuntimeConfig } from '../../hooks/useRuntimeConfig'
+import TierBadge from '../TierBadge'
 import { AuthModal } from './AuthModal'
 
 interface UserMenuProps {
@@ -25,6 +30,8 @@ interface UserMenuProps {
 
 export const UserMenu: React.FC<UserMenuProps> = ({ onViewHistory }) => {
   const { user, userProfile } = useAuth()
+  const { quotaInfo } = useRateLimit()
+  const { config } = useRuntimeConfig()
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
   const [authModalOpen, setAuthModalOpen] = useState(false)
 
@@ -121,15 +128,30 @@ export const UserMenu: React.FC<UserMenuProps> = ({ onViewHistory }) => {
             <AccountIcon />
           </ListItemIcon>
           <Box>
-            <Typography variant="body2" fontWeight="medium">
-              {userProfile?.displayName || user.displayName}
-            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" fontWeight="medium">
+                {userProfile?.displayName || user.displayName}
+              </Typography>
+              {quotaInfo && <TierBadge tier={quotaInfo.tier} />}
+            </Box>
             <Typography variant="caption" color="text.secondary">
               {user.email}
             </Typography>
           </Box>
         </MenuItem>
 
+        {quotaInfo?.tier === 'free' && (
+          <Box sx={{ display: 'flex', gap: 1.5, px: 2, py: 1, maxWidth: 260 }}>
+            <UpgradeIcon fontSize="small" color="primary" />
+            <Typography variant="caption" color="text.secondary">
+              {quotaInfo.daily
+                ? `Free plan: ${quotaInfo.daily.remaining} of ${quotaInfo.daily.total} generations left today. `
+                : ''}
+              Upgrade to Pro for {describeTierQuota(config.tierQuotas.pro)}.
+            </Typography>
+          </Box>
+        )}
+
         <Divider />
 
         <MenuItem onClick={handleViewHistory}>
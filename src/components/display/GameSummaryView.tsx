@@ -19,20 +19,31 @@ import {
   useTheme,
 } from '@mui/material'
 import React from 'react'
-import type { GameSummary } from '../../types'
+import type { GameSummary, GeneratedParlay, ParlayMatchup } from '../../types'
+import { getTeamColor } from '../../utils'
+import TeamLogo from '../TeamLogo'
+import InjuryReport from './InjuryReport'
+import StartersView from './StartersView'
+import WeatherChip from './WeatherChip'
 
 interface GameSummaryViewProps {
   gameSummary: GameSummary
   gameContext: string // e.g., "Chiefs @ Bills - Week 14"
+  matchups?: ParlayMatchup[]
+  rosterDataUsed?: GeneratedParlay['rosterDataUsed']
 }
 
 const GameSummaryView: React.FC<GameSummaryViewProps> = ({
   gameSummary,
   gameContext,
+  matchups = [],
+  rosterDataUsed,
 }) => {
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('md'))
   const isSmall = useMediaQuery(theme.breakpoints.down('sm'))
+  // Single-game parlays get a header in the teams' colors
+  const matchup = matchups.length === 1 ? matchups[0] : undefined
 
   // Removed unused helper functions - v2 API provides clean data
 
@@ -157,17 +168,54 @@ const GameSummaryView: React.FC<GameSummaryViewProps> = ({
         </Box>
 
         {/* Game Context */}
-        <Typography
-          variant="subtitle2"
-          color="text.secondary"
-          gutterBottom
-          sx={{
-            fontSize: isSmall ? '0.8rem' : '0.875rem',
-            mb: 2,
-          }}
-        >
-          {gameContext}
-        </Typography>
+        {matchup ? (
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 1,
+              mb: 2,
+              pb: 1,
+              borderBottom: '3px solid',
+              borderImage: `linear-gradient(90deg, ${getTeamColor(matchup.away.color) ?? 'transparent'}, ${getTeamColor(matchup.home.color) ?? 'transparent'}) 1`,
+            }}
+          >
+            <TeamLogo
+              abbrev={matchup.away.abbrev}
+              logo={matchup.away.logo}
+              color={matchup.away.color}
+              size={isSmall ? 28 : 32}
+            />
+            <Typography
+              variant="subtitle2"
+              color="text.secondary"
+              sx={{ fontSize: isSmall ? '0.8rem' : '0.875rem' }}
+            >
+              {gameContext}
+            </Typography>
+            <TeamLogo
+              abbrev={matchup.home.abbrev}
+              logo={matchup.home.logo}
+              color={matchup.home.color}
+              size={isSmall ? 28 : 32}
+            />
+            <Box sx={{ ml: 'auto' }}>
+              <WeatherChip matchup={matchup} isSmall={isSmall} />
+            </Box>
+          </Box>
+        ) : (
+          <Typography
+            variant="subtitle2"
+            color="text.secondary"
+            gutterBottom
+            sx={{
+              fontSize: isSmall ? '0.8rem' : '0.875rem',
+              mb: 2,
+            }}
+          >
+            {gameContext}
+          </Typography>
+        )}
 
         <Divider sx={{ my: 2 }} />
 
@@ -231,6 +279,14 @@ const GameSummaryView: React.FC<GameSummaryViewProps> = ({
           </List>
         </Box>
 
+        <StartersView
+          rosterDataUsed={rosterDataUsed}
+          matchups={matchups}
+          isSmall={isSmall}
+        />
+
+        <InjuryReport matchups={matchups} isSmall={isSmall} />
+
         {/* Game Prediction */}
         <Box>
           <Typography
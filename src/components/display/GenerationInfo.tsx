@@ -0,0 +1,32 @@
+import { Memory as ModelIcon } from '@mui/icons-material'
+import { Box, Typography } from '@mui/material'
+import React from 'react'
+import type { ParlayGenerationInfo } from '../../store/parlayStore'
+
+interface GenerationInfoProps {
+  info: ParlayGenerationInfo
+}
+
+/**
+ * Which provider and model produced a parlay, and how long it took
+ */
+const GenerationInfo: React.FC<GenerationInfoProps> = ({ info }) => {
+  const details = [
+    info.provider,
+    info.model,
+    `${(info.latency / 1000).toFixed(1)}s`,
+    `${info.attemptCount} attempt${info.attemptCount === 1 ? '' : 's'}`,
+    info.fallbackUsed && 'repaired',
+  ].filter(Boolean)
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 2 }}>
+      <ModelIcon fontSize="small" color="disabled" />
+      <Typography variant="caption" color="text.secondary">
+        {details.join(' · ')}
+      </Typography>
+    </Box>
+  )
+}
+
+export default GenerationInfo
@@ -0,0 +1,142 @@
+import { LocalHospital as InjuryIcon } from '@mui/icons-material'
+import { Box, Chip, Typography } from '@mui/material'
+import React from 'react'
+import type {
+  InjuryStatus,
+  ParlayMatchup,
+  ParlayMatchupTeam,
+  PlayerInjury,
+} from '../../types'
+
+interface InjuryReportProps {
+  matchups: ParlayMatchup[]
+  isSmall?: boolean
+}
+
+const STATUS_DISPLAY: Record<
+  InjuryStatus,
+  { label: string; color: 'error' | 'warning' | 'info' }
+> = {
+  out: { label: 'Out', color: 'error' },
+  doubtful: { label: 'Doubtful', color: 'warning' },
+  questionable: { label: 'Questionable', color: 'info' },
+}
+
+const STATUS_ORDER: InjuryStatus[] = ['out', 'doubtful', 'questionable']
+
+const TeamInjuries: React.FC<{
+  team: ParlayMatchupTeam
+  injuries: PlayerInjury[]
+  isSmall: boolean
+}> = ({ team, injuries, isSmall }) => {
+  const sorted = [...injuries].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  )
+
+  return (
+    <Box sx={{ mb: 1.5 }}>
+      <Typography
+        variant="body2"
+        sx={{
+          fontWeight: 600,
+          mb: 0.5,
+          fontSize: isSmall ? '0.8rem' : '0.85rem',
+        }}
+      >
+        {team.abbrev || team.name}
+      </Typography>
+      {sorted.length === 0 ? (
+        <Typography variant="caption" color="text.secondary">
+          No injuries reported
+        </Typography>
+      ) : (
+        sorted.map(injury => {
+          const status = STATUS_DISPLAY[injury.status]
+          return (
+            <Box
+              key={injury.playerId}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25 }}
+            >
+              <Chip
+                label={status.label}
+                color={status.color}
+                size="small"
+                variant={injury.status === 'out' ? 'filled' : 'outlined'}
+                sx={{ height: 20, fontSize: '0.65rem', minWidth: 84 }}
+              />
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ fontSize: isSmall ? '0.8rem' : '0.85rem' }}
+              >
+                {injury.name}
+                {injury.position && ` (${injury.position})`}
+                {injury.injury && ` · ${injury.injury}`}
+                {injury.statusLabel !== status.label &&
+                  ` · ${injury.statusLabel}`}
+              </Typography>
+            </Box>
+          )
+        })
+      )}
+    </Box>
+  )
+}
+
+/**
+ * Injury reports for each game in the parlay. Legs on players listed Out are
+ * rejected by the backend, so this explains why a star may be missing.
+ */
+const InjuryReport: React.FC<InjuryReportProps> = ({
+  matchups,
+  isSmall = false,
+}) => {
+  const withInjuries = matchups.filter(matchup => matchup.injuries)
+  if (withInjuries.length === 0) {
+    return null
+  }
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography
+        variant="subtitle1"
+        gutterBottom
+        sx={{
+          fontWeight: 600,
+          fontSize: isSmall ? '1rem' : '1.1rem',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+        }}
+      >
+        <InjuryIcon fontSize="small" color="error" sx={{ opacity: 0.8 }} />
+        Injury Report
+      </Typography>
+      {withInjuries.map(matchup => (
+        <Box key={matchup.gameId}>
+          {withInjuries.length > 1 && (
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ display: 'block', mb: 0.5 }}
+            >
+              {matchup.away.abbrev} @ {matchup.home.abbrev}
+            </Typography>
+          )}
+          <TeamInjuries
+            team={matchup.away}
+            injuries={matchup.injuries?.away ?? []}
+            isSmall={isSmall}
+          />
+          <TeamInjuries
+            team={matchup.home}
+            injuries={matchup.injuries?.home ?? []}
+            isSmall={isSmall}
+          />
+        </Box>
+      ))}
+    </Box>
+  )
+}
+
+export default InjuryReport
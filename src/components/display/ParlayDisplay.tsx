@@ -9,16 +9,21 @@ import {
   Typography,
 } from '@mui/material'
 import React, { useEffect } from 'react'
+import { useFeatureFlag } from '../../hooks/useFeatureFlags'
 import useModalStore from '../../store/modalStore'
 import useParlayStore from '../../store/parlayStore'
 import type { GeneratedParlay } from '../../types'
+import { getTeamColor, getWeekLabel } from '../../utils'
 import { AuthModal } from '../auth/AuthModal'
 import { LegalDisclaimer } from '../legal/LegalDisclaimer' // Add this import
+import TeamLogo from '../TeamLogo'
 import GameSummaryView from './GameSummaryView'
+import GenerationInfo from './GenerationInfo'
 import ParlayDisplayFooter from './ParlayDisplayFooter'
 import ParlayLanding from './ParlayLanding'
 import ParlayLegView from './ParlayLegView'
 import ParlayLoading from './ParlayLoading'
+import WeatherChip from './WeatherChip'
 
 interface ParlayDisplayProps {
   parlay?: GeneratedParlay
@@ -28,6 +33,8 @@ interface ParlayDisplayProps {
 const ParlayDisplay: React.FC<ParlayDisplayProps> = ({ parlay, loading }) => {
   // Store state and actions
   const setParlay = useParlayStore(state => state.setParlay)
+  const generationInfo = useParlayStore(state => state.generationInfo)
+  const showGenerationInfo = useFeatureFlag('generation_metadata')
   const authModalOpen = useModalStore(state => state.authModalOpen)
   const setAuthModalOpen = useModalStore(state => state.setAuthModalOpen)
 
@@ -44,18 +51,40 @@ const ParlayDisplay: React.FC<ParlayDisplayProps> = ({ parlay, loading }) => {
     return <ParlayLanding />
   }
 
+  // Multi-game parlays group legs under their matchup; numbering stays global
+  const matchups = parlay.matchups ?? []
+  const isMultiGame = matchups.length > 1
+  const indexedLegs = parlay.legs.map((leg, index) => ({ leg, index }))
+
+  const renderLegs = (legs: typeof indexedLegs) =>
+    legs.map(({ leg, index }) => (
+      <ParlayLegView
+        key={`${leg.betType}-${leg.selection}-${leg.odds}`}
+        leg={leg}
+        index={index}
+      />
+    ))
+
   return (
     <>
       {parlay.gameSummary && (
         <GameSummaryView
           gameSummary={parlay.gameSummary}
           gameContext={parlay.gameContext}
+          matchups={parlay.matchups}
+          rosterDataUsed={parlay.rosterDataUsed}
         />
       )}
 
       <Card>
         <CardContent>
-          <Box sx={{ display: 'flex', alignItems: 'center', mb: 3 }}>
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              mb: showGenerationInfo && generationInfo ? 1 : 3,
+            }}
+          >
             <TrendingUpIcon sx={{ mr: 1 }} />
             <Typography variant="h6">AI Generated Parlay</Typography>
             <Box sx={{ ml: 'auto' }}>
@@ -68,15 +97,70 @@ const ParlayDisplay: React.FC<ParlayDisplayProps> = ({ parlay, loading }) => {
             </Box>
           </Box>
 
-          <Grid container spacing={2} sx={{ mb: 3 }}>
-            {parlay.legs.map((leg, index) => (
-              <ParlayLegView
-                key={`${leg.betType}-${leg.selection}-${leg.odds}`}
-                leg={leg}
-                index={index}
-              />
-            ))}
-          </Grid>
+          {showGenerationInfo && generationInfo && (
+            <GenerationInfo info={generationInfo} />
+          )}
+
+          {isMultiGame ? (
+            matchups.map(matchup => (
+              <Box key={matchup.gameId} sx={{ mb: 3 }}>
+                <Box
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    flexWrap: 'wrap',
+                    gap: 1,
+                    mb: 1.5,
+                    pl: 1.5,
+                    borderLeft: '4px solid',
+                    borderLeftColor:
+                      getTeamColor(matchup.home.color) ?? 'divider',
+                  }}
+                >
+                  <TeamLogo
+                    abbrev={matchup.away.abbrev}
+                    logo={matchup.away.logo}
+                    color={matchup.away.color}
+                  />
+                  <TeamLogo
+                    abbrev={matchup.home.abbrev}
+                    logo={matchup.home.logo}
+                    color={matchup.home.color}
+                  />
+                  <Typography variant="subtitle1" fontWeight="bold">
+                    {matchup.away.name} @ {matchup.home.name}
+                  </Typography>
+                  <Chip
+                    label={getWeekLabel({
+                      week: matchup.week,
+                      seasonType: matchup.seasonType ?? 'regular',
+                    })}
+                    size="small"
+                    variant="outlined"
+                  />
+                  <WeatherChip matchup={matchup} />
+                  {matchup.prediction && matchup.prediction.winner && (
+                    <Typography variant="body2" color="text.secondary">
+                      Predicted: {matchup.prediction.winner} (
+                      {matchup.prediction.projectedScore.away}-
+                      {matchup.prediction.projectedScore.home})
+                    </Typography>
+                  )}
+                </Box>
+                <Grid container spacing={2}>
+                  {renderLegs(
+                    indexedLegs.filter(
+                      ({ leg }) => leg.gameId === matchup.gameId
+                    )
+                  )}
+                </Grid>
+              </Box>
+            ))
+          ) : (
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              {renderLegs(indexedLegs)}
+            </Grid>
+          )}
 
           <Divider sx={{ my: 2 }} />
 
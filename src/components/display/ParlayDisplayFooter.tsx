@@ -1,15 +1,14 @@
 import { Login as LoginIcon, Save as SaveIcon } from '@mui/icons-material'
 import { Alert, Box, Button, Typography } from '@mui/material'
-import React, { useState } from 'react'
-import { saveParlayToUser } from '../../config/firebase'
-
+import React from 'react'
 import { useAuth } from '../../hooks/useAuth'
+import { useSaveParlay } from '../../hooks/useParlayHistory'
 import useModalStore from '../../store/modalStore'
 import useParlayStore from '../../store/parlayStore'
 
 const ParlayDisplayFooter: React.FC = () => {
   const { user } = useAuth()
-  const [saving, setSaving] = useState(false)
+  const { mutateAsync: saveParlay, isPending: saving } = useSaveParlay()
 
   // Get parlay and state management from store
   const parlay = useParlayStore(state => state.parlay)
@@ -33,19 +32,16 @@ const ParlayDisplayFooter: React.FC = () => {
       return
     }
 
-    setSaving(true)
     setSaveParlayError('')
     setSaveParlaySuccess(false)
 
     try {
-      await saveParlayToUser(user.uid, parlay)
+      await saveParlay({ parlayId: parlay.parlayId })
       setSaveParlaySuccess(true)
       setTimeout(() => setSaveParlaySuccess(false), 3000)
     } catch (error) {
       setSaveParlayError('Failed to save parlay. Please try again.')
       console.error('Error saving parlay:', error)
-    } finally {
-      setSaving(false)
     }
   }
 
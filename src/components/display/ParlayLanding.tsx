@@ -5,7 +5,7 @@ const ParlayLanding: React.FC = () => (
   <Card>
     <CardContent sx={{ textAlign: 'center', py: 4 }}>
       <Typography variant="h6" color="text.secondary">
-        {`Select a game and click "Create 3-Leg Parlay" to get started`}
+        {`Select a game, choose how many legs you want and click "Create Parlay" to get started`}
       </Typography>
     </CardContent>
   </Card>
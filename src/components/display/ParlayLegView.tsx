@@ -77,6 +77,29 @@ const ParlayLegView: React.FC<ParlayLegViewProps> = ({ leg, index }) => {
     }
   }
 
+  const formatOdds = (odds: number) => (odds > 0 ? `+${odds}` : `${odds}`)
+
+  const getOddsCheckChip = (): {
+    label: string
+    color: 'success' | 'warning'
+  } | null => {
+    switch (leg.oddsCheck?.status) {
+      case 'matched':
+        return { label: 'Book price', color: 'success' }
+      case 'line_mismatch':
+        return {
+          label: `Book line ${leg.oddsCheck.bookLine ?? ''} (${formatOdds(leg.oddsCheck.bookOdds ?? 0)})`,
+          color: 'warning',
+        }
+      case 'not_offered':
+        return { label: 'Not offered', color: 'warning' }
+      default:
+        return null
+    }
+  }
+
+  const oddsCheckChip = getOddsCheckChip()
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 8) {
       return 'success'
@@ -96,12 +119,20 @@ const ParlayLegView: React.FC<ParlayLegViewProps> = ({ leg, index }) => {
             <Typography variant="h6" sx={{ ml: 1, flex: 1 }}>
               Leg {index + 1}
               <Chip
-                label={leg.odds > 0 ? `+${leg.odds}` : leg.odds.toString()}
+                label={formatOdds(leg.odds)}
                 variant="outlined"
                 size="small"
                 color="primary"
                 sx={{ ml: 2 }}
               />
+              {oddsCheckChip && (
+                <Chip
+                  label={oddsCheckChip.label}
+                  color={oddsCheckChip.color}
+                  size="small"
+                  sx={{ ml: 1 }}
+                />
+              )}
             </Typography>
             <Chip
               label={leg.betType.replace('_', ' ').toUpperCase()}
@@ -0,0 +1,106 @@
+import { Groups as StartersIcon } from '@mui/icons-material'
+import { Box, Chip, Typography } from '@mui/material'
+import React from 'react'
+import type { GeneratedParlay, ParlayMatchup, RosterPlayer } from '../../types'
+
+interface StartersViewProps {
+  rosterDataUsed?: GeneratedParlay['rosterDataUsed']
+  matchups: ParlayMatchup[]
+  isSmall?: boolean
+}
+
+const TeamStarters: React.FC<{
+  label: string
+  players: RosterPlayer[]
+  isSmall: boolean
+}> = ({ label, players, isSmall }) => (
+  <Box sx={{ mb: 1.5 }}>
+    <Typography
+      variant="body2"
+      sx={{
+        fontWeight: 600,
+        mb: 0.5,
+        fontSize: isSmall ? '0.8rem' : '0.85rem',
+      }}
+    >
+      {label}
+    </Typography>
+    {players.map(player => (
+      <Box
+        key={player.playerId}
+        sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25 }}
+      >
+        <Chip
+          label={player.position ?? '—'}
+          size="small"
+          variant={player.depth === 1 ? 'filled' : 'outlined'}
+          sx={{ height: 20, fontSize: '0.65rem', minWidth: 40 }}
+        />
+        <Typography
+          variant="body2"
+          color="text.secondary"
+          sx={{ fontSize: isSmall ? '0.8rem' : '0.85rem' }}
+        >
+          {player.name}
+          {player.jersey && ` #${player.jersey}`}
+          {player.depth !== undefined &&
+            player.depth > 1 &&
+            ` · Depth ${player.depth}`}
+          {player.status && player.status !== 'Active' && ` · ${player.status}`}
+        </Typography>
+      </Box>
+    ))}
+  </Box>
+)
+
+/**
+ * Starters the AI saw for each side, plus any other player a leg is on.
+ * Multi-game parlays pool every game's home and away players.
+ */
+const StartersView: React.FC<StartersViewProps> = ({
+  rosterDataUsed,
+  matchups,
+  isSmall = false,
+}) => {
+  const away = rosterDataUsed?.away ?? []
+  const home = rosterDataUsed?.home ?? []
+  if (away.length === 0 && home.length === 0) {
+    return null
+  }
+  const matchup = matchups.length === 1 ? matchups[0] : undefined
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography
+        variant="subtitle1"
+        gutterBottom
+        sx={{
+          fontWeight: 600,
+          fontSize: isSmall ? '1rem' : '1.1rem',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+        }}
+      >
+        <StartersIcon fontSize="small" color="primary" sx={{ opacity: 0.8 }} />
+        Projected Starters
+      </Typography>
+      {away.length > 0 && (
+        <TeamStarters
+          label={matchup ? matchup.away.abbrev || matchup.away.name : 'Away'}
+          players={away}
+          isSmall={isSmall}
+        />
+      )}
+      {home.length > 0 && (
+        <TeamStarters
+          label={matchup ? matchup.home.abbrev || matchup.home.name : 'Home'}
+          players={home}
+          isSmall={isSmall}
+        />
+      )}
+    </Box>
+  )
+}
+
+export default StartersView
@@ -0,0 +1,90 @@
+import {
+  AcUnit as SnowIcon,
+  Stadium as IndoorIcon,
+  Thunderstorm as StormIcon,
+  Umbrella as RainIcon,
+  WbCloudy as CloudyIcon,
+  WbSunny as SunnyIcon,
+} from '@mui/icons-material'
+import { Chip, Tooltip } from '@mui/material'
+import React from 'react'
+import type { GameWeather, ParlayMatchup } from '../../types'
+
+interface WeatherChipProps {
+  matchup: ParlayMatchup
+  isSmall?: boolean
+}
+
+const getWeatherIcon = (weather: GameWeather) => {
+  const condition = weather.condition.toLowerCase()
+  if (condition.includes('snow')) {
+    return <SnowIcon fontSize="small" />
+  }
+  if (condition.includes('thunder')) {
+    return <StormIcon fontSize="small" />
+  }
+  if (condition.includes('rain') || condition.includes('drizzle')) {
+    return <RainIcon fontSize="small" />
+  }
+  if (condition.includes('clear') || condition.includes('sun')) {
+    return <SunnyIcon fontSize="small" />
+  }
+  return <CloudyIcon fontSize="small" />
+}
+
+/**
+ * Kickoff conditions for a matchup: "Indoors" for domes, otherwise the
+ * forecast the parlay was generated with. Renders nothing without either.
+ */
+const WeatherChip: React.FC<WeatherChipProps> = ({
+  matchup,
+  isSmall = false,
+}) => {
+  const { venue, weather } = matchup
+  const sx = { fontSize: isSmall ? '0.7rem' : '0.75rem' }
+
+  if (venue?.roof === 'dome') {
+    return (
+      <Tooltip title={venue.name}>
+        <Chip
+          icon={<IndoorIcon fontSize="small" />}
+          label="Indoors"
+          size="small"
+          variant="outlined"
+          sx={sx}
+        />
+      </Tooltip>
+    )
+  }
+  if (!weather) {
+    return null
+  }
+
+  const details = [
+    `${weather.temperatureF}°F`,
+    weather.condition,
+    `${weather.windMph} mph wind`,
+    weather.precipitationChance != null &&
+      `${weather.precipitationChance}% precip`,
+  ].filter(Boolean)
+
+  return (
+    <Tooltip
+      title={
+        venue
+          ? `${venue.name}${venue.roof === 'retractable' ? ' (retractable roof)' : ''}`
+          : ''
+      }
+    >
+      <Chip
+        icon={getWeatherIcon(weather)}
+        label={details.join(' · ')}
+        size="small"
+        variant="outlined"
+        sx={sx}
+      />
+    </Tooltip>
+  )
+}
+
+export default WeatherChip
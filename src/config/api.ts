@@ -82,8 +82,16 @@ export const API_CONFIG = {
       v2: {
         health: '/api/v2/health',
         currentWeek: '/api/v2/weeks/current',
-        games: (week: number) => `/api/v2/games?week=${week}`,
+        games: (week: number, seasonType: string, season?: number) =>
+          `/api/v2/games?week=${week}&seasonType=${seasonType}${season ? `&season=${season}` : ''}`,
+        game: (gameId: string) => `/api/v2/games/${encodeURIComponent(gameId)}`,
         generateParlay: '/api/v2/parlays/generate',
+        generateMultiParlay: '/api/v2/parlays/generate-multi',
+        rateLimitStatus: '/api/v2/rate-limit/status',
+        featureFlags: '/api/v2/flags',
+        parlays: '/api/v2/parlays',
+        parlay: (parlayId: string) =>
+          `/api/v2/parlays/${encodeURIComponent(parlayId)}`,
       },
     },
   },
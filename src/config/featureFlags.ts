@@ -0,0 +1,12 @@
+import type { FeatureFlags } from '../types'
+
+/**
+ * Flag values used until the v2 API answers, and for signed-out users. Flags
+ * for features that already shipped default on so they do not flicker off.
+ */
+export const DEFAULT_FEATURE_FLAGS: FeatureFlags = {
+  multi_game_parlays: true,
+  provider_override: false,
+  rate_limit_status: false,
+  generation_metadata: false,
+}
@@ -0,0 +1,116 @@
+import type { BetType } from '../types'
+
+/**
+ * Parlay generation limits (must match the v2 API request schema)
+ */
+export const PARLAY_LEG_LIMITS = {
+  min: 2,
+  max: 10,
+  default: 3,
+} as const
+
+/**
+ * Selectable leg counts for the parlay builder UI
+ */
+export const PARLAY_LEG_OPTIONS = Array.from(
+  { length: PARLAY_LEG_LIMITS.max - PARLAY_LEG_LIMITS.min + 1 },
+  (_, i) => PARLAY_LEG_LIMITS.min + i
+)
+
+/**
+ * Maximum number of games in a multi-game parlay (must match the v2 API)
+ */
+export const MAX_PARLAY_GAMES = 6
+
+/**
+ * Bet type groups offered in the bet type picker
+ */
+export const BET_TYPE_CATEGORIES: Array<{
+  id: string
+  label: string
+  betTypes: BetType[]
+}> = [
+  {
+    id: 'game_lines',
+    label: 'Game Lines',
+    betTypes: ['spread', 'moneyline', 'total', 'alt_spread', 'alt_total'],
+  },
+  {
+    id: 'team_totals',
+    label: 'Team Totals',
+    betTypes: [
+      'team_total_points',
+      'team_total_points_over',
+      'team_total_points_under',
+      'team_total_tds',
+    ],
+  },
+  {
+    id: 'periods',
+    label: 'Halves & Quarters',
+    betTypes: [
+      'first_half_spread',
+      'first_half_total',
+      'second_half_spread',
+      'second_half_total',
+      'first_quarter_spread',
+      'first_quarter_total',
+    ],
+  },
+  {
+    id: 'player_props',
+    label: 'Player Props',
+    betTypes: [
+      'player_passing_yards',
+      'player_passing_attempts',
+      'player_passing_completions',
+      'player_passing_tds',
+      'player_interceptions',
+      'player_longest_completion',
+      'player_rushing_yards',
+      'player_rushing_attempts',
+      'player_rushing_tds',
+      'player_longest_rush',
+      'player_receiving_yards',
+      'player_receptions',
+      'player_receiving_tds',
+      'player_longest_reception',
+      'player_rush_rec_yards',
+      'player_pass_rush_yards',
+      'player_pass_rec_yards',
+      'player_pass_rush_rec_yards',
+      'player_alt_rushing_yards',
+      'player_alt_receiving_yards',
+      'player_alt_passing_yards',
+    ],
+  },
+  {
+    id: 'touchdowns',
+    label: 'Touchdown Scorers',
+    betTypes: ['player_anytime_td', 'player_first_td', 'player_last_td'],
+  },
+  {
+    id: 'kicking',
+    label: 'Kicking',
+    betTypes: [
+      'field_goals_made',
+      'field_goals_attempted',
+      'longest_field_goal',
+      'kicking_points',
+      'extra_points_made',
+    ],
+  },
+  {
+    id: 'defense',
+    label: 'Defense & Special Teams',
+    betTypes: [
+      'defensive_sacks',
+      'defensive_tackles',
+      'defensive_interceptions',
+      'defensive_forced_fumbles',
+      'defensive_touchdowns',
+      'special_teams_touchdowns',
+      'defensive_turnovers',
+    ],
+  },
+]
@@ -0,0 +1,60 @@
+import { doc, getDoc } from 'firebase/firestore'
+import type { PublicRuntimeConfig, TierQuota, UserTier } from '../types'
+import { db } from './firebase'
+
+/**
+ * Values used until `config` loads (must match the v2 API defaults)
+ */
+export const DEFAULT_PUBLIC_RUNTIME_CONFIG: PublicRuntimeConfig = {
+  tierQuotas: {
+    free: { daily: 20, window: { limit: 10, windowMs: 30 * 60_000 } },
+    pro: { daily: 100, window: { limit: 30, windowMs: 30 * 60_000 } },
+    admin: { daily: null, window: { limit: 100, windowMs: 30 * 60_000 } },
+  },
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0
+
+function isTierQuota(value: unknown): value is TierQuota {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const { daily, window } = value as Partial<TierQuota>
+  return (
+    (daily === null || isPositiveInteger(daily)) &&
+    !!window &&
+    isPositiveInteger(window.limit) &&
+    isPositiveInteger(window.windowMs)
+  )
+}
+
+/**
+ * The public subset of runtime config: tier quotas from `config/rateLimits`.
+ * The server validates the full document; tiers that do not parse here keep
+ * their defaults.
+ */
+export const fetchPublicRuntimeConfig =
+  async (): Promise<PublicRuntimeConfig> => {
+    const snap = await getDoc(doc(db, 'config', 'rateLimits'))
+    const tiers = (snap.exists() ? snap.data().tiers : undefined) ?? {}
+    const defaults = DEFAULT_PUBLIC_RUNTIME_CONFIG.tierQuotas
+    const tierQuotas = Object.fromEntries(
+      (Object.keys(defaults) as UserTier[]).map(tier => [
+        tier,
+        isTierQuota(tiers[tier]) ? tiers[tier] : defaults[tier],
+      ])
+    ) as Record<UserTier, TierQuota>
+    return { tierQuotas }
+  }
+
+/**
+ * A tier's quotas in words, e.g. "100 generations a day, 30 every 30 minutes"
+ */
+export const describeTierQuota = ({ daily, window }: TierQuota): string => {
+  const minutes = Math.round(window.windowMs / 60_000)
+  const perWindow = `${window.limit} every ${minutes} minute${minutes === 1 ? '' : 's'}`
+  return daily === null
+    ? `${perWindow}, no daily cap`
+    : `${daily} generations a day, ${perWindow}`
+}
@@ -1,15 +1,11 @@
 import { useQuery } from '@tanstack/react-query'
 import { API_CONFIG } from '../config/api'
-
-interface V2CurrentWeekResponse {
-  week: number
-  season: number
-}
+import { NFLWeek } from '../types'
 
 export const useCurrentWeek = () => {
   const query = useQuery({
     queryKey: ['current-nfl-week-v2'],
-    queryFn: async (): Promise<number> => {
+    queryFn: async (): Promise<NFLWeek> => {
       const base = API_CONFIG.CLOUD_FUNCTIONS.baseURL
       const response = await fetch(
         `${base}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.currentWeek}`
@@ -19,12 +15,16 @@ export const useCurrentWeek = () => {
           `Failed to fetch current week: ${response.status} ${response.statusText}`
         )
       }
-      const data: V2CurrentWeekResponse = await response.json()
-      return data.week
+      const data: NFLWeek = await response.json()
+      return {
+        week: data.week,
+        seasonType: data.seasonType,
+        season: data.season,
+      }
     },
     staleTime: 60 * 60 * 1000, // 1 hour
     gcTime: 24 * 60 * 60 * 1000, // 24 hours
-    placeholderData: 1, // Provide fallback while loading
+    placeholderData: { week: 1, seasonType: 'regular' }, // Fallback while loading
   })
 
   return {
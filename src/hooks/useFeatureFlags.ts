@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { auth } from '../config/firebase'
+import { DEFAULT_FEATURE_FLAGS } from '../config/featureFlags'
+import { ServiceContainer } from '../services/container'
+import type { FeatureFlag } from '../types'
+
+/**
+ * Every feature flag for the signed-in user, evaluated by the v2 API
+ */
+export const useFeatureFlags = () => {
+  const [user] = useAuthState(auth)
+  const query = useQuery({
+    queryKey: ['feature-flags', user?.uid],
+    queryFn: () =>
+      ServiceContainer.instance.getParlayService().getFeatureFlags(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+
+  return {
+    flags: query.data ?? DEFAULT_FEATURE_FLAGS,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  }
+}
+
+/**
+ * Whether one feature is on for the signed-in user
+ */
+export const useFeatureFlag = (flag: FeatureFlag): boolean =>
+  useFeatureFlags().flags[flag]
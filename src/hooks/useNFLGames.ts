@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
 import { API_CONFIG } from '../config/api'
-import { NFLGame } from '../types'
+import { NFLGame, NFLWeek, SeasonType } from '../types'
+import { getWeekKey } from '../utils'
 
 // V2 API response types (inline since they're specific to this hook)
 interface V2Team {
@@ -8,22 +9,22 @@ interface V2Team {
   name: string
   abbrev: string
   record?: string
+  logo?: string
+  color?: string
+  alternateColor?: string
 }
 
 interface V2Game {
   gameId: string
   week: number
+  seasonType: SeasonType
+  season: number
   startTime: string
-  status: 'scheduled' | 'in_progress' | 'final' | 'postponed'
+  status: 'scheduled' | 'in_progress' | 'final' | 'postponed' | 'canceled'
   home: V2Team
   away: V2Team
 }
 
-interface V2CurrentWeekResponse {
-  week: number
-  season: number
-}
-
 // Transform v2 API response to match frontend expectations
 function transformV2Games(v2Games: V2Game[]): NFLGame[] {
   return v2Games.map(game => {
@@ -35,33 +36,34 @@ function transformV2Games(v2Games: V2Game[]): NFLGame[] {
       id: game.gameId,
       date: game.startTime,
       week: game.week,
-      season: new Date(game.startTime).getFullYear(),
+      seasonType: game.seasonType,
+      season: game.season,
       status: game.status,
       homeTeam: {
         id: homeTeam.teamId || '',
         name: homeTeam.name || 'Unknown Team',
         displayName: homeTeam.name || 'Unknown Team',
         abbreviation: homeTeam.abbrev || 'UNK',
-        color: '000000',
-        alternateColor: '000000',
-        logo: '', // v2 doesn't include logos yet
+        color: homeTeam.color || '',
+        alternateColor: homeTeam.alternateColor || '',
+        logo: homeTeam.logo || '',
       },
       awayTeam: {
         id: awayTeam.teamId || '',
         name: awayTeam.name || 'Unknown Team',
         displayName: awayTeam.name || 'Unknown Team',
         abbreviation: awayTeam.abbrev || 'UNK',
-        color: '000000',
-        alternateColor: '000000',
-        logo: '', // v2 doesn't include logos yet
+        color: awayTeam.color || '',
+        alternateColor: awayTeam.alternateColor || '',
+        logo: awayTeam.logo || '',
       },
     }
   })
 }
 
-export const useNFLGames = (week?: number) => {
+export const useNFLGames = (week?: NFLWeek) => {
   const query = useQuery({
-    queryKey: ['nfl-games', week || 'current'],
+    queryKey: ['nfl-games', week ? getWeekKey(week) : 'current', week?.season],
     queryFn: async (): Promise<NFLGame[]> => {
       const base = API_CONFIG.CLOUD_FUNCTIONS.baseURL
       if (!week) {
@@ -73,10 +75,10 @@ export const useNFLGames = (week?: number) => {
             `Failed to fetch current week: ${currentWeekResponse.status} ${currentWeekResponse.statusText}`
           )
         }
-        const w: V2CurrentWeekResponse = await currentWeekResponse.json()
+        const w: NFLWeek = await currentWeekResponse.json()
 
         const gamesResponse = await fetch(
-          `${base}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.games(w.week)}`
+          `${base}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.games(w.week, w.seasonType, w.season)}`
         )
         if (!gamesResponse.ok) {
           throw new Error(
@@ -87,11 +89,11 @@ export const useNFLGames = (week?: number) => {
         return transformV2Games(games)
       }
       const gamesResponse = await fetch(
-        `${base}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.games(week)}`
+        `${base}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.games(week.week, week.seasonType, week.season)}`
       )
       if (!gamesResponse.ok) {
         throw new Error(
-          `Failed to fetch games for week ${week}: ${gamesResponse.status} ${gamesResponse.statusText}`
+          `Failed to fetch games for ${week.seasonType} week ${week.week}: ${gamesResponse.status} ${gamesResponse.statusText}`
         )
       }
       const games: V2Game[] = await gamesResponse.json()
@@ -2,25 +2,36 @@
 import { useMutation } from '@tanstack/react-query'
 import { ServiceContainer } from '../services/container'
 import useParlayStore from '../store/parlayStore'
-import { NFLGame } from '../types'
+import { BetTypeFilter, NFLGame } from '../types'
 import { RateLimitError } from '../types/errors'
 import { useRateLimit } from './useRateLimit'
 
 export const useParlayGenerator = () => {
   const setParlay = useParlayStore(state => state.setParlay)
+  const setGenerationInfo = useParlayStore(state => state.setGenerationInfo)
   const parlayService = ServiceContainer.instance.getParlayService()
   const { updateFromResponse } = useRateLimit()
 
   const mutation = useMutation({
     mutationFn: async ({
-      game,
+      games,
       shouldUseMock,
+      numLegs,
+      betTypes,
     }: {
-      game: NFLGame
+      games: NFLGame[]
       shouldUseMock: boolean | null
+      numLegs?: number
+      betTypes?: BetTypeFilter
     }) => {
-      const provider = shouldUseMock === true ? 'mock' : 'openai'
-      return await parlayService.generateParlay(game, { provider })
+      // No override leaves provider selection to the backend
+      const provider =
+        shouldUseMock === null ? undefined : shouldUseMock ? 'mock' : 'openai'
+      const options = { provider, numLegs, betTypes } as const
+      if (games.length > 1) {
+        return await parlayService.generateMultiGameParlay(games, options)
+      }
+      return await parlayService.generateParlay(games[0], options)
     },
     onError: error => {
       console.error('Error generating parlay:', error)
@@ -36,10 +47,14 @@ export const useParlayGenerator = () => {
 
       if (error instanceof RateLimitError) {
         console.warn('Rate limit exceeded:', error.rateLimitInfo)
-        updateFromResponse({ rateLimitInfo: error.rateLimitInfo })
+        updateFromResponse({
+          rateLimitInfo: error.rateLimitInfo,
+          quotaInfo: error.quotaInfo,
+        })
       }
 
       setParlay(null)
+      setGenerationInfo(null)
     },
     onSuccess: data => {
       if (data.rateLimitInfo) {
@@ -53,10 +68,12 @@ export const useParlayGenerator = () => {
                 : data.rateLimitInfo.resetTime,
             currentCount: data.rateLimitInfo.currentCount,
           },
+          quotaInfo: data.quotaInfo,
         })
       }
 
       setParlay(data.parlay)
+      setGenerationInfo(data.metadata ?? null)
     },
   })
 
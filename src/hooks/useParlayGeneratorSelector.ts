@@ -1,18 +1,25 @@
 import useGeneralStore from '../store/generalStore'
+import { useFeatureFlag } from './useFeatureFlags'
 import { useParlayGenerator } from './useParlayGenerator'
 
 /**
- * Hook that automatically selects between real and mock parlay generators
+ * Hook that automatically selects between real and mock parlay generators.
+ * The dev mock toggle only applies to users with the provider_override flag.
  */
 export const useParlayGeneratorSelector = () => {
   const devMockOverride = useGeneralStore(state => state.devMockOverride)
+  const providerOverride = useFeatureFlag('provider_override')
   const parlayGenerator = useParlayGenerator()
+  const usingMock = providerOverride && devMockOverride
 
   return {
     ...parlayGenerator,
     serviceStatus: {
-      usingMock: devMockOverride,
-      usingCloudFunction: !devMockOverride,
+      usingMock,
+      usingCloudFunction: !usingMock,
+      providerOverride,
+      // Null leaves provider selection to the backend
+      shouldUseMock: providerOverride ? devMockOverride : null,
       environment: import.meta.env.MODE,
       ready: true,
     },
@@ -0,0 +1,78 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { ServiceContainer } from '../services/container'
+import { ParlayHistoryFilters, SavedParlay } from '../types'
+import { useAuth } from './useAuth'
+
+export const PARLAY_HISTORY_QUERY_KEY = 'parlayHistory'
+
+/**
+ * Paginated parlay history for the signed-in user, with delete and notes
+ * mutations that keep the cached pages in sync
+ */
+export const useParlayHistory = (
+  filters: ParlayHistoryFilters = {},
+  enabled = true
+) => {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const parlayService = ServiceContainer.instance.getParlayService()
+
+  const query = useInfiniteQuery({
+    queryKey: [PARLAY_HISTORY_QUERY_KEY, user?.uid, filters],
+    queryFn: ({ pageParam }) =>
+      parlayService.listParlays(filters, pageParam ?? undefined),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled: enabled && !!user,
+    staleTime: 30000,
+  })
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: [PARLAY_HISTORY_QUERY_KEY] })
+
+  const deleteMutation = useMutation({
+    mutationFn: (parlayId: string) => parlayService.deleteParlay(parlayId),
+    onSuccess: invalidate,
+  })
+
+  const notesMutation = useMutation({
+    mutationFn: ({ parlayId, notes }: { parlayId: string; notes: string }) =>
+      parlayService.updateParlayNotes(parlayId, notes),
+    onSuccess: invalidate,
+  })
+
+  const parlays: SavedParlay[] =
+    query.data?.pages.flatMap(page => page.parlays) ?? []
+
+  return {
+    parlays,
+    isLoading: query.isLoading,
+    error: query.error?.message || null,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    deleteParlay: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+    updateNotes: notesMutation.mutateAsync,
+    isUpdatingNotes: notesMutation.isPending,
+  }
+}
+
+/**
+ * Save the current parlay to history and refresh any cached history pages
+ */
+export const useSaveParlay = () => {
+  const queryClient = useQueryClient()
+  const parlayService = ServiceContainer.instance.getParlayService()
+
+  return useMutation({
+    mutationFn: ({ parlayId, notes }: { parlayId: string; notes?: string }) =>
+      parlayService.saveParlay(parlayId, notes),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: [PARLAY_HISTORY_QUERY_KEY] }),
+  })
+}
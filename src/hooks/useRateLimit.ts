@@ -1,7 +1,8 @@
-import { useQuery } from '@tanstack/react-query'
-import { useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useAuthState } from 'react-firebase-hooks/auth'
 import { auth } from '../config/firebase'
+import { ServiceContainer } from '../services/container'
+import type { QuotaInfoResponse } from '../types'
 
 interface RateLimitInfo {
   remaining: number
@@ -10,11 +11,10 @@ interface RateLimitInfo {
   currentCount: number
 }
 
-// interface RateLimitResponse {
-//   success: boolean
-//   data?: RateLimitInfo & { resetTime: string } // API returns string, we convert to Date
-//   error?: string
-// }
+interface RateLimitStatus {
+  rateLimitInfo: RateLimitInfo
+  quotaInfo: QuotaInfoResponse | null
+}
 
 // Updated interface to make rateLimitInfo required when passed
 interface ParlayGenerationResponse {
@@ -24,6 +24,7 @@ interface ParlayGenerationResponse {
     currentCount: number
     total?: number // Optional since some responses might not include it
   }
+  quotaInfo?: QuotaInfoResponse
   [key: string]: string | number | boolean | object | null | undefined
 }
 
@@ -33,21 +34,25 @@ interface ParlayGenerationResponse {
  */
 export const useRateLimit = () => {
   const [user, loading] = useAuthState(auth)
-  const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo | null>(null)
+  const queryClient = useQueryClient()
+  const queryKey = ['rateLimitStatus', user?.uid]
 
-  // Query rate limit status - DISABLED for v2 (no rate limit endpoint yet)
+  // Shared through the query cache so every consumer sees the same numbers
   const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ['rateLimitStatus', user?.uid],
-    queryFn: async (): Promise<RateLimitInfo> => {
-      // V2 doesn't have rate limit status endpoint yet, return default values
+    queryKey,
+    queryFn: async (): Promise<RateLimitStatus> => {
+      const { rateLimitInfo, quotaInfo } = await ServiceContainer.instance
+        .getParlayService()
+        .getRateLimitStatus()
       return {
-        remaining: 10,
-        total: 10,
-        currentCount: 0,
-        resetTime: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes from now
+        rateLimitInfo: {
+          ...rateLimitInfo,
+          resetTime: new Date(rateLimitInfo.resetTime),
+        },
+        quotaInfo,
       }
     },
-    enabled: false, // Disabled until v2 rate limit endpoint is added
+    enabled: !!user,
     refetchInterval: 30000, // Refetch every 30 seconds
     staleTime: 15000, // Consider data stale after 15 seconds
     retry: (failureCount, error) => {
@@ -62,13 +67,8 @@ export const useRateLimit = () => {
     },
     retryDelay: attemptIndex => Math.min(1000 * 2 ** attemptIndex, 30000),
   })
-
-  // Update local state when query data changes
-  useEffect(() => {
-    if (data) {
-      setRateLimitInfo(data)
-    }
-  }, [data])
+  const rateLimitInfo = data?.rateLimitInfo ?? null
+  const quotaInfo = data?.quotaInfo ?? null
 
   /**
    * Update rate limit info from a parlay generation response
@@ -88,7 +88,11 @@ export const useRateLimit = () => {
         currentCount: responseData.rateLimitInfo.currentCount,
       }
 
-      setRateLimitInfo(updatedInfo)
+      const updated: RateLimitStatus = {
+        rateLimitInfo: updatedInfo,
+        quotaInfo: responseData.quotaInfo ?? quotaInfo,
+      }
+      queryClient.setQueryData(queryKey, updated)
     }
   }
 
@@ -145,6 +149,8 @@ export const useRateLimit = () => {
 
   return {
     rateLimitInfo,
+    quotaInfo,
+    tier: quotaInfo?.tier ?? null,
     isLoading: isLoading || loading,
     error: error?.message || null,
     refetch,
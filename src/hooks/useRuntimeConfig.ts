@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { auth } from '../config/firebase'
+import {
+  DEFAULT_PUBLIC_RUNTIME_CONFIG,
+  fetchPublicRuntimeConfig,
+} from '../config/runtime'
+
+/**
+ * Runtime config the client may read. Firestore only serves `config` to
+ * signed-in users, so everyone else sees the defaults.
+ */
+export const useRuntimeConfig = () => {
+  const [user] = useAuthState(auth)
+  const query = useQuery({
+    queryKey: ['runtime-config'],
+    queryFn: fetchPublicRuntimeConfig,
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+
+  return {
+    config: query.data ?? DEFAULT_PUBLIC_RUNTIME_CONFIG,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  }
+}
@@ -1,11 +1,23 @@
 // src/services/ParlayService.ts - V2 API implementation
 import { API_CONFIG } from '../config/api'
 import { auth } from '../config/firebase'
+import { PARLAY_LEG_LIMITS } from '../config/parlay'
 import {
-  GeneratedParlay,
+  AIProviderName,
+  BetTypeFilter,
+  FeatureFlags,
+  FeatureFlagsResponse,
+  GenerateMultiParlayRequest,
   GenerateParlayRequest,
+  GenerateParlayResponse,
   NFLGame,
   ParlayGenerationResult,
+  ParlayHistoryFilters,
+  ParlayHistoryPage,
+  QuotaInfoResponse,
+  RateLimitInfoResponse,
+  RateLimitStatusResponse,
+  SavedParlay,
 } from '../types'
 import { RateLimitError } from '../types/errors'
 
@@ -33,6 +45,13 @@ export interface ParlayGenerationOptions {
   debugMode?: boolean
 }
 
+export interface ParlayRequestOptions {
+  // Leave unset to use the backend's default provider
+  provider?: AIProviderName
+  numLegs?: number
+  betTypes?: BetTypeFilter
+}
+
 export interface EnhancedParlayGenerationResult extends ParlayGenerationResult {
   metadata?: {
     provider: string
@@ -49,7 +68,11 @@ export interface EnhancedParlayGenerationResult extends ParlayGenerationResult {
 
 export class ParlayService {
   private readonly cloudFunctionUrl: string
+  private readonly multiGameUrl: string
   private readonly healthCheckUrl: string
+  private readonly rateLimitStatusUrl: string
+  private readonly featureFlagsUrl: string
+  private readonly parlaysUrl: string
 
   constructor() {
     const projectId = import.meta.env.VITE_FIREBASE_PROJECT_ID
@@ -64,7 +87,11 @@ export class ParlayService {
     const baseUrl = API_CONFIG.CLOUD_FUNCTIONS.baseURL
 
     this.cloudFunctionUrl = `${baseUrl}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.generateParlay}`
+    this.multiGameUrl = `${baseUrl}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.generateMultiParlay}`
     this.healthCheckUrl = `${baseUrl}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.health}`
+    this.rateLimitStatusUrl = `${baseUrl}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.rateLimitStatus}`
+    this.featureFlagsUrl = `${baseUrl}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.featureFlags}`
+    this.parlaysUrl = `${baseUrl}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.parlays}`
   }
 
   /**
@@ -72,7 +99,59 @@ export class ParlayService {
    */
   async generateParlay(
     game: NFLGame,
-    options: { provider?: 'mock' | 'openai' } = {}
+    options: ParlayRequestOptions = {}
+  ): Promise<EnhancedParlayGenerationResult> {
+    const requestBody: GenerateParlayRequest = {
+      gameId: game.id,
+      numLegs: options.numLegs ?? PARLAY_LEG_LIMITS.default,
+      week: game.week,
+      seasonType: game.seasonType,
+      season: game.season,
+      riskLevel: 'conservative', // Default risk level
+      betTypes: options.betTypes ?? 'all',
+      provider: this.getRequestProvider(options.provider),
+    }
+    return this.generateAuthenticated(this.cloudFunctionUrl, requestBody)
+  }
+
+  /**
+   * Generate a parlay with legs spread across several games (any weeks)
+   */
+  async generateMultiGameParlay(
+    games: NFLGame[],
+    options: ParlayRequestOptions = {}
+  ): Promise<EnhancedParlayGenerationResult> {
+    const requestBody: GenerateMultiParlayRequest = {
+      games: games.map(game => ({
+        gameId: game.id,
+        week: game.week,
+        seasonType: game.seasonType,
+        season: game.season,
+      })),
+      numLegs: Math.max(
+        options.numLegs ?? PARLAY_LEG_LIMITS.default,
+        games.length
+      ),
+      riskLevel: 'conservative', // Default risk level
+      betTypes: options.betTypes ?? 'all',
+      provider: this.getRequestProvider(options.provider),
+    }
+    return this.generateAuthenticated(this.multiGameUrl, requestBody)
+  }
+
+  /**
+   * Provider overrides are a dev tool; production builds always use the
+   * backend default
+   */
+  private getRequestProvider(
+    provider?: AIProviderName
+  ): AIProviderName | undefined {
+    return import.meta.env.MODE === 'production' ? undefined : provider
+  }
+
+  private async generateAuthenticated(
+    url: string,
+    requestBody: GenerateParlayRequest | GenerateMultiParlayRequest
   ): Promise<EnhancedParlayGenerationResult> {
     try {
       // Check authentication before proceeding
@@ -89,7 +168,7 @@ export class ParlayService {
         emailVerified: currentUser.emailVerified,
       })
 
-      return await this.generateCloudParlay(game, options)
+      return await this.generateCloudParlay(url, requestBody)
     } catch (error) {
       console.error('❌ Error generating parlay:', error)
       throw this.enhanceError(error as Error)
@@ -100,20 +179,130 @@ export class ParlayService {
    * Generate parlay using cloud functions
    */
   private async generateCloudParlay(
-    game: NFLGame,
-    _options: { provider?: 'mock' | 'openai' }
+    url: string,
+    requestBody: GenerateParlayRequest | GenerateMultiParlayRequest
   ): Promise<EnhancedParlayGenerationResult> {
     // V2 API handles roster fetching internally
-    const parlayData = await this.callCloudFunction(game)
+    const { metadata, rateLimitInfo, quotaInfo, ...parlay } =
+      await this.callCloudFunction(url, requestBody)
 
-    // V2 API returns the parlay data directly
     return {
-      parlay: parlayData,
-      rateLimitInfo: undefined, // V2 doesn't return rate limit info yet
-      metadata: undefined, // V2 doesn't return metadata yet
+      parlay,
+      rateLimitInfo,
+      quotaInfo,
+      metadata: metadata && {
+        provider: metadata.provider,
+        model: metadata.model,
+        latency: metadata.latencyMs,
+        confidence: parlay.parlayConfidence,
+        fallbackUsed: metadata.fallbackUsed,
+        attemptCount: metadata.attemptCount,
+        serviceMode: metadata.provider,
+      },
     }
   }
 
+  /**
+   * Fetch the caller's parlay generation quota without using it
+   */
+  async getRateLimitStatus(): Promise<RateLimitStatusResponse> {
+    return this.requestJson<RateLimitStatusResponse>(this.rateLimitStatusUrl)
+  }
+
+  /**
+   * Fetch every feature flag, evaluated for the signed-in user
+   */
+  async getFeatureFlags(): Promise<FeatureFlags> {
+    const { flags } = await this.requestJson<FeatureFlagsResponse>(
+      this.featureFlagsUrl
+    )
+    return flags
+  }
+
+  /**
+   * Save a generated parlay to the user's history under its parlayId
+   */
+  async saveParlay(parlayId: string, notes?: string): Promise<SavedParlay> {
+    return this.requestJson<SavedParlay>(`${this.parlayUrl(parlayId)}/save`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    })
+  }
+
+  /**
+   * Fetch one page of the user's saved parlays, newest first
+   */
+  async listParlays(
+    filters: ParlayHistoryFilters = {},
+    cursor?: string
+  ): Promise<ParlayHistoryPage> {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries({ ...filters, cursor })) {
+      if (value != null && value !== '') {
+        params.set(key, String(value))
+      }
+    }
+    const query = params.toString()
+    return this.requestJson<ParlayHistoryPage>(
+      `${this.parlaysUrl}${query ? `?${query}` : ''}`
+    )
+  }
+
+  async getSavedParlay(parlayId: string): Promise<SavedParlay> {
+    return this.requestJson<SavedParlay>(this.parlayUrl(parlayId))
+  }
+
+  async updateParlayNotes(
+    parlayId: string,
+    notes: string
+  ): Promise<SavedParlay> {
+    return this.requestJson<SavedParlay>(`${this.parlayUrl(parlayId)}/notes`, {
+      method: 'PATCH',
+      body: JSON.stringify({ notes }),
+    })
+  }
+
+  async deleteParlay(parlayId: string): Promise<void> {
+    await this.requestJson<void>(this.parlayUrl(parlayId), {
+      method: 'DELETE',
+    })
+  }
+
+  private parlayUrl(parlayId: string): string {
+    return `${API_CONFIG.CLOUD_FUNCTIONS.baseURL}${API_CONFIG.CLOUD_FUNCTIONS.endpoints.v2.parlay(parlayId)}`
+  }
+
+  /**
+   * Authenticated JSON request against the v2 API
+   */
+  private async requestJson<T>(
+    url: string,
+    init: RequestInit = {}
+  ): Promise<T> {
+    const authToken = await this.getAuthToken()
+    if (!authToken) {
+      throw new Error('No authentication token available. Please log in again.')
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${authToken}`,
+      },
+    })
+    if (response.status === 204) {
+      return undefined as T
+    }
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(
+        `HTTP ${response.status}: ${data.message ?? response.statusText}`
+      )
+    }
+    return data
+  }
+
   /**
    * Check service health (updated to work with cloud functions)
    */
@@ -171,7 +360,10 @@ export class ParlayService {
   /**
    * Call v2 cloud function to generate parlay
    */
-  private async callCloudFunction(game: NFLGame): Promise<GeneratedParlay> {
+  private async callCloudFunction(
+    url: string,
+    requestBody: GenerateParlayRequest | GenerateMultiParlayRequest
+  ): Promise<GenerateParlayResponse> {
     try {
       const authToken = await this.getAuthToken()
 
@@ -181,22 +373,18 @@ export class ParlayService {
         )
       }
 
-      const requestBody: GenerateParlayRequest = {
-        gameId: game.id,
-        numLegs: 3,
-        week: game.week,
-        riskLevel: 'conservative', // Default risk level
-        betTypes: 'all',
-      }
-
       console.log('🚀 Making parlay generation request:', {
-        url: this.cloudFunctionUrl,
-        gameId: game.id,
+        url,
+        gameIds:
+          'games' in requestBody
+            ? requestBody.games.map(g => g.gameId)
+            : [requestBody.gameId],
+        numLegs: requestBody.numLegs,
         hasAuthToken: !!authToken,
         tokenLength: authToken.length,
       })
 
-      const response = await fetch(this.cloudFunctionUrl, {
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -211,11 +399,27 @@ export class ParlayService {
         console.error('[CF FAIL]', {
           status: response.status,
           statusText: response.statusText,
-          url: this.cloudFunctionUrl,
+          url,
           hasAuthToken: !!authToken,
           body: responseData,
         })
 
+        const rateLimitInfo: RateLimitInfoResponse | undefined =
+          responseData.details?.rateLimitInfo
+        const quotaInfo: QuotaInfoResponse | undefined =
+          responseData.details?.quotaInfo
+        if (response.status === 429 && rateLimitInfo) {
+          throw new RateLimitError(
+            responseData.message,
+            {
+              remaining: rateLimitInfo.remaining,
+              resetTime: new Date(rateLimitInfo.resetTime),
+              currentCount: rateLimitInfo.currentCount,
+            },
+            quotaInfo
+          )
+        }
+
         // Handle v2 error format
         if (responseData.code && responseData.message) {
           throw new Error(`${responseData.code}: ${responseData.message}`)
@@ -1,16 +1,33 @@
 import { create } from 'zustand'
-import { GeneratedParlay, NFLGame } from '../types'
+import { PARLAY_LEG_LIMITS } from '../config/parlay'
+import type { EnhancedParlayGenerationResult } from '../services/ParlayService'
+import { BetTypeFilter, GeneratedParlay, NFLGame } from '../types'
+
+export type ParlayGenerationInfo = NonNullable<
+  EnhancedParlayGenerationResult['metadata']
+>
 
 interface ParlayStore {
   // State
   parlay: GeneratedParlay | null
+  // How the current parlay was generated, when the API reported it
+  generationInfo: ParlayGenerationInfo | null
   selectedGame: NFLGame | null
+  multiGameMode: boolean
+  selectedGames: NFLGame[]
+  numLegs: number
+  betTypes: BetTypeFilter
   saveParlaySuccess: boolean
   saveParlayError: string
 
   // Actions
   setParlay: (parlay: GeneratedParlay | null) => void
+  setGenerationInfo: (info: ParlayGenerationInfo | null) => void
   setSelectedGame: (game: NFLGame | null) => void
+  setMultiGameMode: (enabled: boolean) => void
+  setSelectedGames: (games: NFLGame[]) => void
+  setNumLegs: (numLegs: number) => void
+  setBetTypes: (betTypes: BetTypeFilter) => void
   setSaveParlaySuccess: (success: boolean) => void
   setSaveParlayError: (error: string) => void
 }
@@ -18,13 +35,23 @@ interface ParlayStore {
 const useParlayStore = create<ParlayStore>(set => ({
   // Initial state
   parlay: null,
+  generationInfo: null,
   selectedGame: null,
+  multiGameMode: false,
+  selectedGames: [],
+  numLegs: PARLAY_LEG_LIMITS.default,
+  betTypes: 'all',
   saveParlaySuccess: false,
   saveParlayError: '',
 
   // Action implementations
   setParlay: parlay => set({ parlay }),
+  setGenerationInfo: info => set({ generationInfo: info }),
   setSelectedGame: game => set({ selectedGame: game }),
+  setMultiGameMode: enabled => set({ multiGameMode: enabled }),
+  setSelectedGames: games => set({ selectedGames: games }),
+  setNumLegs: numLegs => set({ numLegs }),
+  setBetTypes: betTypes => set({ betTypes }),
   setSaveParlaySuccess: success => set({ saveParlaySuccess: success }),
   setSaveParlayError: error => set({ saveParlayError: error }),
 }))
@@ -1,3 +1,5 @@
+import type { QuotaInfoResponse } from './index'
+
 /**
  * Custom error class for rate limiting
  */
@@ -7,6 +9,7 @@ export class RateLimitError extends Error {
     resetTime: Date
     currentCount: number
   }
+  public quotaInfo?: QuotaInfoResponse
 
   constructor(
     message: string,
@@ -14,10 +17,12 @@ export class RateLimitError extends Error {
       remaining: number
       resetTime: Date
       currentCount: number
-    }
+    },
+    quotaInfo?: QuotaInfoResponse
   ) {
     super(message)
     this.name = 'RateLimitError'
     this.rateLimitInfo = rateLimitInfo
+    this.quotaInfo = quotaInfo
   }
 }
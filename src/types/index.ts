@@ -54,25 +54,39 @@ export type BetType =
   | 'player_alt_receiving_yards'
   | 'player_alt_passing_yards'
 
+export type BetTypeFilter = 'all' | BetType[]
+
 // ===== NFL TYPES =====
 export interface NFLTeam {
   id: string
   name: string
   displayName: string
   abbreviation: string
+  // Hex without the leading '#'; empty when ESPN has no branding
   color: string
   alternateColor: string
   logo: string
 }
 
+export type SeasonType = 'preseason' | 'regular' | 'postseason'
+
+// Weeks are numbered within their season type, as ESPN does
+export interface NFLWeek {
+  week: number
+  seasonType: SeasonType
+  // Year the season kicked off; omitted means the current season
+  season?: number
+}
+
 export interface NFLGame {
   id: string
   date: string
   homeTeam: NFLTeam
   awayTeam: NFLTeam
   week: number
+  seasonType: SeasonType
   season: number
-  status: 'scheduled' | 'in_progress' | 'final' | 'postponed'
+  status: 'scheduled' | 'in_progress' | 'final' | 'postponed' | 'canceled'
 }
 
 export interface NFLPlayer {
@@ -86,22 +100,93 @@ export interface NFLPlayer {
 }
 
 // ===== PARLAY TYPES =====
+export type LegSubjectType = 'team' | 'player' | 'game'
+export type LegSide = 'over' | 'under' | 'yes'
+export type LegPeriod = 'game' | 'first_half' | 'second_half' | 'first_quarter'
+
+export interface LegSubject {
+  type: LegSubjectType
+  id?: string // ESPN team/player id (players match rosterDataUsed)
+  name: string
+}
+
+// Sportsbook check of the AI's price (only when an odds provider is configured)
+export interface LegOddsCheck {
+  status: 'matched' | 'line_mismatch' | 'not_offered'
+  provider: string
+  bookmaker: string
+  bookOdds?: number
+  bookLine?: number
+}
+
 export interface ParlayLeg {
+  gameId?: string // Set on v2 responses; legacy single-game parlays omit it
   betType: BetType
   selection: string
   odds: number
   confidence: number
   reasoning: string
+  // Structured form of `selection`; backfilled for legacy parlays
+  subject?: LegSubject
+  market?: string // betType without period/alt variants, e.g. 'spread'
+  side?: LegSide
+  line?: number
+  period?: LegPeriod
+  oddsCheck?: LegOddsCheck
+}
+
+export interface RateLimitInfoResponse {
+  remaining: number
+  total: number
+  resetTime: string
+  currentCount: number
+}
+
+export type UserTier = 'free' | 'pro' | 'admin'
+
+/** The caller's tier and both of its generation quotas */
+export interface QuotaInfoResponse {
+  tier: UserTier
+  window: RateLimitInfoResponse
+  // Null for tiers without a daily cap
+  daily: RateLimitInfoResponse | null
+}
+
+/** A tier's generation quotas, as set in runtime config */
+export interface TierQuota {
+  // Null for no daily cap
+  daily: number | null
+  window: { limit: number; windowMs: number }
+}
+
+/** The runtime config values the client reads from Firestore */
+export interface PublicRuntimeConfig {
+  tierQuotas: Record<UserTier, TierQuota>
+}
+
+/** Feature flags the v2 API evaluates per user */
+export type FeatureFlag =
+  | 'multi_game_parlays'
+  | 'provider_override'
+  | 'rate_limit_status'
+  | 'generation_metadata'
+
+export type FeatureFlags = Record<FeatureFlag, boolean>
+
+export interface FeatureFlagsResponse {
+  flags: FeatureFlags
+}
+
+export interface RateLimitStatusResponse {
+  // Whichever quota runs out first
+  rateLimitInfo: RateLimitInfoResponse
+  quotaInfo: QuotaInfoResponse
 }
 
 export interface ParlayGenerationResult {
   parlay: GeneratedParlay
-  rateLimitInfo?: {
-    remaining: number
-    total: number
-    resetTime: string
-    currentCount: number
-  }
+  rateLimitInfo?: RateLimitInfoResponse
+  quotaInfo?: QuotaInfoResponse
 }
 
 export interface GameSummary {
@@ -114,26 +199,176 @@ export interface GameSummary {
   }
 }
 
+export interface ParlayMatchupTeam {
+  teamId: string
+  name: string
+  abbrev: string
+  // ESPN branding; colors are hex without the leading '#'
+  logo?: string
+  color?: string
+  alternateColor?: string
+}
+
+export type InjuryStatus = 'out' | 'doubtful' | 'questionable'
+
+export interface RosterPlayer {
+  playerId: string
+  name: string
+  position?: string
+  jersey?: string
+  // ESPN roster status, e.g. "Active" or "Injured Reserve"
+  status?: string
+  // Depth chart rank at the player's position; 1 is the starter
+  depth?: number
+}
+
+export interface PlayerInjury {
+  playerId: string
+  name: string
+  position?: string
+  status: InjuryStatus
+  // ESPN's label, e.g. "Injured Reserve" for an `out` player
+  statusLabel: string
+  injury?: string
+  returnDate?: string
+}
+
+export type VenueRoof = 'open' | 'dome' | 'retractable'
+
+export interface GameVenue {
+  name: string
+  city: string
+  state: string
+  roof?: VenueRoof
+}
+
+// Forecast at kickoff; never present for domes
+export interface GameWeather {
+  condition: string
+  temperatureF: number
+  windMph: number
+  precipitationChance?: number
+}
+
+export interface ParlayMatchup {
+  gameId: string
+  week: number
+  seasonType?: SeasonType
+  startTime: string
+  home: ParlayMatchupTeam
+  away: ParlayMatchupTeam
+  venue?: GameVenue
+  weather?: GameWeather
+  // Injury reports the parlay was generated with
+  injuries?: { home: PlayerInjury[]; away: PlayerInjury[] }
+  prediction?: GameSummary['gamePrediction']
+}
+
+// Written by the backend settlement job once a parlay's games go final
+export type LegResult = 'win' | 'loss' | 'push' | 'void' | 'pending'
+export type ParlaySettlementStatus =
+  | 'pending'
+  | 'won'
+  | 'lost'
+  | 'push'
+  | 'void'
+
+export interface LegSettlement {
+  result: LegResult
+  actual?: number
+  reason?: string
+}
+
+export interface ParlaySettlement {
+  status: ParlaySettlementStatus
+  legs: LegSettlement[] // Indexed like GeneratedParlay.legs
+  settledAt?: number
+  updatedAt: number
+}
+
 export interface GeneratedParlay {
   parlayId: string
   gameId: string
+  gameIds?: string[] // Present on multi-game parlays
   gameContext: string
   legs: ParlayLeg[]
   combinedOdds: number
   parlayConfidence: number
   gameSummary: GameSummary
+  // Starters shown to the AI plus any player a leg references
   rosterDataUsed: {
-    home: Array<{ playerId: string; name: string }>
-    away: Array<{ playerId: string; name: string }>
+    home: RosterPlayer[]
+    away: RosterPlayer[]
   }
+  matchups?: ParlayMatchup[]
+  settlement?: ParlaySettlement
+}
+
+export type RiskLevel = 'conservative' | 'moderate' | 'aggressive'
+
+/** A parlay from the user's history */
+export interface SavedParlay extends GeneratedParlay {
+  week?: number
+  seasonType?: SeasonType
+  riskLevel?: RiskLevel
+  notes?: string
+  savedAt?: string
+}
+
+export interface ParlayHistoryFilters {
+  week?: number
+  seasonType?: SeasonType
+  gameId?: string
+  riskLevel?: RiskLevel
+}
+
+export interface ParlayHistoryPage {
+  parlays: SavedParlay[]
+  nextCursor: string | null
 }
 
+export type AIProviderName = 'openai' | 'mock'
+
 export interface GenerateParlayRequest {
   gameId: string
-  numLegs: 3
+  numLegs: number
   week: number
-  riskLevel?: 'conservative' | 'moderate' | 'aggressive'
-  betTypes?: 'all' | string[]
+  seasonType: SeasonType
+  season?: number
+  riskLevel?: RiskLevel
+  betTypes?: BetTypeFilter
+  // Honored by the backend for dev/test users only
+  provider?: AIProviderName
+  seed?: number
+}
+
+export interface GenerateMultiParlayRequest {
+  games: Array<{
+    gameId: string
+    week: number
+    seasonType: SeasonType
+    season?: number
+  }>
+  numLegs: number
+  riskLevel?: RiskLevel
+  betTypes?: BetTypeFilter
+  provider?: AIProviderName
+  seed?: number
+}
+
+export interface GenerationMetadata {
+  provider: AIProviderName
+  model: string
+  latencyMs: number
+  attemptCount: number
+  fallbackUsed: boolean
+  seed?: number
+}
+
+export type GenerateParlayResponse = GeneratedParlay & {
+  metadata: GenerationMetadata
+  rateLimitInfo?: RateLimitInfoResponse
+  quotaInfo?: QuotaInfoResponse
 }
 
 // ===== AUTH TYPES =====
@@ -1,4 +1,4 @@
-import { BetType } from '../types'
+import { BetType, NFLWeek, SeasonType } from '../types'
 
 // Workaround for TypeScript env issue
 /**
@@ -61,3 +61,90 @@ export const getConfidenceColor = (
   }
   return 'error'
 }
+
+/**
+ * CSS color for an ESPN team color ("e31837" -> "#e31837"), or undefined
+ * when the team has none
+ */
+export const getTeamColor = (color?: string): string | undefined =>
+  color && /^[0-9a-f]{6}$/i.test(color) ? `#${color}` : undefined
+
+// Weeks per season type, as the backend numbers them
+export const SEASON_WEEKS: Record<SeasonType, number> = {
+  preseason: 4,
+  regular: 18,
+  postseason: 5,
+}
+
+const SEASON_TYPE_ORDER: SeasonType[] = ['preseason', 'regular', 'postseason']
+
+const POSTSEASON_ROUNDS = [
+  'Wild Card',
+  'Divisional',
+  'Conference Championship',
+  'Pro Bowl',
+  'Super Bowl',
+]
+
+/**
+ * Every week of the season in calendar order, preseason through Super Bowl
+ */
+export const listSeasonWeeks = (): NFLWeek[] =>
+  SEASON_TYPE_ORDER.flatMap(seasonType =>
+    Array.from({ length: SEASON_WEEKS[seasonType] }, (_, i) => ({
+      week: i + 1,
+      seasonType,
+    }))
+  )
+
+/**
+ * Order two weeks by calendar position (negative when `a` comes first)
+ */
+export const compareWeeks = (a: NFLWeek, b: NFLWeek): number =>
+  SEASON_TYPE_ORDER.indexOf(a.seasonType) -
+    SEASON_TYPE_ORDER.indexOf(b.seasonType) || a.week - b.week
+
+export const isSameWeek = (a: NFLWeek, b: NFLWeek): boolean =>
+  compareWeeks(a, b) === 0
+
+/**
+ * Stable string key for a week, e.g. for Select values and React keys
+ */
+export const getWeekKey = (ref: NFLWeek): string =>
+  `${ref.seasonType}-${ref.week}`
+
+export const parseWeekKey = (key: string): NFLWeek | null => {
+  const [seasonType, week] = key.split('-')
+  return SEASON_TYPE_ORDER.includes(seasonType as SeasonType) && Number(week)
+    ? { seasonType: seasonType as SeasonType, week: Number(week) }
+    : null
+}
+
+/**
+ * Display label: "Week 5", "Preseason Week 2", "Wild Card"
+ */
+export const getWeekLabel = (ref: NFLWeek): string => {
+  if (ref.seasonType === 'postseason') {
+    return POSTSEASON_ROUNDS[ref.week - 1] ?? `Postseason Week ${ref.week}`
+  }
+  return ref.seasonType === 'preseason'
+    ? `Preseason Week ${ref.week}`
+    : `Week ${ref.week}`
+}
+
+/**
+ * Season span label, e.g. "2024-25" for the season that kicked off in 2024
+ */
+export const getSeasonLabel = (season: number): string =>
+  `${season}-${String(season + 1).slice(-2)}`
+
+export const getSeasonTypeLabel = (seasonType: SeasonType): string => {
+  switch (seasonType) {
+    case 'preseason':
+      return 'Preseason'
+    case 'postseason':
+      return 'Playoffs'
+    default:
+      return 'Regular Season'
+  }
+}